@@ -0,0 +1,25 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { getFocus4Snapshot } from "@/ipc/contracts/snapshot";
+import {
+  diffSnapshots,
+  type ContractsSnapshot,
+} from "@/lib/clean-api-v2/schema-diff";
+
+// Usage: npm run contracts:diff -- [snapshot file] [--update]
+// Prints the report of changes since the snapshot, fails on breaking ones
+const args = process.argv.slice(2);
+const file =
+  args.find((arg) => !arg.startsWith("--")) ?? "contracts.snapshot.json";
+const current = getFocus4Snapshot();
+
+if (args.includes("--update") || !existsSync(file)) {
+  writeFileSync(file, `${JSON.stringify(current, null, 2)}\n`);
+  console.log(`Contracts snapshot written to ${file}`);
+  process.exit(0);
+}
+
+const previous = JSON.parse(readFileSync(file, "utf-8")) as ContractsSnapshot;
+const report = diffSnapshots(previous, current);
+
+console.log(JSON.stringify(report, null, 2));
+process.exit(report.breaking ? 1 : 0);
@@ -0,0 +1,13 @@
+import { writeFileSync } from "node:fs";
+import { getFocus4OpenAPI } from "@/ipc/contracts/openapi";
+import { toYAML } from "@/lib/clean-api-v2/openapi";
+
+// Usage: npm run openapi -- [output file], ".yaml"/".yml" produces YAML
+const output = process.argv[2] ?? "openapi.json";
+const document = getFocus4OpenAPI();
+const content = /\.ya?ml$/.test(output)
+  ? toYAML(document)
+  : JSON.stringify(document, null, 2);
+
+writeFileSync(output, `${content}\n`);
+console.log(`OpenAPI document written to ${output}`);
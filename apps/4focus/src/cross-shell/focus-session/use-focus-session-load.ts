@@ -1,5 +1,5 @@
 import { useAuthState } from "@/kernel/auth/use-auth-state";
-import { focus4API, parseFocus4APIError } from "@/ipc/contracts";
+import { focus4API } from "@/ipc/contracts";
 import { useEffect, useState } from "react";
 
 type Task = {
@@ -48,40 +48,77 @@ const useFocusSessionLoad = () => {
   const [state, setState] = useState<FocusSessionLoadState>({ status: "idle" });
 
   useEffect(() => {
-    const abortController = new AbortController();
+    if (authState.status !== "authenticated") {
+      return;
+    }
 
-    (async () => {
-      try {
-        if (authState.status !== "authenticated") {
-          return;
-        }
+    const abortController = new AbortController();
+    // Pushed state is newer than the loaded one
+    let streamed = false;
 
-        setState({ status: "busy" });
+    setState({ status: "busy" });
 
-        const data = await focus4API.call("getActiveFocusSession", {
+    (async () => {
+      const [ok, result] = await focus4API.safeCall(
+        "sessions.getActiveFocusSession",
+        {
           extra: { signal: abortController.signal },
-        });
+        },
+      );
+
+      if (streamed || abortController.signal.aborted) {
+        return;
+      }
 
+      if (ok) {
         setState({
           status: "success",
           data: {
-            hasActiveSession: data.hasActiveSession,
-            session: data.session,
+            hasActiveSession: result.hasActiveSession,
+            session: result.session,
           },
         });
-      } catch (e) {
-        const parsed = parseFocus4APIError("getActiveFocusSession", e);
+        return;
+      }
 
-        if (parsed.type === "aborted") {
-          return;
-        }
+      if (result.type === "aborted") {
+        return;
+      }
+
+      setState({
+        status: "error",
+        message: result.message,
+      });
+    })();
 
+    // Pushes changes made in other tabs and devices, gives up after a few
+    // failed reconnects in a row
+    focus4API.subscribe(
+      "sessions.watchFocusSession",
+      undefined,
+      (dto) => {
+        streamed = true;
         setState({
-          status: "error",
-          message: parsed.message,
+          status: "success",
+          data: {
+            hasActiveSession: dto.hasActiveSession,
+            session: dto.session,
+          },
         });
-      }
-    })();
+      },
+      {
+        signal: abortController.signal,
+        reconnect: { attempts: 5, backoff: "exponential" },
+        // Loaded session is kept, it's only not updated live anymore
+        onError: (error) => {
+          setState((current) =>
+            current.status === "success"
+              ? current
+              : { status: "error", message: error.message },
+          );
+        },
+      },
+    );
 
     return () => {
       abortController.abort();
@@ -1,5 +1,5 @@
 import { useAuthState } from "@/kernel/auth/use-auth-state";
-import { focus4API, parseFocus4APIError } from "@/ipc/contracts";
+import { focus4API } from "@/ipc/contracts";
 import { useState } from "react";
 
 type UpdateFocusSessionState =
@@ -57,30 +57,32 @@ const useFocusSessionUpdate = () => {
       return;
     }
 
-    try {
-      setState({ status: "busy" });
+    setState({ status: "busy" });
 
-      const data = await focus4API.call("updateFocusSession", {
+    const [ok, result] = await focus4API.safeCall(
+      "sessions.updateFocusSession",
+      {
         extra: { signal: new AbortController().signal },
         payload,
-      });
+      },
+    );
 
+    if (ok) {
       setState({
         status: "success",
-        data,
+        data: result,
       });
-    } catch (e) {
-      const parsed = parseFocus4APIError("updateFocusSession", e);
-
-      if (parsed.type === "aborted") {
-        return;
-      }
+      return;
+    }
 
-      setState({
-        status: "error",
-        message: parsed.message,
-      });
+    if (result.type === "aborted") {
+      return;
     }
+
+    setState({
+      status: "error",
+      message: result.message,
+    });
   };
 
   const completeSession = () => {
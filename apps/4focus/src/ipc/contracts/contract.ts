@@ -0,0 +1,39 @@
+import {
+  createIndexedDBQueueStorage,
+  createMemoryQueueStorage,
+  init,
+  type HttpOptions,
+} from "@/lib/clean-api-v2";
+import { parseError } from "@/lib/clean-api-v2/adapters/fetch";
+import { APIRouter } from "../../kernel/routing/api-router";
+
+// Limit of the batch route, bigger batches are split by the client
+const MAX_BATCH_CALLS = 20;
+
+/**
+ * Starts contracts of one 4focus domain. The namespace must match the one
+ * given to "combine", calls of all domains share the "/api/batch" route.
+ */
+const contract = (namespace: string, http: Omit<HttpOptions, "batch"> = {}) =>
+  init(undefined, {
+    mode: "parse",
+    parseError,
+    // Calls started together share one request to the batch route
+    http: {
+      ...http,
+      batch: {
+        path: APIRouter.getPath("batch"),
+        maxSize: MAX_BATCH_CALLS,
+        namespace,
+      },
+    },
+    // Offline mutations survive reloads, IndexedDB is missing on the server
+    queue: {
+      storage:
+        typeof indexedDB === "undefined"
+          ? createMemoryQueueStorage()
+          : createIndexedDBQueueStorage(`focus4-${namespace}`),
+    },
+  });
+
+export { contract, MAX_BATCH_CALLS };
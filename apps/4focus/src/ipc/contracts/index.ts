@@ -1,106 +1,19 @@
-import { APIRouter } from "../../kernel/routing/api-router";
-import { init } from "@/lib/clean-api-v2";
-import { errorParser } from "@/lib/clean-api-v2/adapters/axios";
-import * as z from "zod";
-import { zodCheck } from "@/lib/clean-api-v2/adapters/zod";
-import {
-  getTasksSchema,
-  getActiveFocusSessionSchema,
-  updateFocusSessionSchema,
-  updateFocusSessionRequestSchema,
-  createTaskSchema,
-} from "./schemas";
-import axios from "axios";
+import { combine, createTracer } from "@/lib/clean-api-v2";
+import { tasksAPI } from "./tasks";
+import { sessionsAPI } from "./sessions";
 
-type Focus4Contracts = {
-  getTasks: {
-    extra: {
-      signal: AbortSignal;
-    };
-    dto: z.infer<typeof getTasksSchema.dto>;
-    error: z.infer<typeof getTasksSchema.error>;
-  };
-  createTask: {
-    dto: z.infer<typeof createTaskSchema.dto>;
-    error: z.infer<typeof createTaskSchema.error>;
-    payload: z.infer<typeof createTaskSchema.payload>;
-  };
-  getActiveFocusSession: {
-    extra: {
-      signal: AbortSignal;
-    };
-    dto: z.infer<typeof getActiveFocusSessionSchema.dto>;
-    error: z.infer<typeof getActiveFocusSessionSchema.error>;
-  };
-  updateFocusSession: {
-    extra: {
-      signal: AbortSignal;
-    };
-    payload: z.infer<typeof updateFocusSessionRequestSchema>;
-    dto: z.infer<typeof updateFocusSessionSchema.dto>;
-    error: z.infer<typeof updateFocusSessionSchema.error>;
-  };
-};
-
-const contract = init();
-const create = contract<Focus4Contracts>();
-
-const focus4API = create({
-  getTasks: {
-    schemas: {
-      dto: zodCheck(getTasksSchema.dto),
-      error: zodCheck(getTasksSchema.error),
-    },
-    resolver: async ({ extra }) => {
-      return axios
-        .get(APIRouter.getPath("tasks"), {
-          signal: extra.signal,
-        })
-        .then((res) => res.data);
-    },
-  },
-  createTask: {
-    schemas: {
-      dto: zodCheck(createTaskSchema.dto),
-      error: zodCheck(createTaskSchema.error),
-      payload: zodCheck(createTaskSchema.payload),
-    },
-    resolver: async ({ payload }) => {
-      return axios
-        .post(APIRouter.getPath("tasks"), payload)
-        .then((res) => res.data);
-    },
-  },
-  getActiveFocusSession: {
-    schemas: {
-      dto: zodCheck(getActiveFocusSessionSchema.dto),
-      error: zodCheck(getActiveFocusSessionSchema.error),
-    },
-    resolver: async ({ extra }) => {
-      return fetch(APIRouter.getPath("focus-sessions"), {
-        signal: extra.signal,
-      }).then((res) => res.json());
-    },
-  },
-  updateFocusSession: {
-    schemas: {
-      dto: zodCheck(updateFocusSessionSchema.dto),
-      error: zodCheck(updateFocusSessionSchema.error),
-    },
-    resolver: async ({ extra, payload }) => {
-      return fetch(APIRouter.getPath("focus-sessions"), {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-        signal: extra.signal,
-      }).then((res) => res.json());
-    },
-  },
+// Shells may import a single domain API instead, keys are not namespaced there
+const focus4API = combine({
+  tasks: tasksAPI,
+  sessions: sessionsAPI,
 });
 
-const parseFocus4APIError = errorParser(focus4API);
+// Collects per-contract metrics, pass exporters to receive spans
+const focus4Tracer = createTracer();
+
+focus4Tracer.instrument(focus4API);
 
-export type { Focus4Contracts };
-export { focus4API, parseFocus4APIError };
+export type { TasksContracts } from "./tasks";
+export type { SessionsContracts } from "./sessions";
+export { MAX_BATCH_CALLS } from "./contract";
+export { focus4API, focus4Tracer, tasksAPI, sessionsAPI };
@@ -0,0 +1,26 @@
+import type { InferContracts } from "@/lib/clean-api-v2";
+import {
+  createMockHandlers,
+  type MockScenarios,
+} from "@/lib/clean-api-v2/adapters/msw";
+import { zodToJSONSchema } from "@/lib/clean-api-v2/adapters/zod";
+import { APIRouter } from "../../kernel/routing/api-router";
+import { focus4API } from ".";
+
+/**
+ * MSW handlers serving generated data for every 4focus contract, allows
+ * running the UI (with MSW worker) or tests without Supabase
+ */
+const createFocus4MockHandlers = (
+  overrides?: MockScenarios<InferContracts<typeof focus4API>>,
+  seed?: number,
+) =>
+  createMockHandlers(focus4API, {
+    toJSONSchema: zodToJSONSchema,
+    overrides,
+    seed,
+    // Contracts are batched, so calls usually arrive at the batch route
+    batch: { path: APIRouter.getPath("batch") },
+  });
+
+export { createFocus4MockHandlers };
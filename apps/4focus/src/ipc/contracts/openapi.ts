@@ -0,0 +1,33 @@
+import { generateOpenAPI } from "@/lib/clean-api-v2/openapi";
+import { zodToJSONSchema } from "@/lib/clean-api-v2/adapters/zod";
+import { focus4API } from ".";
+
+const getFocus4OpenAPI = () =>
+  generateOpenAPI(focus4API, {
+    info: {
+      title: "4focus API",
+      version: "1.0.0",
+    },
+    toJSONSchema: zodToJSONSchema,
+    operations: {
+      "tasks.getTasks": {
+        summary: "List tasks of the current user",
+        tags: ["tasks"],
+      },
+      "tasks.createTask": { summary: "Create a task", tags: ["tasks"] },
+      "tasks.getTaskHistory": {
+        summary: "List changes of a task, newest first",
+        tags: ["tasks"],
+      },
+      "sessions.getActiveFocusSession": {
+        summary: "Get the active focus session",
+        tags: ["focus-sessions"],
+      },
+      "sessions.updateFocusSession": {
+        summary: "Finish or interrupt the active focus session",
+        tags: ["focus-sessions"],
+      },
+    },
+  });
+
+export { getFocus4OpenAPI };
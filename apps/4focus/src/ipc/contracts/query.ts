@@ -0,0 +1,6 @@
+import { createQueryBindings } from "@/lib/clean-api-v2/adapters/react-query";
+import { focus4API } from ".";
+
+const focus4Query = createQueryBindings(focus4API);
+
+export { focus4Query };
@@ -1,4 +1,5 @@
 import * as z from "zod";
+import { zodPage, zodPageParams } from "@/lib/clean-api-v2/adapters/zod";
 import {
   date,
   error,
@@ -43,6 +44,49 @@ const createTaskSchema = {
   }),
 };
 
+const taskHistoryEntrySchema = z.object({
+  id: z.number().int().positive(),
+  taskId,
+  operation: z.string(),
+  changedAt: date,
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  priority: taskPriority.nullable(),
+  status: taskStatus.nullable(),
+  creationDate: date.nullable(),
+  updateDate: date.nullable(),
+});
+
+// Rows as the route sent them before pagination, kept for existing consumers
+const taskHistoryRowSchema = z.object({
+  id: z.number().int().positive(),
+  task_id: z.number().int().positive(),
+  operation: z.string(),
+  changed_at: z.string(),
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  priority: z.string().nullable(),
+  status: z.string().nullable(),
+  creation_date: z.string().nullable(),
+  update_date: z.string().nullable(),
+});
+
+const getTaskHistorySchema = {
+  dto: z.array(taskHistoryRowSchema),
+  error,
+  searchParams: z.object({
+    id: z.coerce.number().pipe(taskId),
+  }),
+};
+
+const getTaskHistoryPageSchema = {
+  dto: zodPage(taskHistoryEntrySchema),
+  error,
+  searchParams: zodPageParams().extend({
+    taskId: z.coerce.number().pipe(taskId),
+  }),
+};
+
 const focusSessionSchema = z.object({
   id: focusSessionId,
   taskId: taskId,
@@ -90,4 +134,7 @@ export {
   updateFocusSessionSchema,
   updateFocusSessionRequestSchema,
   createTaskSchema,
+  taskHistoryEntrySchema,
+  getTaskHistorySchema,
+  getTaskHistoryPageSchema,
 };
@@ -0,0 +1,70 @@
+import { APIRouter } from "../../kernel/routing/api-router";
+import { parseError } from "@/lib/clean-api-v2/adapters/fetch";
+import * as z from "zod";
+import { zodCheck } from "@/lib/clean-api-v2/adapters/zod";
+import { contract } from "./contract";
+import {
+  getActiveFocusSessionSchema,
+  updateFocusSessionSchema,
+  updateFocusSessionRequestSchema,
+} from "./schemas";
+
+type SessionsContracts = {
+  getActiveFocusSession: {
+    extra: {
+      signal: AbortSignal;
+    };
+    dto: z.infer<typeof getActiveFocusSessionSchema.dto>;
+    error: z.infer<typeof getActiveFocusSessionSchema.error>;
+  };
+  watchFocusSession: {
+    dto: z.infer<typeof getActiveFocusSessionSchema.dto>;
+    error: z.infer<typeof getActiveFocusSessionSchema.error>;
+  };
+  updateFocusSession: {
+    extra: {
+      signal: AbortSignal;
+    };
+    payload: z.infer<typeof updateFocusSessionRequestSchema>;
+    dto: z.infer<typeof updateFocusSessionSchema.dto>;
+    error: z.infer<typeof updateFocusSessionSchema.error>;
+  };
+};
+
+const sessionsAPI = contract("sessions")<SessionsContracts>()({
+  getActiveFocusSession: {
+    schemas: {
+      dto: zodCheck(getActiveFocusSessionSchema.dto),
+      error: zodCheck(getActiveFocusSessionSchema.error),
+    },
+    dedupe: true,
+    http: {
+      method: "get",
+      path: APIRouter.getPath("focus-sessions"),
+    },
+  },
+  watchFocusSession: {
+    schemas: {
+      dto: zodCheck(getActiveFocusSessionSchema.dto),
+      error: zodCheck(getActiveFocusSessionSchema.error),
+    },
+    sse: {
+      path: APIRouter.getPath("focus-sessions-stream"),
+    },
+  },
+  updateFocusSession: {
+    schemas: {
+      dto: zodCheck(updateFocusSessionSchema.dto),
+      error: zodCheck(updateFocusSessionSchema.error),
+      payload: zodCheck(updateFocusSessionRequestSchema),
+    },
+    queue: { parseError },
+    http: {
+      method: "patch",
+      path: APIRouter.getPath("focus-sessions"),
+    },
+  },
+});
+
+export type { SessionsContracts };
+export { sessionsAPI };
@@ -0,0 +1,8 @@
+import { snapshotContracts } from "@/lib/clean-api-v2/schema-diff";
+import { zodToJSONSchema } from "@/lib/clean-api-v2/adapters/zod";
+import { focus4API } from ".";
+
+const getFocus4Snapshot = () =>
+  snapshotContracts(focus4API, { toJSONSchema: zodToJSONSchema });
+
+export { getFocus4Snapshot };
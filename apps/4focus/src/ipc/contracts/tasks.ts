@@ -0,0 +1,100 @@
+import { APIRouter } from "../../kernel/routing/api-router";
+import type { Paginated } from "@/lib/clean-api-v2";
+import { parseError } from "@/lib/clean-api-v2/adapters/fetch";
+import * as z from "zod";
+import { zodCheck } from "@/lib/clean-api-v2/adapters/zod";
+import { contract } from "./contract";
+import {
+  getTasksSchema,
+  createTaskSchema,
+  getTaskHistorySchema,
+  getTaskHistoryPageSchema,
+  taskHistoryEntrySchema,
+} from "./schemas";
+
+type TasksContracts = {
+  getTasks: {
+    extra: {
+      signal: AbortSignal;
+    };
+    dto: z.infer<typeof getTasksSchema.dto>;
+    error: z.infer<typeof getTasksSchema.error>;
+  };
+  createTask: {
+    dto: z.infer<typeof createTaskSchema.dto>;
+    error: z.infer<typeof createTaskSchema.error>;
+    payload: z.infer<typeof createTaskSchema.payload>;
+  };
+  getTaskHistory: {
+    dto: z.infer<typeof getTaskHistorySchema.dto>;
+    error: z.infer<typeof getTaskHistorySchema.error>;
+    searchParams: z.infer<typeof getTaskHistorySchema.searchParams>;
+  };
+  getTaskHistoryPage: Paginated<
+    z.infer<typeof taskHistoryEntrySchema>,
+    z.infer<typeof getTaskHistoryPageSchema.error>,
+    Pick<z.infer<typeof getTaskHistoryPageSchema.searchParams>, "taskId">
+  >;
+};
+
+const tasksAPI = contract("tasks", {
+  rpc: { path: APIRouter.getPath("tasks-rpc") },
+})<TasksContracts>()({
+  getTasks: {
+    schemas: {
+      dto: zodCheck(getTasksSchema.dto),
+      error: zodCheck(getTasksSchema.error),
+    },
+    retry: {
+      attempts: 3,
+      backoff: "jitter",
+      parseError,
+    },
+    dedupe: true,
+    cache: {
+      ttl: 30_000,
+      tags: ["tasks"],
+    },
+    http: {
+      method: "get",
+      path: APIRouter.getPath("tasks"),
+    },
+  },
+  createTask: {
+    schemas: {
+      dto: zodCheck(createTaskSchema.dto),
+      error: zodCheck(createTaskSchema.error),
+      payload: zodCheck(createTaskSchema.payload),
+    },
+    invalidates: ["tasks"],
+    // The optimistic task is replaced with the replayed one
+    queue: { parseError, awaitReplay: true },
+    http: {
+      method: "post",
+      path: APIRouter.getPath("tasks"),
+    },
+  },
+  getTaskHistory: {
+    schemas: {
+      dto: zodCheck(getTaskHistorySchema.dto),
+      error: zodCheck(getTaskHistorySchema.error),
+      searchParams: zodCheck(getTaskHistorySchema.searchParams),
+    },
+    http: {
+      method: "get",
+      path: APIRouter.getPath("tasks-history"),
+    },
+  },
+  // Paginated version, the REST route keeps sending the whole history
+  getTaskHistoryPage: {
+    schemas: {
+      dto: zodCheck(getTaskHistoryPageSchema.dto),
+      error: zodCheck(getTaskHistoryPageSchema.error),
+      searchParams: zodCheck(getTaskHistoryPageSchema.searchParams),
+    },
+    rpc: true,
+  },
+});
+
+export type { TasksContracts };
+export { tasksAPI };
@@ -13,6 +13,10 @@ const appRoutes = [
   createRoute("tasks", "/api/tasks"),
   createRoute("tasks-history", "/api/tasks-history"),
   createRoute("focus-sessions", "/api/focus-sessions"),
+  createRoute("focus-sessions-stream", "/api/focus-sessions/stream"),
+  createRoute("batch", "/api/batch"),
+  createRoute("tasks-rpc", "/api/rpc/tasks"),
+  createRoute("openapi", "/api/openapi.json"),
 ] as const;
 
 type APIRoute = (typeof appRoutes)[number];
@@ -0,0 +1,163 @@
+import type { APIContext, APIRoute } from "astro";
+import {
+  applyPathParams,
+  serializeSearchParams,
+  type BatchRequest,
+  type BatchResponse,
+  type CleanApi,
+  type Configuration,
+  type Contracts,
+  type ValidationMode,
+} from "@/lib/clean-api-v2";
+import { ErrorResponse, OkResponse } from "./response";
+
+type BatchRouteOptions = {
+  /** Maximum number of calls in one request */
+  maxCalls?: number;
+};
+
+type BatchResult = BatchResponse["results"][number];
+
+const isBatchRequest = (value: unknown): value is BatchRequest =>
+  typeof value === "object" &&
+  value !== null &&
+  Array.isArray((value as { calls?: unknown }).calls) &&
+  (value as { calls: unknown[] }).calls.every(
+    (call) =>
+      typeof call === "object" &&
+      call !== null &&
+      typeof (call as { key?: unknown }).key === "string",
+  );
+
+const readResult = async (response: Response): Promise<BatchResult> => {
+  const text = await response.text();
+
+  try {
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  } catch {
+    return { status: response.status, body: text };
+  }
+};
+
+const notFound = (key: string): BatchResult => ({
+  status: 404,
+  body: {
+    type: "not_found",
+    status: 404,
+    message: `Contract "${key}" is not served by the batch route`,
+  },
+});
+
+/**
+ * Builds an Astro API route serving calls sent by the client in batch mode.
+ * Every call is turned into a request to the handler of its contract, so
+ * validation and auth stay the same as for direct requests.
+ */
+const defineBatchRoute = <
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TParsedErrors extends boolean,
+>(
+  api: CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TParsedErrors
+  >,
+  handlers: Partial<Record<keyof TContracts, APIRoute>>,
+  options: BatchRouteOptions = {},
+): APIRoute => {
+  const { maxCalls = 20 } = options;
+
+  const run = async (
+    context: APIContext,
+    call: BatchRequest["calls"][number],
+  ): Promise<BatchResult> => {
+    const http = api.getHttp(call.key);
+    const handler = handlers[call.key as keyof TContracts];
+
+    if (!http || !handler) {
+      return notFound(call.key);
+    }
+
+    const path = applyPathParams(http.path, call.pathParams);
+    const url = new URL(
+      `${path}${serializeSearchParams(call.searchParams)}`,
+      context.url,
+    );
+    const headers = new Headers(context.request.headers);
+    const hasBody = "payload" in call && http.method !== "get";
+
+    for (const [name, value] of Object.entries(call.headers ?? {})) {
+      headers.set(name, value);
+    }
+
+    headers.delete("content-length");
+    headers.set("content-type", "application/json");
+
+    const request = new Request(url, {
+      method: http.method.toUpperCase(),
+      headers,
+      body: hasBody ? JSON.stringify(call.payload) : undefined,
+    });
+    const params = Object.fromEntries(
+      Object.entries(call.pathParams ?? {}).map(([name, value]) => [
+        name,
+        String(value),
+      ]),
+    );
+
+    // Spreading would evaluate lazy getters of the context, e.g.
+    // "clientAddress" throws and "session" warns when not available
+    const callContext = Object.create(context, {
+      request: { value: request },
+      url: { value: url },
+      params: { value: params },
+    }) as APIContext;
+
+    try {
+      const response = await handler(callContext);
+
+      return readResult(response);
+    } catch {
+      return {
+        status: 500,
+        body: {
+          type: "internal_server_error",
+          status: 500,
+          message: "Unexpected error",
+        },
+      };
+    }
+  };
+
+  return async (context) => {
+    let body: unknown;
+
+    try {
+      body = await context.request.json();
+    } catch {
+      body = undefined;
+    }
+
+    if (!isBatchRequest(body) || body.calls.length > maxCalls) {
+      return ErrorResponse({
+        type: "bad_request",
+        status: 400,
+        message: `Batch must contain up to ${maxCalls} calls`,
+      });
+    }
+
+    const results = await Promise.all(
+      body.calls.map((call) => run(context, call)),
+    );
+
+    return OkResponse({ results } satisfies BatchResponse, 200);
+  };
+};
+
+export type { BatchRouteOptions };
+export { defineBatchRoute };
@@ -0,0 +1,589 @@
+import type { APIContext, APIRoute } from "astro";
+import type { User } from "@supabase/supabase-js";
+import { createSupabaseServerClient } from "@/kernel/db/supabase-server";
+import {
+  StreamEvent,
+  ValidationException,
+  readTraceHeader,
+  toSSEResponse,
+  type CleanApi,
+  type Configuration,
+  type Contracts,
+  type ContractsInput,
+  type ErrorVariant,
+  type InferInput,
+  type RPCRequest,
+  type StreamKeys,
+  type TraceContext,
+  type Tracer,
+  type ValidationMode,
+} from "@/lib/clean-api-v2";
+import { ErrorResponse, OkResponse } from "./response";
+
+type RouteError =
+  | ErrorVariant<
+      "bad_request",
+      400,
+      { issues: { path: string[]; message: string }[] }
+    >
+  | ErrorVariant<"unauthorized", 401>
+  | ErrorVariant<"internal_server_error", 500>;
+
+// Only contracts able to describe failures produced by the route itself
+type RouteKeys<TContracts extends Contracts> = {
+  [K in keyof TContracts]: RouteError extends TContracts[K]["error"]
+    ? K
+    : never;
+}[keyof TContracts];
+
+type RouteResult<TDto, TError> =
+  | { ok: true; dto: TDto; status: number }
+  | { ok: false; error: TError };
+
+type RouteContext<
+  TContracts extends Contracts,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TKey extends keyof TContracts,
+> = {
+  /** Path params, search params and payload validated against the contract */
+  input: Omit<InferInput<TContracts, TContracts[TKey]>, "extra">;
+  user: User;
+  supabase: ReturnType<typeof createSupabaseServerClient>;
+  astro: APIContext;
+  /** Span of the request, child of the client one when it was propagated */
+  trace: TraceContext | undefined;
+  ok: (
+    dto: ContractsInput<TContracts, TContractsSignature, TMode>[TKey]["dto"],
+    status?: number,
+  ) => RouteResult<
+    ContractsInput<TContracts, TContractsSignature, TMode>[TKey]["dto"],
+    TContracts[TKey]["error"]
+  >;
+  fail: (
+    error: TContracts[TKey]["error"],
+  ) => RouteResult<
+    ContractsInput<TContracts, TContractsSignature, TMode>[TKey]["dto"],
+    TContracts[TKey]["error"]
+  >;
+};
+
+type RouteHandler<
+  TContracts extends Contracts,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TKey extends keyof TContracts,
+> = (
+  context: RouteContext<TContracts, TContractsSignature, TMode, TKey>,
+) => Promise<
+  RouteResult<
+    ContractsInput<TContracts, TContractsSignature, TMode>[TKey]["dto"],
+    TContracts[TKey]["error"]
+  >
+>;
+
+/** Server implementations of contracts served by the RPC route */
+type RPCHandlers<
+  TContracts extends Contracts,
+  TContractsSignature,
+  TMode extends ValidationMode,
+> = {
+  [K in RouteKeys<TContracts>]?: RouteHandler<
+    TContracts,
+    TContractsSignature,
+    TMode,
+    K
+  >;
+};
+
+type StreamRouteContext<
+  TContracts extends Contracts,
+  TKey extends keyof TContracts,
+> = {
+  /** Path and search params validated against the contract */
+  input: Omit<InferInput<TContracts, TContracts[TKey]>, "extra" | "payload">;
+  user: User;
+  supabase: ReturnType<typeof createSupabaseServerClient>;
+  astro: APIContext;
+  /** Id of the last chunk received by the client resuming the stream */
+  lastEventId: string | undefined;
+  /** Aborted when the client disconnects */
+  signal: AbortSignal;
+};
+
+type RouteOptions = {
+  /** Records a server span per request */
+  tracer?: Tracer;
+};
+
+const toIssues = (error: ValidationException) =>
+  error.issues.map((issue) => ({
+    path: issue.path.map((p) => String(p)),
+    message: issue.message,
+  }));
+
+// Repeated keys (e.g. "?status=todo&status=done") are collected into arrays
+const readSearchParams = (
+  searchParams: URLSearchParams,
+): Record<string, string | string[]> => {
+  const params: Record<string, string | string[]> = {};
+
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+
+    params[key] = values.length > 1 ? values : values[0]!;
+  }
+
+  return params;
+};
+
+// Mapping through the error schema may throw too, the route must still respond
+const toErrorBody = (map: () => unknown): ErrorVariant<string, number> => {
+  try {
+    return map() as ErrorVariant<string, number>;
+  } catch {
+    return {
+      type: "internal_server_error",
+      status: 500,
+      message: "Invalid error response",
+    };
+  }
+};
+
+const readInput = async (
+  context: APIContext,
+  schemas: Record<string, unknown>,
+): Promise<Record<string, unknown>> => {
+  const input: Record<string, unknown> = {};
+
+  if ("pathParams" in schemas) {
+    input.pathParams = { ...context.params };
+  }
+
+  if ("searchParams" in schemas) {
+    input.searchParams = readSearchParams(context.url.searchParams);
+  }
+
+  if ("payload" in schemas) {
+    const text = await context.request.text();
+
+    try {
+      input.payload = text ? JSON.parse(text) : undefined;
+    } catch {
+      throw new ValidationException([
+        { path: [], message: "Malformed JSON body" },
+      ]);
+    }
+  }
+
+  return input;
+};
+
+// Input of RPC calls comes in the body, slots without schemas are skipped
+const readRPCInput = async (
+  context: APIContext,
+  schemas: Record<string, unknown>,
+): Promise<Record<string, unknown>> => {
+  let body: Partial<RPCRequest> | undefined;
+
+  try {
+    body = (await context.request.json()) as Partial<RPCRequest>;
+  } catch {
+    body = undefined;
+  }
+
+  if (typeof body !== "object" || body === null) {
+    throw new ValidationException([
+      { path: [], message: "Malformed JSON body" },
+    ]);
+  }
+
+  if (body.key !== context.params.key) {
+    throw new ValidationException([
+      { path: ["key"], message: "Key doesn't match the route" },
+    ]);
+  }
+
+  const { pathParams = {}, searchParams = {}, payload } = body.input ?? {};
+  const input: Record<string, unknown> = {};
+
+  if ("pathParams" in schemas) {
+    input.pathParams = pathParams;
+  }
+
+  if ("searchParams" in schemas) {
+    input.searchParams = searchParams;
+  }
+
+  if ("payload" in schemas) {
+    input.payload = payload;
+  }
+
+  return input;
+};
+
+// Validates slots read from the request against the contract
+const validateInput = async <
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TParsedErrors extends boolean,
+>(
+  api: CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TParsedErrors
+  >,
+  key: keyof TContracts,
+  context: APIContext,
+  read: typeof readInput = readInput,
+): Promise<Record<string, unknown>> => {
+  const schemas = (api.getSchema(key as never) ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const rawInput = await read(context, schemas);
+  const input: Record<string, unknown> = {};
+
+  if ("pathParams" in rawInput) {
+    input.pathParams = await api.pathParamsAsync(
+      key as never,
+      rawInput.pathParams as never,
+    );
+  }
+
+  if ("searchParams" in rawInput) {
+    input.searchParams = await api.searchParamsAsync(
+      key as never,
+      rawInput.searchParams as never,
+    );
+  }
+
+  if ("payload" in rawInput) {
+    input.payload = await api.payloadAsync(
+      key as never,
+      rawInput.payload as never,
+    );
+  }
+
+  return input;
+};
+
+// Serves the contract with input read by "read", shared by REST and RPC routes
+const serve = <
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TParsedErrors extends boolean,
+  TKey extends RouteKeys<TContracts>,
+>(
+  api: CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TParsedErrors
+  >,
+  key: TKey,
+  handler: RouteHandler<TContracts, TContractsSignature, TMode, TKey>,
+  options: RouteOptions,
+  read: typeof readInput,
+): APIRoute => {
+  const toResponse = (error: TContracts[TKey]["error"]) =>
+    ErrorResponse(toErrorBody(() => api.error(key, error)));
+  const routeError = (error: RouteError) =>
+    toResponse(error as TContracts[TKey]["error"]);
+
+  const handle = async (
+    context: APIContext,
+    trace: TraceContext | undefined,
+  ): Promise<Response> => {
+    let result: Awaited<ReturnType<typeof handler>>;
+
+    try {
+      const supabase = createSupabaseServerClient(context);
+
+      const {
+        data: { user },
+        error: userError,
+      } = await supabase.auth.getUser();
+
+      if (userError || !user) {
+        return routeError({
+          type: "unauthorized",
+          status: 401,
+          message: "Unauthorized",
+        });
+      }
+
+      const input = await validateInput(api, key, context, read);
+
+      result = await handler({
+        input: input as RouteContext<
+          TContracts,
+          TContractsSignature,
+          TMode,
+          TKey
+        >["input"],
+        user,
+        supabase,
+        astro: context,
+        trace,
+        ok: (dto, status = 200) => ({ ok: true, dto, status }),
+        fail: (error) => ({ ok: false, error }),
+      });
+    } catch (error) {
+      if (ValidationException.is(error)) {
+        return routeError({
+          type: "bad_request",
+          status: 400,
+          message: "Invalid input",
+          meta: { issues: toIssues(error) },
+        });
+      }
+
+      return routeError({
+        type: "internal_server_error",
+        status: 500,
+        message: "Unexpected error",
+      });
+    }
+
+    // Invalid response is a server bug, not a client one
+    try {
+      if (result.ok) {
+        return OkResponse(await api.dtoAsync(key, result.dto), result.status);
+      }
+
+      return toResponse(result.error);
+    } catch {
+      return routeError({
+        type: "internal_server_error",
+        status: 500,
+        message: "Invalid response",
+      });
+    }
+  };
+
+  return async (context) => {
+    if (!options.tracer) {
+      return handle(context, undefined);
+    }
+
+    const span = options.tracer.startSpan(String(key), {
+      kind: "server",
+      parent: readTraceHeader(context.request.headers),
+      attributes: { "contract.key": String(key) },
+    });
+    let status = 500;
+
+    try {
+      const response = await handle(context, span.context);
+
+      status = response.status;
+      span.setAttribute("http.status", status);
+
+      return response;
+    } finally {
+      span.end(status >= 500 ? "error" : "ok");
+    }
+  };
+};
+
+/**
+ * Builds an Astro API route serving given contract. Only slots with schemas
+ * are read from the request and validated, handler receives authenticated
+ * user and returns ok(dto) or fail(error) which are validated before sending.
+ * With a tracer the trace sent by the client is continued.
+ */
+const defineRoute = <
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TParsedErrors extends boolean,
+  TKey extends RouteKeys<TContracts>,
+>(
+  api: CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TParsedErrors
+  >,
+  key: TKey,
+  handler: RouteHandler<TContracts, TContractsSignature, TMode, TKey>,
+  options: RouteOptions = {},
+): APIRoute => serve(api, key, handler, options, readInput);
+
+/**
+ * Builds an Astro API route, e.g. "rpc/[key].ts", serving "rpc" contracts.
+ * The key is taken from the route and the input from the body, the rest
+ * works like in defineRoute.
+ */
+const defineRPCRoute = <
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TParsedErrors extends boolean,
+>(
+  api: CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TParsedErrors
+  >,
+  handlers: RPCHandlers<TContracts, TContractsSignature, TMode>,
+  options: RouteOptions = {},
+): APIRoute => {
+  const routes = new Map(
+    Object.entries(handlers).map(([key, handler]) => [
+      key,
+      serve(
+        api,
+        key as RouteKeys<TContracts>,
+        handler as RouteHandler<
+          TContracts,
+          TContractsSignature,
+          TMode,
+          RouteKeys<TContracts>
+        >,
+        options,
+        readRPCInput,
+      ),
+    ]),
+  );
+
+  return async (context) => {
+    const key = context.params.key ?? "";
+    const route = routes.get(key);
+
+    if (!route) {
+      return ErrorResponse({
+        type: "not_found",
+        status: 404,
+        message: `Contract "${key}" is not served by the RPC route`,
+      });
+    }
+
+    return route(context);
+  };
+};
+
+/**
+ * Builds an Astro API route streaming chunks of given contract as
+ * server-sent events. Input and auth are checked like in defineRoute, each
+ * chunk is validated by the dto schema and an invalid one ends the stream.
+ */
+const defineStreamRoute = <
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TParsedErrors extends boolean,
+  TKey extends RouteKeys<TContracts> & StreamKeys<TContractsSignature>,
+>(
+  api: CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TParsedErrors
+  >,
+  key: TKey,
+  handler: (
+    context: StreamRouteContext<TContracts, TKey>,
+  ) => AsyncIterable<
+    | ContractsInput<TContracts, TContractsSignature, TMode>[TKey]["dto"]
+    | StreamEvent<
+        ContractsInput<TContracts, TContractsSignature, TMode>[TKey]["dto"]
+      >
+  >,
+): APIRoute => {
+  const routeError = (error: RouteError) =>
+    toErrorBody(() => api.error(key, error as TContracts[TKey]["error"]));
+
+  return async (context) => {
+    let source: ReturnType<typeof handler>;
+
+    try {
+      const supabase = createSupabaseServerClient(context);
+
+      const {
+        data: { user },
+        error: userError,
+      } = await supabase.auth.getUser();
+
+      if (userError || !user) {
+        return ErrorResponse(
+          routeError({
+            type: "unauthorized",
+            status: 401,
+            message: "Unauthorized",
+          }),
+        );
+      }
+
+      const input = await validateInput(api, key, context);
+
+      source = handler({
+        input: input as StreamRouteContext<TContracts, TKey>["input"],
+        user,
+        supabase,
+        astro: context,
+        lastEventId: context.request.headers.get("last-event-id") ?? undefined,
+        signal: context.request.signal,
+      });
+    } catch (error) {
+      return ErrorResponse(
+        ValidationException.is(error)
+          ? routeError({
+              type: "bad_request",
+              status: 400,
+              message: "Invalid input",
+              meta: { issues: toIssues(error) },
+            })
+          : routeError({
+              type: "internal_server_error",
+              status: 500,
+              message: "Unexpected error",
+            }),
+      );
+    }
+
+    const validated = async function* () {
+      for await (const chunk of source) {
+        const event = StreamEvent.is(chunk) ? chunk : new StreamEvent(chunk);
+
+        yield new StreamEvent(await api.dtoAsync(key, event.data), event.id);
+      }
+    };
+
+    return toSSEResponse(validated(), {
+      toError: (error) =>
+        routeError({
+          type: "internal_server_error",
+          status: 500,
+          message: ValidationException.is(error)
+            ? "Invalid response"
+            : "Unexpected error",
+        }),
+    });
+  };
+};
+
+export type {
+  RouteContext,
+  RouteHandler,
+  RouteResult,
+  RouteOptions,
+  RPCHandlers,
+  StreamRouteContext,
+};
+export { defineRoute, defineRPCRoute, defineStreamRoute };
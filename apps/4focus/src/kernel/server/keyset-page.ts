@@ -0,0 +1,117 @@
+import {
+  ValidationException,
+  type Page,
+  type PageParams,
+} from "@/lib/clean-api-v2";
+
+// Subset of the Supabase query builder used for pagination
+type KeysetQuery<TRow> = PromiseLike<{
+  data: TRow[] | null;
+  error: { message: string } | null;
+}> & {
+  order(column: string, options: { ascending: boolean }): KeysetQuery<TRow>;
+  or(filters: string): KeysetQuery<TRow>;
+  range(from: number, to: number): KeysetQuery<TRow>;
+};
+
+type KeysetOptions<TRow> = PageParams & {
+  /** Sorted column, e.g. a creation date */
+  column: keyof TRow & string;
+  /** Unique column ordering rows with equal sort values, "id" by default */
+  tiebreaker?: keyof TRow & string;
+  /** Newest first by default */
+  ascending?: boolean;
+  /** Page size when the client does not send a limit */
+  defaultLimit?: number;
+};
+
+type KeysetResult<TRow> =
+  | { data: Page<TRow>; error: null }
+  | { data: null; error: { message: string } };
+
+const DEFAULT_LIMIT = 20;
+
+const encodeCursor = (values: [unknown, unknown]): string =>
+  btoa(JSON.stringify(values))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const decodeCursor = (cursor: string): [unknown, unknown] => {
+  try {
+    const values: unknown = JSON.parse(
+      atob(cursor.replace(/-/g, "+").replace(/_/g, "/")),
+    );
+
+    if (Array.isArray(values) && values.length === 2) {
+      return [values[0], values[1]];
+    }
+  } catch {
+    // Reported below as invalid input
+  }
+
+  throw new ValidationException([
+    { path: ["searchParams", "cursor"], message: "Invalid cursor" },
+  ]);
+};
+
+// Values are quoted, so dates and commas do not break the PostgREST filter
+const quote = (value: unknown): string =>
+  `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+/**
+ * Reads a page of rows after the cursor, ordered by the column and the
+ * tiebreaker. Unlike offsets, pages stay stable when rows are added. The
+ * query must not be ordered or ranged yet. Invalid cursor is thrown as
+ * ValidationException, so defineRoute responds with 400.
+ */
+const keysetPage = async <TRow extends Record<string, unknown>>(
+  query: KeysetQuery<TRow>,
+  options: KeysetOptions<TRow>,
+): Promise<KeysetResult<TRow>> => {
+  const {
+    column,
+    tiebreaker = "id",
+    ascending = false,
+    defaultLimit = DEFAULT_LIMIT,
+  } = options;
+  const limit = options.limit ?? defaultLimit;
+  const operator = ascending ? "gt" : "lt";
+  let pageQuery = query;
+
+  if (options.cursor) {
+    const [value, id] = decodeCursor(options.cursor);
+
+    pageQuery = pageQuery.or(
+      `${column}.${operator}.${quote(value)},and(${column}.eq.${quote(value)},${tiebreaker}.${operator}.${quote(id)})`,
+    );
+  }
+
+  // One extra row tells if there is a next page
+  const { data, error } = await pageQuery
+    .order(column, { ascending })
+    .order(tiebreaker, { ascending })
+    .range(0, limit);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const rows = data ?? [];
+  const items = rows.slice(0, limit);
+  const last = items.at(-1);
+
+  return {
+    data: {
+      items,
+      nextCursor:
+        rows.length > limit && last
+          ? encodeCursor([last[column], last[tiebreaker]])
+          : null,
+    },
+    error: null,
+  };
+};
+
+export type { KeysetOptions, KeysetResult };
+export { keysetPage };
@@ -0,0 +1,229 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import * as z from "zod";
+import { checkAsync, init } from "../core";
+import { zodCheck, zodCheckAsync } from "../adapters/zod";
+import { ValidationException } from "../models";
+
+describe("async validation works when", () => {
+  const takenTitles = ["taken"];
+
+  const payloadSchema = z.object({
+    title: z
+      .string()
+      .trim()
+      .refine(
+        async (title) => {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          return !takenTitles.includes(title);
+        },
+        { message: "Title must be unique" },
+      ),
+  });
+  const dtoSchema = z.object({ id: z.number() });
+
+  type APIContracts = {
+    create: {
+      dto: z.infer<typeof dtoSchema>;
+      error: null;
+      payload: z.infer<typeof payloadSchema>;
+    };
+  };
+
+  const setup = (mode: "validate" | "parse" = "validate") => {
+    const resolver = vi.fn().mockResolvedValue({ id: 1 });
+    const api = init(undefined, { mode })<APIContracts>()({
+      create: {
+        resolver,
+        schemas: {
+          dto: zodCheckAsync(dtoSchema),
+          payload: zodCheckAsync(payloadSchema),
+        },
+      },
+    });
+
+    return { api, resolver };
+  };
+
+  it("call rejects with ValidationException when async refinement fails", async () => {
+    const { api, resolver } = setup();
+
+    await expect(
+      api.call("create", { payload: { title: "taken" } }),
+    ).rejects.toThrow(ValidationException);
+    expect(resolver).not.toHaveBeenCalled();
+  });
+
+  it("safeCall returns failure tuple when async refinement fails", async () => {
+    const { api } = setup();
+
+    const [ok, error] = await api.safeCall("create", {
+      payload: { title: "taken" },
+    });
+
+    expect(ok).toBe(false);
+    expect(ValidationException.is(error)).toBe(true);
+    if (ValidationException.is(error)) {
+      expect(error.issues).toEqual([
+        { path: ["title"], message: "Title must be unique" },
+      ]);
+    }
+  });
+
+  it("call resolves when async validators pass", async () => {
+    const { api, resolver } = setup();
+
+    const result = await api.call("create", { payload: { title: "free" } });
+
+    expect(result).toEqual({ id: 1 });
+    expect(resolver).toHaveBeenCalledTimes(1);
+  });
+
+  it("async dto validation rejects the call", async () => {
+    const { api, resolver } = setup();
+    resolver.mockResolvedValue({ id: "not a number" });
+
+    await expect(
+      api.call("create", { payload: { title: "free" } }),
+    ).rejects.toThrow(ValidationException);
+  });
+
+  it("onFail receives async validation errors", async () => {
+    const { api } = setup();
+    const onFail = vi.fn();
+    api.onFail("create", onFail);
+
+    await api.safeCall("create", { payload: { title: "taken" } });
+
+    expect(onFail).toHaveBeenCalledTimes(1);
+    expect(onFail.mock.calls[0]?.[0].error).toBeInstanceOf(ValidationException);
+  });
+
+  it("parse mode passes the awaited output to resolver", async () => {
+    const { api, resolver } = setup("parse");
+
+    await api.call("create", { payload: { title: "  free  " } });
+
+    expect(resolver).toHaveBeenCalledWith({ payload: { title: "free" } });
+  });
+
+  it("validators run in order and fail fast", async () => {
+    const calls: string[] = [];
+    const failing = checkAsync(async () => {
+      calls.push("pathParams");
+      throw new ValidationException([{ path: ["id"], message: "Invalid" }]);
+    });
+    const never = checkAsync(async (data: unknown) => {
+      calls.push("payload");
+      return data as { name: string };
+    });
+
+    type OrderContracts = {
+      update: {
+        dto: null;
+        error: null;
+        pathParams: { id: string };
+        payload: { name: string };
+      };
+    };
+
+    const api = init()<OrderContracts>()({
+      update: {
+        resolver: () => Promise.resolve(null),
+        schemas: {
+          pathParams: failing,
+          payload: never,
+        },
+      },
+    });
+
+    await expect(
+      api.call("update", {
+        pathParams: { id: "1" },
+        payload: { name: "test" },
+      }),
+    ).rejects.toThrow(ValidationException);
+    expect(calls).toEqual(["pathParams"]);
+  });
+});
+
+describe("async standalone helpers work when", () => {
+  const schema = z.object({
+    name: z
+      .string()
+      .trim()
+      .refine(async (name) => name !== "admin", {
+        message: "Name is reserved",
+      }),
+  });
+
+  type APIContracts = {
+    post: {
+      dto: z.infer<typeof schema>;
+      error: null;
+      payload: z.infer<typeof schema>;
+    };
+    sync: {
+      dto: z.infer<typeof schema>;
+      error: null;
+    };
+  };
+
+  const api = init(undefined, { mode: "parse" })<APIContracts>()({
+    post: {
+      resolver: () => Promise.resolve({ name: "test" }),
+      schemas: {
+        dto: zodCheckAsync(schema),
+        payload: zodCheckAsync(schema),
+      },
+    },
+    sync: {
+      resolver: () => Promise.resolve({ name: "test" }),
+      schemas: {
+        dto: zodCheck(schema.extend({ name: z.string().trim() })),
+      },
+    },
+  });
+
+  it("payloadAsync and dtoAsync resolve to the parsed value", async () => {
+    const payload = await api.payloadAsync("post", { name: " Tom " });
+    const dto = await api.dtoAsync("post", { name: " Tom " });
+
+    expect(payload).toEqual({ name: "Tom" });
+    expect(dto).toEqual({ name: "Tom" });
+    expectTypeOf(payload).toEqualTypeOf<{ name: string }>();
+  });
+
+  it("payloadAsync rejects with ValidationException", async () => {
+    await expect(api.payloadAsync("post", { name: "admin" })).rejects.toThrow(
+      ValidationException,
+    );
+  });
+
+  it("async helpers work with sync validators", async () => {
+    await expect(api.dtoAsync("sync", { name: " Tom " })).resolves.toEqual({
+      name: "Tom",
+    });
+  });
+
+  it("sync helpers refuse async validators instead of skipping them", () => {
+    expect(() => api.payload("post", { name: "admin" })).toThrow(
+      ValidationException,
+    );
+  });
+
+  it("refusal of async validators has an issue pointing to the async helper", () => {
+    try {
+      api.dto("post", { name: "Tom" });
+      expect.unreachable();
+    } catch (error) {
+      expect(ValidationException.is(error)).toBe(true);
+      expect((error as ValidationException).issues).toEqual([
+        {
+          path: [],
+          message:
+            "Validator of 'post' dto is asynchronous, use dtoAsync instead",
+        },
+      ]);
+    }
+  });
+});
@@ -0,0 +1,385 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import { init } from "../core";
+import { parseError } from "../adapters/fetch";
+import { createHttpBatcher } from "../http";
+import {
+  HttpException,
+  NetworkException,
+  type BatchRequest,
+  type ErrorVariant,
+} from "../models";
+
+type APIContracts = {
+  getTasks: {
+    dto: { id: number }[];
+    error: ErrorVariant<"internal_server_error", 500>;
+  };
+  getTask: {
+    dto: { id: number };
+    error: ErrorVariant<"not_found", 404>;
+    pathParams: { id: number };
+  };
+  createTask: {
+    dto: { id: number; title: string };
+    error: ErrorVariant<"bad_request", 400>;
+    payload: { title: string };
+  };
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(resolve, ms);
+
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+const notFound = () =>
+  new HttpException(new Response(null, { status: 404 }), {
+    type: "not_found",
+    status: 404,
+    message: "Task not found",
+  });
+
+const createApi = () => {
+  let running = 0;
+  const stats = { maxRunning: 0, signals: [] as AbortSignal[] };
+
+  const api = init(undefined, { parseError })<APIContracts>()({
+    getTasks: { resolver: async () => [{ id: 1 }] },
+    getTask: {
+      // "all" and "settle" pass their signal in "extra"
+      resolver: async (input) => {
+        const { pathParams } = input;
+        const { signal } = (
+          input as typeof input & { extra: { signal: AbortSignal } }
+        ).extra;
+
+        running++;
+        stats.maxRunning = Math.max(stats.maxRunning, running);
+        stats.signals.push(signal);
+
+        try {
+          await delay(10 * pathParams.id, signal);
+        } finally {
+          running--;
+        }
+
+        if (pathParams.id === 0) {
+          throw notFound();
+        }
+
+        return { id: pathParams.id };
+      },
+    },
+    createTask: {
+      resolver: async ({ payload }) => ({ id: 2, ...payload }),
+    },
+  });
+
+  return { api, stats };
+};
+
+describe("call orchestration works when", () => {
+  it("all resolves with typed dtos in order of calls", async () => {
+    const { api } = createApi();
+
+    const [tasks, task, created] = await api.all([
+      ["getTasks"],
+      ["getTask", { pathParams: { id: 3 } }],
+      ["createTask", { payload: { title: "Write" } }],
+    ]);
+
+    expectTypeOf(tasks).toEqualTypeOf<{ id: number }[]>();
+    expectTypeOf(task).toEqualTypeOf<{ id: number }>();
+    expectTypeOf(created).toEqualTypeOf<{ id: number; title: string }>();
+    expect([tasks, task, created]).toEqual([
+      [{ id: 1 }],
+      { id: 3 },
+      { id: 2, title: "Write" },
+    ]);
+  });
+
+  it("concurrency limits the number of running calls", async () => {
+    const { api, stats } = createApi();
+
+    const dtos = await api.all(
+      [1, 2, 3, 4, 5].map((id) => ["getTask", { pathParams: { id } }] as const),
+      { concurrency: 2 },
+    );
+
+    expect(dtos).toEqual([1, 2, 3, 4, 5].map((id) => ({ id })));
+    expect(stats.maxRunning).toBe(2);
+  });
+
+  it("first failure rejects all and aborts the rest", async () => {
+    const { api, stats } = createApi();
+
+    await expect(
+      api.all([
+        ["getTask", { pathParams: { id: 0 } }],
+        ["getTask", { pathParams: { id: 100 } }],
+      ]),
+    ).rejects.toBeInstanceOf(HttpException);
+    expect(stats.signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it("without failFast all calls finish before the first failure is thrown", async () => {
+    const { api, stats } = createApi();
+
+    await expect(
+      api.all(
+        [
+          ["getTask", { pathParams: { id: 0 } }],
+          ["getTask", { pathParams: { id: 5 } }],
+        ],
+        { failFast: false },
+      ),
+    ).rejects.toBeInstanceOf(HttpException);
+    expect(stats.signals.some((signal) => signal.aborted)).toBe(false);
+  });
+
+  it("settle resolves with typed results of every call", async () => {
+    const { api } = createApi();
+
+    const [task, failed] = await api.settle([
+      ["getTask", { pathParams: { id: 1 } }],
+      ["getTask", { pathParams: { id: 0 } }],
+    ]);
+
+    if (task[0]) {
+      expectTypeOf(task[1]).toEqualTypeOf<{ id: number }>();
+    }
+
+    expect(task).toEqual([true, { id: 1 }]);
+    expect(failed).toEqual([
+      false,
+      expect.objectContaining({ type: "not_found", status: 404 }),
+    ]);
+  });
+
+  it("shared signal aborts every call", async () => {
+    const { api, stats } = createApi();
+    const controller = new AbortController();
+    const reason = new Error("Cancelled");
+
+    const pending = api.all(
+      [
+        ["getTask", { pathParams: { id: 10 } }],
+        ["getTask", { pathParams: { id: 20 } }],
+        ["getTask", { pathParams: { id: 30 } }],
+      ],
+      { signal: controller.signal, concurrency: 2 },
+    );
+
+    controller.abort(reason);
+
+    await expect(pending).rejects.toBe(reason);
+    expect(stats.signals).toHaveLength(2);
+    expect(stats.signals.every((signal) => signal.aborted)).toBe(true);
+  });
+});
+
+describe("http batch mode works when", () => {
+  const createBatchedApi = (
+    respond: (body: BatchRequest) => Response | Promise<Response>,
+  ) => {
+    const fetchMock = vi.fn<typeof fetch>(async (_, request) =>
+      respond(JSON.parse(String(request!.body)) as BatchRequest),
+    );
+    const api = init(undefined, {
+      parseError,
+      http: { fetch: fetchMock, batch: { path: "/batch", maxSize: 3 } },
+    })<APIContracts>()({
+      getTasks: { http: { method: "get", path: "/tasks" } },
+      getTask: { http: { method: "get", path: "/tasks/:id" } },
+      createTask: { http: { method: "post", path: "/tasks" } },
+    });
+
+    return { api, fetchMock };
+  };
+
+  it("calls started in the same tick share one request", async () => {
+    const { api, fetchMock } = createBatchedApi(
+      () =>
+        new Response(
+          JSON.stringify({
+            results: [
+              { status: 200, body: [{ id: 1 }] },
+              {
+                status: 404,
+                body: { type: "not_found", status: 404, message: "Missing" },
+              },
+              { status: 201, body: { id: 2, title: "Write" } },
+            ],
+          }),
+          { headers: { "Content-Type": "application/json" } },
+        ),
+    );
+
+    const [tasks, task, created] = await Promise.all([
+      api.safeCall("getTasks"),
+      api.safeCall("getTask", { pathParams: { id: 7 } }),
+      api.safeCall("createTask", { payload: { title: "Write" } }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0]![0]).toBe("/batch");
+    expect(
+      JSON.parse(String(fetchMock.mock.calls[0]![1]!.body)),
+    ).toEqual<BatchRequest>({
+      calls: [
+        { key: "getTasks" },
+        { key: "getTask", pathParams: { id: 7 } },
+        { key: "createTask", payload: { title: "Write" } },
+      ],
+    });
+    expect(tasks).toEqual([true, [{ id: 1 }]]);
+    expect(task).toEqual([
+      false,
+      expect.objectContaining({ type: "not_found", status: 404 }),
+    ]);
+    expect(created).toEqual([true, { id: 2, title: "Write" }]);
+  });
+
+  it("requests are split by max size", async () => {
+    const { api, fetchMock } = createBatchedApi(
+      ({ calls }) =>
+        new Response(
+          JSON.stringify({
+            results: calls.map(() => ({ status: 200, body: [] })),
+          }),
+          { headers: { "Content-Type": "application/json" } },
+        ),
+    );
+
+    await Promise.all(Array.from({ length: 4 }, () => api.call("getTasks")));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("failed batch request rejects all its calls", async () => {
+    const { api } = createBatchedApi(() => {
+      throw new TypeError("Failed to fetch");
+    });
+
+    const results = await Promise.all([
+      api.safeCall("getTasks"),
+      api.safeCall("createTask", { payload: { title: "Write" } }),
+    ]);
+
+    expect(results).toEqual([
+      [
+        false,
+        expect.objectContaining({
+          type: "no_server_response",
+          rawError: expect.any(NetworkException),
+        }),
+      ],
+      [
+        false,
+        expect.objectContaining({
+          type: "no_server_response",
+          rawError: expect.any(NetworkException),
+        }),
+      ],
+    ]);
+  });
+
+  it("namespaced apis share one request to the same route", async () => {
+    const fetchMock = vi.fn<typeof fetch>(
+      async (_, request) =>
+        new Response(
+          JSON.stringify({
+            results: (
+              JSON.parse(String(request!.body)) as BatchRequest
+            ).calls.map(() => ({ status: 200, body: [] })),
+          }),
+          { headers: { "Content-Type": "application/json" } },
+        ),
+    );
+    const createDomainApi = (namespace: string) =>
+      init(undefined, {
+        parseError,
+        http: {
+          fetch: fetchMock,
+          headers: { "X-Domain": namespace },
+          batch: { path: "/batch", namespace },
+        },
+      })<Pick<APIContracts, "getTasks">>()({
+        getTasks: { http: { method: "get", path: `/${namespace}` } },
+      });
+
+    await Promise.all([
+      createDomainApi("tasks").call("getTasks"),
+      createDomainApi("sessions").call("getTasks"),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(
+      JSON.parse(String(fetchMock.mock.calls[0]![1]!.body)),
+    ).toEqual<BatchRequest>({
+      calls: [
+        { key: "tasks.getTasks", headers: { "X-Domain": "tasks" } },
+        { key: "sessions.getTasks", headers: { "X-Domain": "sessions" } },
+      ],
+    });
+  });
+
+  it("calls over the route limit are sent in the next request", async () => {
+    const fetchMock = vi.fn<typeof fetch>(
+      async (_, request) =>
+        new Response(
+          JSON.stringify({
+            results: (
+              JSON.parse(String(request!.body)) as BatchRequest
+            ).calls.map(() => ({ status: 200, body: [] })),
+          }),
+          { headers: { "Content-Type": "application/json" } },
+        ),
+    );
+    const api = init(undefined, {
+      parseError,
+      http: {
+        fetch: fetchMock,
+        batch: { path: "/batch", maxSize: 20, namespace: "tasks" },
+      },
+    })<Pick<APIContracts, "getTasks">>()({
+      getTasks: { http: { method: "get", path: "/tasks" } },
+    });
+
+    await Promise.all(Array.from({ length: 21 }, () => api.call("getTasks")));
+
+    expect(
+      fetchMock.mock.calls.map(
+        ([, request]) =>
+          (JSON.parse(String(request!.body)) as BatchRequest).calls.length,
+      ),
+    ).toEqual([20, 1]);
+  });
+
+  it("abort listeners are removed once the batch settles", async () => {
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, "addEventListener");
+    const remove = vi.spyOn(controller.signal, "removeEventListener");
+    const resolver = createHttpBatcher({
+      fetch: async () =>
+        new Response(JSON.stringify({ results: [{ status: 200, body: [] }] }), {
+          headers: { "Content-Type": "application/json" },
+        }),
+      batch: { path: "/batch" },
+    })("getTasks", { method: "get", path: "/tasks" });
+
+    await resolver({ extra: { signal: controller.signal } });
+
+    expect(add).toHaveBeenCalledTimes(1);
+    expect(remove).toHaveBeenCalledWith("abort", add.mock.calls[0]![1]);
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import { init } from "../core";
+import { createMemoryStorage, createWebStorage } from "../cache";
+import type { CacheStorage } from "../models";
+
+type APIContracts = {
+  getTasks: {
+    dto: { id: number }[];
+    error: never;
+    searchParams: { page: number; query?: string };
+  };
+  createTask: {
+    dto: { id: number };
+    error: never;
+    payload: { title: string };
+  };
+  getUser: {
+    dto: { name: string };
+    error: never;
+  };
+};
+
+describe("response cache works when", () => {
+  const getTasks = vi.fn();
+  const createTask = vi.fn();
+  const getUser = vi.fn();
+
+  const createApi = (storage?: CacheStorage) =>
+    init(undefined, { cache: { storage } })<APIContracts>()({
+      getTasks: {
+        resolver: getTasks,
+        cache: { ttl: 1000, tags: ["tasks"] },
+      },
+      createTask: {
+        resolver: createTask,
+        invalidates: ["tasks"],
+      },
+      getUser: {
+        resolver: getUser,
+      },
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    getTasks.mockReset().mockResolvedValue([{ id: 1 }]);
+    createTask.mockReset().mockResolvedValue({ id: 2 });
+    getUser.mockReset().mockResolvedValue({ name: "Tom" });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("repeated calls with equal input are served from cache", async () => {
+    const api = createApi();
+    const onOk = vi.fn();
+    api.onOk("getTasks", onOk);
+
+    await api.call("getTasks", { searchParams: { page: 1, query: "a" } });
+    const result = await api.call("getTasks", {
+      searchParams: { query: "a", page: 1 },
+    });
+
+    expect(result).toEqual([{ id: 1 }]);
+    expect(getTasks).toHaveBeenCalledTimes(1);
+    expect(onOk).toHaveBeenCalledTimes(2);
+  });
+
+  it("different input is cached separately", async () => {
+    const api = createApi();
+
+    await api.call("getTasks", { searchParams: { page: 1 } });
+    await api.call("getTasks", { searchParams: { page: 2 } });
+
+    expect(getTasks).toHaveBeenCalledTimes(2);
+  });
+
+  it("entries expire after ttl", async () => {
+    const api = createApi();
+
+    await api.call("getTasks", { searchParams: { page: 1 } });
+    vi.advanceTimersByTime(1000);
+    await api.call("getTasks", { searchParams: { page: 1 } });
+
+    expect(getTasks).toHaveBeenCalledTimes(2);
+  });
+
+  it("mutations invalidate declared tags", async () => {
+    const api = createApi();
+
+    await api.call("getTasks", { searchParams: { page: 1 } });
+    await api.call("createTask", { payload: { title: "Task" } });
+    await api.call("getTasks", { searchParams: { page: 1 } });
+
+    expect(getTasks).toHaveBeenCalledTimes(2);
+  });
+
+  it("failed mutations do not invalidate", async () => {
+    const api = createApi();
+    createTask.mockRejectedValueOnce(new Error("Failed"));
+
+    await api.call("getTasks", { searchParams: { page: 1 } });
+    await expect(
+      api.call("createTask", { payload: { title: "Task" } }),
+    ).rejects.toThrow("Failed");
+    await api.call("getTasks", { searchParams: { page: 1 } });
+
+    expect(getTasks).toHaveBeenCalledTimes(1);
+  });
+
+  it("failed calls are not cached", async () => {
+    const api = createApi();
+    getTasks.mockRejectedValueOnce(new Error("Failed"));
+
+    await expect(
+      api.call("getTasks", { searchParams: { page: 1 } }),
+    ).rejects.toThrow("Failed");
+    await api.call("getTasks", { searchParams: { page: 1 } });
+
+    expect(getTasks).toHaveBeenCalledTimes(2);
+  });
+
+  it("contracts without cache policy are always called", async () => {
+    const api = createApi();
+
+    await api.call("getUser");
+    await api.call("getUser");
+
+    expect(getUser).toHaveBeenCalledTimes(2);
+    expect(await api.cache.peek("getUser")).toBeUndefined();
+  });
+
+  it("peek returns cached dto without calling resolver", async () => {
+    const api = createApi();
+
+    expect(
+      await api.cache.peek("getTasks", { searchParams: { page: 1 } }),
+    ).toBeUndefined();
+
+    await api.call("getTasks", { searchParams: { page: 1 } });
+
+    expect(
+      await api.cache.peek("getTasks", { searchParams: { page: 1 } }),
+    ).toEqual([{ id: 1 }]);
+    expect(getTasks).toHaveBeenCalledTimes(1);
+  });
+
+  it("invalidate and clear remove entries on demand", async () => {
+    const api = createApi();
+    const input = { searchParams: { page: 1 } };
+
+    await api.call("getTasks", input);
+    await api.cache.invalidate("other");
+    expect(await api.cache.peek("getTasks", input)).toEqual([{ id: 1 }]);
+
+    await api.cache.invalidate("tasks");
+    expect(await api.cache.peek("getTasks", input)).toBeUndefined();
+
+    await api.call("getTasks", input);
+    await api.cache.clear();
+    expect(await api.cache.peek("getTasks", input)).toBeUndefined();
+  });
+
+  it("custom async storage is used", async () => {
+    const memory = createMemoryStorage();
+    const storage: CacheStorage = {
+      get: vi.fn(async (id) => memory.get(id)),
+      set: vi.fn(async (id, entry) => memory.set(id, entry)),
+      delete: vi.fn(async (id) => memory.delete(id)),
+      keys: vi.fn(async () => memory.keys()),
+    };
+    const api = createApi(storage);
+
+    await api.call("getTasks", { searchParams: { page: 1 } });
+    await api.call("getTasks", { searchParams: { page: 1 } });
+
+    expect(storage.set).toHaveBeenCalledTimes(1);
+    expect(getTasks).toHaveBeenCalledTimes(1);
+  });
+
+  it("responses cached in one scope are not served in another", async () => {
+    const storage = createMemoryStorage();
+    let user: string | undefined = "tom";
+    const api = init(undefined, {
+      cache: { storage, scope: () => user },
+    })<APIContracts>()({
+      getTasks: { resolver: getTasks, cache: { ttl: 1000 } },
+      createTask: { resolver: createTask },
+      getUser: { resolver: getUser },
+    });
+    const input = { searchParams: { page: 1 } };
+
+    await api.call("getTasks", input);
+    user = "anna";
+    expect(await api.cache.peek("getTasks", input)).toBeUndefined();
+
+    await api.call("getTasks", input);
+    user = "tom";
+    expect(await api.cache.peek("getTasks", input)).toEqual([{ id: 1 }]);
+
+    expect(getTasks).toHaveBeenCalledTimes(2);
+    expect(storage.keys()).toEqual([
+      expect.stringMatching(/^tom:getTasks/),
+      expect.stringMatching(/^anna:getTasks/),
+    ]);
+
+    await api.cache.clear();
+    expect(storage.keys()).toEqual([]);
+  });
+});
+
+describe("web storage works when", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("entries are stored under prefix and survive new api instances", async () => {
+    const resolver = vi.fn().mockResolvedValue({ name: "Tom" });
+    const create = () =>
+      init(undefined, {
+        cache: { storage: createWebStorage(localStorage, "test:") },
+      })<{ getUser: { dto: { name: string }; error: never } }>()({
+        getUser: { resolver, cache: { ttl: 1000 } },
+      });
+
+    await create().call("getUser");
+    const result = await create().call("getUser");
+
+    expect(result).toEqual({ name: "Tom" });
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(localStorage.key(0)?.startsWith("test:getUser")).toBe(true);
+  });
+
+  it("foreign and malformed items are ignored", async () => {
+    const storage = createWebStorage(localStorage, "test:");
+    localStorage.setItem("other", "value");
+    localStorage.setItem("test:broken", "{");
+
+    expect(await storage.keys()).toEqual(["broken"]);
+    expect(await storage.get("broken")).toBeUndefined();
+    expect(localStorage.getItem("test:broken")).toBeNull();
+    expect(localStorage.getItem("other")).toBe("value");
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import { init } from "../core";
+import { combine } from "../combine";
+import { parseError } from "../adapters/fetch";
+import {
+  HttpException,
+  NetworkException,
+  type ErrorVariant,
+  type InferDto,
+  type InferPayload,
+} from "../models";
+
+type TasksContracts = {
+  list: {
+    dto: { id: number; title: string }[];
+    error: ErrorVariant<"unauthorized", 401>;
+  };
+  create: {
+    dto: { id: number; title: string };
+    error: ErrorVariant<"bad_request", 400>;
+    payload: { title: string };
+  };
+};
+
+type SessionsContracts = {
+  list: {
+    dto: { id: number; status: "active" | "completed" }[];
+    error: ErrorVariant<"unauthorized", 401>;
+  };
+  finish: {
+    dto: { id: number; status: "completed" };
+    error: ErrorVariant<"not_found", 404>;
+    pathParams: { id: number };
+  };
+};
+
+const createApi = () => {
+  const tasksAPI = init(undefined, { parseError })<TasksContracts>()({
+    list: { resolver: async () => [{ id: 1, title: "Write" }] },
+    create: {
+      resolver: async ({ payload }) => {
+        if (payload.title === "") {
+          throw new HttpException(new Response(null, { status: 400 }), {
+            type: "bad_request",
+            status: 400,
+            message: "Title is required",
+          });
+        }
+
+        return { id: 2, ...payload };
+      },
+    },
+  });
+  const sessionsAPI = init(undefined, { parseError })<SessionsContracts>()({
+    list: { resolver: async () => [{ id: 1, status: "active" }] },
+    finish: {
+      resolver: async ({ pathParams }) => ({
+        id: pathParams.id,
+        status: "completed",
+      }),
+    },
+  });
+
+  return {
+    tasksAPI,
+    sessionsAPI,
+    api: combine({ tasks: tasksAPI, sessions: sessionsAPI }),
+  };
+};
+
+describe("combined API works when", () => {
+  it("namespaced keys are routed to their API with typed dtos", async () => {
+    const { api } = createApi();
+
+    const tasks = await api.call("tasks.list");
+    const sessions = await api.call("sessions.list");
+    const finished = await api.call("sessions.finish", {
+      pathParams: { id: 3 },
+    });
+
+    expectTypeOf(tasks).toEqualTypeOf<{ id: number; title: string }[]>();
+    expectTypeOf(finished).toEqualTypeOf<{ id: number; status: "completed" }>();
+    expect(tasks).toEqual([{ id: 1, title: "Write" }]);
+    expect(sessions).toEqual([{ id: 1, status: "active" }]);
+    expect(finished).toEqual({ id: 3, status: "completed" });
+    expect(api.getKeys()).toEqual([
+      "tasks.list",
+      "tasks.create",
+      "sessions.list",
+      "sessions.finish",
+    ]);
+  });
+
+  it("infer utilities work with namespaced keys", () => {
+    type Api = ReturnType<typeof createApi>["api"];
+
+    expectTypeOf<InferDto<Api, "tasks.create">>().toEqualTypeOf<{
+      id: number;
+      title: string;
+    }>();
+    expectTypeOf<InferPayload<Api, "tasks.create">>().toEqualTypeOf<{
+      title: string;
+    }>();
+
+    // Keys are namespaced
+    expectTypeOf<"list">().not.toMatchTypeOf<Parameters<Api["getHttp"]>[0]>();
+  });
+
+  it("errors are parsed by the API of the contract", async () => {
+    const { api } = createApi();
+
+    const [ok, error] = await api.safeCall("tasks.create", {
+      payload: { title: "" },
+    });
+
+    expect(ok).toBe(false);
+    expect(error).toMatchObject({ type: "bad_request", status: 400 });
+  });
+
+  it("events are seen with namespaced keys and call ids", async () => {
+    const { api, tasksAPI } = createApi();
+    const onOk = vi.fn();
+    const onAny = vi.fn();
+    const onFirst = vi.fn();
+
+    api.onOk("tasks.list", onOk);
+    api.onSettled("*", onAny);
+    api.once("onCall", "*", onFirst);
+
+    await api.call("tasks.list");
+    await api.call("sessions.list");
+    await tasksAPI.call("create", { payload: { title: "Read" } });
+
+    expect(onOk).toHaveBeenCalledTimes(1);
+    expect(onOk.mock.calls[0]![0]).toMatchObject({
+      key: "tasks.list",
+      callId: "tasks.list:1",
+    });
+    expect(onAny.mock.calls.map(([event]) => event.key)).toEqual([
+      "tasks.list",
+      "sessions.list",
+      "tasks.create",
+    ]);
+    expect(onFirst).toHaveBeenCalledTimes(1);
+    expect(onFirst.mock.calls[0]![0]).toMatchObject({ key: "tasks.list" });
+  });
+
+  it("middleware runs for every namespace and can change the input", async () => {
+    const { api } = createApi();
+    const keys: string[] = [];
+
+    const unuse = api.use(async (ctx, next) => {
+      keys.push(ctx.key);
+      return next();
+    });
+
+    api.use("tasks.create", async (ctx, next) =>
+      next({ ...ctx, input: { payload: { title: "Changed" } } }),
+    );
+
+    await api.call("sessions.list");
+    const created = await api.call("tasks.create", {
+      payload: { title: "Write" },
+    });
+
+    unuse();
+    await api.call("tasks.list");
+
+    expect(keys).toEqual(["sessions.list", "tasks.create"]);
+    expect(created).toEqual({ id: 2, title: "Changed" });
+  });
+
+  it("all runs calls of different namespaces", async () => {
+    const { api } = createApi();
+
+    const [tasks, finished] = await api.all([
+      ["tasks.list"],
+      ["sessions.finish", { pathParams: { id: 7 } }],
+    ]);
+
+    expectTypeOf(finished).toEqualTypeOf<{ id: number; status: "completed" }>();
+    expect(tasks).toEqual([{ id: 1, title: "Write" }]);
+    expect(finished).toEqual({ id: 7, status: "completed" });
+  });
+
+  it("unknown keys and invalid namespaces are rejected", async () => {
+    const { api, tasksAPI } = createApi();
+
+    await expect(
+      (api.call as (key: string) => Promise<unknown>)("users.list"),
+    ).rejects.toThrow('Contract "users.list" is not defined');
+    expect(() => combine({ "tasks.v2": tasksAPI })).toThrow(
+      'Namespace "tasks.v2" can\'t contain "."',
+    );
+  });
+
+  it("queued calls are seen with namespaced keys in a stable snapshot", async () => {
+    const tasksAPI = init(undefined, { parseError })<TasksContracts>()({
+      list: { resolver: async () => [] },
+      create: {
+        resolver: async () => {
+          throw new NetworkException(new TypeError("Failed to fetch"));
+        },
+        queue: { parseError },
+      },
+    });
+    const api = combine({ tasks: tasksAPI });
+    const listener = vi.fn();
+    api.queue.subscribe(listener);
+
+    expect(api.queue.entries()).toBe(api.queue.entries());
+
+    await api.safeCall("tasks.create", { payload: { title: "Write" } });
+
+    const entries = api.queue.entries();
+
+    expect(entries).toEqual([expect.objectContaining({ key: "tasks.create" })]);
+    expect(api.queue.entries()).toBe(entries);
+    expect(listener).toHaveBeenLastCalledWith(entries);
+  });
+});
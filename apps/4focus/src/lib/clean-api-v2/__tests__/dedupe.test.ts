@@ -0,0 +1,223 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { init } from "../core";
+import { getInputFingerprint } from "../fingerprint";
+import type { ErrorVariant } from "../models";
+
+describe("in-flight deduplication works when", () => {
+  type APIContracts = {
+    get: {
+      dto: { id: number };
+      error: ErrorVariant<"not_found", 404>;
+      searchParams: { page: number; sort: string };
+      extra: { signal: AbortSignal };
+    };
+    post: {
+      dto: { id: number };
+      error: ErrorVariant<"bad_request", 400>;
+      payload: { name: string };
+    };
+  };
+
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  const getResolver = vi.fn();
+  const postResolver = vi.fn();
+
+  const createApi = (dedupe = true) =>
+    init(undefined, { dedupe })<APIContracts>()({
+      get: { resolver: getResolver },
+      post: { resolver: postResolver, dedupe: false },
+    });
+
+  beforeEach(() => {
+    getResolver.mockReset();
+    postResolver.mockReset();
+  });
+
+  it("concurrent identical calls share one resolver execution", async () => {
+    const api = createApi();
+    const response = deferred<{ id: number }>();
+    getResolver.mockReturnValue(response.promise);
+
+    const first = api.call("get", {
+      searchParams: { page: 1, sort: "asc" },
+      extra: { signal: new AbortController().signal },
+    });
+    const second = api.call("get", {
+      searchParams: { sort: "asc", page: 1 },
+      extra: { signal: new AbortController().signal },
+    });
+
+    response.resolve({ id: 1 });
+
+    expect(await Promise.all([first, second])).toEqual([{ id: 1 }, { id: 1 }]);
+    expect(getResolver).toHaveBeenCalledTimes(1);
+  });
+
+  it("calls with different input are not shared", async () => {
+    const api = createApi();
+    getResolver.mockResolvedValue({ id: 1 });
+
+    await Promise.all([
+      api.call("get", {
+        searchParams: { page: 1, sort: "asc" },
+        extra: { signal: new AbortController().signal },
+      }),
+      api.call("get", {
+        searchParams: { page: 2, sort: "asc" },
+        extra: { signal: new AbortController().signal },
+      }),
+    ]);
+
+    expect(getResolver).toHaveBeenCalledTimes(2);
+  });
+
+  it("sequential calls are not shared", async () => {
+    const api = createApi();
+    getResolver.mockResolvedValue({ id: 1 });
+    const input = {
+      searchParams: { page: 1, sort: "asc" },
+      extra: { signal: new AbortController().signal },
+    };
+
+    await api.call("get", input);
+    await api.call("get", input);
+
+    expect(getResolver).toHaveBeenCalledTimes(2);
+  });
+
+  it("dedupe is opt-in and can be disabled per contract", async () => {
+    const api = createApi(false);
+    getResolver.mockResolvedValue({ id: 1 });
+    postResolver.mockResolvedValue({ id: 1 });
+    const input = {
+      searchParams: { page: 1, sort: "asc" },
+      extra: { signal: new AbortController().signal },
+    };
+
+    await Promise.all([api.call("get", input), api.call("get", input)]);
+
+    const dedupedApi = createApi(true);
+    await Promise.all([
+      dedupedApi.call("post", { payload: { name: "a" } }),
+      dedupedApi.call("post", { payload: { name: "a" } }),
+    ]);
+
+    expect(getResolver).toHaveBeenCalledTimes(2);
+    expect(postResolver).toHaveBeenCalledTimes(2);
+  });
+
+  it("one subscriber aborting does not cancel the request for others", async () => {
+    const api = createApi();
+    const response = deferred<{ id: number }>();
+    let sharedSignal: AbortSignal | undefined;
+    getResolver.mockImplementation(({ extra }) => {
+      sharedSignal = extra.signal;
+      return response.promise;
+    });
+    const firstController = new AbortController();
+    const secondController = new AbortController();
+    const input = { searchParams: { page: 1, sort: "asc" } };
+
+    const first = api.call("get", {
+      ...input,
+      extra: { signal: firstController.signal },
+    });
+    const second = api.call("get", {
+      ...input,
+      extra: { signal: secondController.signal },
+    });
+
+    await vi.waitFor(() => expect(getResolver).toHaveBeenCalledTimes(1));
+    firstController.abort();
+
+    await expect(first).rejects.toBe(firstController.signal.reason);
+    expect(sharedSignal?.aborted).toBe(false);
+
+    response.resolve({ id: 1 });
+
+    expect(await second).toEqual({ id: 1 });
+  });
+
+  it("shared request is aborted when all subscribers abort", async () => {
+    const api = createApi();
+    let sharedSignal: AbortSignal | undefined;
+    getResolver.mockImplementation(({ extra }) => {
+      sharedSignal = extra.signal;
+      return new Promise(() => {});
+    });
+    const controllers = [new AbortController(), new AbortController()];
+    const calls = controllers.map((controller) =>
+      api.call("get", {
+        searchParams: { page: 1, sort: "asc" },
+        extra: { signal: controller.signal },
+      }),
+    );
+
+    await vi.waitFor(() => expect(getResolver).toHaveBeenCalledTimes(1));
+    controllers.forEach((controller) => controller.abort());
+
+    await Promise.allSettled(calls);
+
+    expect(sharedSignal?.aborted).toBe(true);
+  });
+
+  it("shared failure is delivered to every subscriber and onFail", async () => {
+    const api = createApi();
+    const onFail = vi.fn();
+    api.onFail("get", onFail);
+    const error = new Error("Network");
+    getResolver.mockRejectedValue(error);
+    const input = {
+      searchParams: { page: 1, sort: "asc" },
+      extra: { signal: new AbortController().signal },
+    };
+
+    const results = await Promise.allSettled([
+      api.call("get", input),
+      api.call("get", input),
+    ]);
+
+    expect(results).toEqual([
+      { status: "rejected", reason: error },
+      { status: "rejected", reason: error },
+    ]);
+    expect(getResolver).toHaveBeenCalledTimes(1);
+    expect(onFail).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("input fingerprint works when", () => {
+  it("ignores properties order and extra signal", () => {
+    expect(
+      getInputFingerprint("get", {
+        searchParams: { a: 1, b: 2 },
+        extra: { signal: new AbortController().signal, tag: "x" },
+      }),
+    ).toBe(
+      getInputFingerprint("get", {
+        extra: { tag: "x", signal: new AbortController().signal },
+        searchParams: { b: 2, a: 1 },
+      }),
+    );
+  });
+
+  it("includes the contract key", () => {
+    expect(getInputFingerprint("a", {})).not.toBe(getInputFingerprint("b", {}));
+  });
+
+  it("returns undefined for non serializable input", () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(getInputFingerprint("get", { payload: circular })).toBeUndefined();
+  });
+});
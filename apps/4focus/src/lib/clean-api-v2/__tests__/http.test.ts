@@ -0,0 +1,209 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { init } from "../core";
+import { applyPathParams, serializeSearchParams } from "../http";
+import { HttpException, NetworkException } from "../models";
+
+type APIContracts = {
+  getUser: {
+    dto: { id: string };
+    error: never;
+    pathParams: { id: string };
+    searchParams: { fields?: string[]; active?: boolean };
+    extra: { signal: AbortSignal };
+  };
+  createUser: {
+    dto: { id: string };
+    error: never;
+    payload: { name: string };
+  };
+  deleteUser: {
+    dto: undefined;
+    error: never;
+    pathParams: { id: string };
+  };
+  getHealth: {
+    dto: string;
+    error: never;
+  };
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+describe("http contracts work when", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  const createApi = () =>
+    init(undefined, {
+      http: {
+        baseURL: "https://api.test",
+        headers: { Authorization: "Bearer token" },
+        fetch: fetchMock,
+      },
+    })<APIContracts>()({
+      getUser: { http: { method: "get", path: "/users/:id" } },
+      createUser: {
+        http: {
+          method: "post",
+          path: "/users",
+          headers: { "X-Source": "test" },
+        },
+      },
+      deleteUser: { http: { method: "delete", path: "/users/:id" } },
+      getHealth: { resolver: async () => "ok" },
+    });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it("url is built from base url, path params and search params", async () => {
+    const api = createApi();
+    const controller = new AbortController();
+    fetchMock.mockResolvedValue(json({ id: "a b" }));
+
+    const result = await api.call("getUser", {
+      pathParams: { id: "a b" },
+      searchParams: { fields: ["name", "email"], active: true },
+      extra: { signal: controller.signal },
+    });
+
+    expect(result).toEqual({ id: "a b" });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.test/users/a%20b?fields=name&fields=email&active=true",
+      {
+        method: "GET",
+        headers: { Authorization: "Bearer token" },
+        body: undefined,
+        signal: controller.signal,
+      },
+    );
+  });
+
+  it("payload is sent as json body with merged headers", async () => {
+    const api = createApi();
+    fetchMock.mockResolvedValue(json({ id: "1" }, 201));
+
+    await api.call("createUser", { payload: { name: "Tom" } });
+
+    expect(fetchMock).toHaveBeenCalledWith("https://api.test/users", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: "Bearer token",
+        "X-Source": "test",
+      },
+      body: JSON.stringify({ name: "Tom" }),
+      signal: undefined,
+    });
+  });
+
+  it("empty responses resolve with undefined", async () => {
+    const api = createApi();
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    expect(
+      await api.call("deleteUser", { pathParams: { id: "1" } }),
+    ).toBeUndefined();
+  });
+
+  it("non-2xx responses are thrown as HttpException with parsed body", async () => {
+    const api = createApi();
+    const onFail = vi.fn();
+    api.onFail("deleteUser", onFail);
+    const body = { type: "not_found", status: 404, message: "Not found" };
+    fetchMock.mockResolvedValue(json(body, 404));
+
+    const error = await api
+      .call("deleteUser", { pathParams: { id: "1" } })
+      .catch((e: unknown) => e);
+
+    expect(HttpException.is(error)).toBe(true);
+    expect((error as HttpException).data).toEqual(body);
+    expect((error as HttpException).response.status).toBe(404);
+    expect(onFail).toHaveBeenCalledTimes(1);
+  });
+
+  it("malformed json is passed as text", async () => {
+    const api = createApi();
+    fetchMock.mockResolvedValue(
+      new Response("<html>", {
+        status: 502,
+        headers: { "Content-Type": "application/json" },
+      }),
+    );
+
+    const error = await api
+      .call("deleteUser", { pathParams: { id: "1" } })
+      .catch((e: unknown) => e);
+
+    expect((error as HttpException).data).toBe("<html>");
+  });
+
+  it("network failures are thrown as NetworkException", async () => {
+    const api = createApi();
+    const failure = new TypeError("Failed to fetch");
+    fetchMock.mockRejectedValue(failure);
+
+    const error = await api
+      .call("createUser", { payload: { name: "Tom" } })
+      .catch((e: unknown) => e);
+
+    expect(NetworkException.is(error)).toBe(true);
+    expect((error as NetworkException).error).toBe(failure);
+  });
+
+  it("hand-written resolvers can be mixed with http ones", async () => {
+    const api = createApi();
+
+    expect(await api.call("getHealth")).toBe("ok");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("paths are checked against path params at compile time", () => {
+    // @ts-expect-error - ":uid" is not defined in pathParams
+    init()<APIContracts>()({
+      getUser: { http: { method: "get", path: "/users/:uid" } },
+      createUser: { http: { method: "post", path: "/users" } },
+      deleteUser: { http: { method: "delete", path: "/users/:id" } },
+      getHealth: { http: { method: "get", path: "/health" } },
+    });
+
+    // @ts-expect-error - dynamic segment without pathParams in contract
+    init()<APIContracts>()({
+      getUser: { http: { method: "get", path: "/users/:id" } },
+      createUser: { http: { method: "post", path: "/users/:id" } },
+      deleteUser: { http: { method: "delete", path: "/users/:id" } },
+      getHealth: { http: { method: "get", path: "/health" } },
+    });
+
+    init()<APIContracts>()({
+      getUser: { http: { method: "get", path: "/users/:id" } },
+      createUser: { http: { method: "post", path: "/users" } },
+      // @ts-expect-error - resolver and http are mutually exclusive
+      deleteUser: {
+        http: { method: "delete", path: "/users/:id" },
+        resolver: async () => undefined,
+      },
+      getHealth: { http: { method: "get", path: "/health" } },
+    });
+  });
+});
+
+describe("http helpers work when", () => {
+  it("only declared path params are replaced", () => {
+    expect(applyPathParams("/users/:id/posts/:postId", { id: 1 })).toBe(
+      "/users/1/posts/:postId",
+    );
+    expect(applyPathParams("/users/:id")).toBe("/users/:id");
+  });
+
+  it("nullish search params are skipped", () => {
+    expect(serializeSearchParams({ a: undefined, b: null, c: 0 })).toBe("?c=0");
+    expect(serializeSearchParams({})).toBe("");
+    expect(serializeSearchParams()).toBe("");
+  });
+});
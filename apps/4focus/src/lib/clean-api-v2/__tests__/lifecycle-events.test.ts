@@ -0,0 +1,168 @@
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+import { init } from "../core";
+import type { ErrorVariant } from "../models";
+
+type APIContracts = {
+  getUser: {
+    dto: { id: number };
+    error: ErrorVariant<"not_found", 404>;
+    pathParams: { id: number };
+  };
+  getUsers: {
+    dto: { id: number }[];
+    error: ErrorVariant<"unauthorized", 401>;
+  };
+};
+
+const createApi = (awaitListeners?: boolean) =>
+  init(undefined, { awaitListeners })<APIContracts>()({
+    getUser: {
+      resolver: async ({ pathParams }) => {
+        if (pathParams.id === 404) {
+          throw new Error("Not found");
+        }
+
+        return { id: pathParams.id };
+      },
+    },
+    getUsers: { resolver: async () => [{ id: 1 }] },
+  });
+
+describe("lifecycle events work when", () => {
+  it("onSettled is called after success and failure", async () => {
+    const api = createApi();
+    const onSettled = vi.fn();
+
+    api.onSettled("getUser", onSettled);
+
+    await api.call("getUser", { pathParams: { id: 1 } });
+    await api.safeCall("getUser", { pathParams: { id: 404 } });
+
+    expect(onSettled).toHaveBeenCalledTimes(2);
+    expect(onSettled.mock.calls[0]![0]).toMatchObject({
+      ok: true,
+      dto: { id: 1 },
+    });
+    expect(onSettled.mock.calls[1]![0]).toMatchObject({ ok: false });
+    expect(onSettled.mock.calls[1]![0].error).toBeInstanceOf(Error);
+
+    api.onSettled("getUser", (event) => {
+      if (event.ok) {
+        expectTypeOf(event.dto).toEqualTypeOf<{ id: number }>();
+      } else {
+        expectTypeOf(event.error).toEqualTypeOf<unknown>();
+      }
+    });
+  });
+
+  it("events of one call share the call id and carry timing", async () => {
+    const api = createApi();
+    const onCall = vi.fn();
+    const onOk = vi.fn();
+
+    api.onCall("getUser", onCall);
+    api.onOk("getUser", onOk);
+
+    await api.call("getUser", { pathParams: { id: 1 } });
+    await api.call("getUser", { pathParams: { id: 2 } });
+
+    const [first, second] = onCall.mock.calls.map(([event]) => event);
+    const settled = onOk.mock.calls[0]![0];
+
+    expect(first.key).toBe("getUser");
+    expect(first.callId).not.toBe(second.callId);
+    expect(settled.callId).toBe(first.callId);
+    expect(settled.startedAt).toBe(first.startedAt);
+    expect(settled.endedAt).toBeGreaterThanOrEqual(settled.startedAt);
+    expect(settled.duration).toBe(settled.endedAt - settled.startedAt);
+  });
+
+  it("wildcard listeners receive events of every contract", async () => {
+    const api = createApi();
+    const onOk = vi.fn();
+
+    api.onOk("*", onOk);
+
+    await api.call("getUser", { pathParams: { id: 1 } });
+    await api.call("getUsers");
+
+    expect(onOk.mock.calls.map(([event]) => event.key)).toEqual([
+      "getUser",
+      "getUsers",
+    ]);
+
+    api.onOk("*", (event) => {
+      expectTypeOf(event.key).toEqualTypeOf<"getUser" | "getUsers">();
+
+      if (event.key === "getUser") {
+        expectTypeOf(event.dto).toEqualTypeOf<{ id: number }>();
+      }
+    });
+  });
+
+  it("once listener is called only for the first event", async () => {
+    const api = createApi();
+    const onCall = vi.fn();
+
+    api.once("onCall", "getUsers", onCall);
+
+    await api.call("getUsers");
+    await api.call("getUsers");
+
+    expect(onCall).toHaveBeenCalledTimes(1);
+  });
+
+  it("once listener can be unsubscribed before the event", async () => {
+    const api = createApi();
+    const onCall = vi.fn();
+
+    const unsubscribe = api.once("onCall", "getUsers", onCall);
+    unsubscribe();
+
+    await api.call("getUsers");
+
+    expect(onCall).not.toHaveBeenCalled();
+  });
+
+  it("async listeners are awaited when enabled", async () => {
+    const order: string[] = [];
+    const listener = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      order.push("listener");
+    };
+
+    const awaiting = createApi(true);
+    awaiting.onOk("getUsers", listener);
+    await awaiting.call("getUsers");
+    order.push("call");
+
+    expect(order).toEqual(["listener", "call"]);
+
+    order.length = 0;
+
+    const notAwaiting = createApi();
+    notAwaiting.onOk("getUsers", listener);
+    await notAwaiting.call("getUsers");
+    order.push("call");
+
+    expect(order).toEqual(["call"]);
+  });
+
+  it("rejected async listeners are logged and do not break the call", async () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const api = createApi(true);
+    const error = new Error("Listener failed");
+
+    api.onSettled("getUsers", async () => {
+      throw error;
+    });
+
+    await expect(api.call("getUsers")).resolves.toEqual([{ id: 1 }]);
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "onSettled callback error for endpoint 'getUsers':",
+      error,
+    );
+
+    consoleSpy.mockRestore();
+  });
+});
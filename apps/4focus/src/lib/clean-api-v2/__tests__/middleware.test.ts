@@ -0,0 +1,319 @@
+import { describe, expect, expectTypeOf, it, vi, beforeEach } from "vitest";
+import { init } from "../core";
+import type { ErrorVariant } from "../models";
+
+describe("middleware works when", () => {
+  type APIContracts = {
+    get: {
+      dto: { id: number };
+      error: ErrorVariant<"not_found", 404>;
+      pathParams: { id: string };
+      extra: { signal: AbortSignal };
+    };
+    post: {
+      dto: { success: boolean };
+      error: ErrorVariant<"bad_request", 400>;
+      payload: { data: string };
+    };
+  };
+
+  const getResolver = vi.fn();
+  const postResolver = vi.fn();
+
+  const createApi = () =>
+    init({ token: "abc" })<APIContracts>()({
+      get: { resolver: getResolver },
+      post: { resolver: postResolver },
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getResolver.mockResolvedValue({ id: 1 });
+    postResolver.mockResolvedValue({ success: true });
+  });
+
+  it("middleware sees key, call id, input, config and signal", async () => {
+    const api = createApi();
+    const controller = new AbortController();
+    const spy = vi.fn();
+
+    api.use((ctx, next) => {
+      spy({ ...ctx });
+      return next();
+    });
+
+    await api.call("get", {
+      pathParams: { id: "1" },
+      extra: { signal: controller.signal },
+    });
+
+    expect(spy).toHaveBeenCalledWith({
+      key: "get",
+      callId: expect.any(String),
+      input: {
+        pathParams: { id: "1" },
+        extra: { signal: controller.signal },
+      },
+      config: { token: "abc" },
+      signal: controller.signal,
+    });
+  });
+
+  it("middleware runs in registration order, global before endpoint ones", async () => {
+    const api = createApi();
+    const order: string[] = [];
+
+    api.use("get", async (_, next) => {
+      order.push("endpoint:before");
+      const result = await next();
+      order.push("endpoint:after");
+      return result;
+    });
+    api.use(async (_, next) => {
+      order.push("global-1:before");
+      const result = await next();
+      order.push("global-1:after");
+      return result;
+    });
+    api.use(async (_, next) => {
+      order.push("global-2:before");
+      const result = await next();
+      order.push("global-2:after");
+      return result;
+    });
+    getResolver.mockImplementation(async () => {
+      order.push("resolver");
+      return { id: 1 };
+    });
+
+    await api.call("get", {
+      pathParams: { id: "1" },
+      extra: { signal: new AbortController().signal },
+    });
+
+    expect(order).toEqual([
+      "global-1:before",
+      "global-2:before",
+      "endpoint:before",
+      "resolver",
+      "endpoint:after",
+      "global-2:after",
+      "global-1:after",
+    ]);
+  });
+
+  it("endpoint middleware is not applied to other endpoints", async () => {
+    const api = createApi();
+    const middleware = vi.fn((_, next) => next());
+
+    api.use("get", middleware);
+
+    await api.call("post", { payload: { data: "x" } });
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+
+  it("middleware can rewrite the input and config passed to resolver", async () => {
+    const api = createApi();
+
+    api.use("post", (ctx, next) =>
+      next({
+        ...ctx,
+        input: { payload: { data: ctx.input.payload.data.toUpperCase() } },
+        config: { token: "refreshed" },
+      }),
+    );
+
+    await api.call("post", { payload: { data: "hello" } });
+
+    expect(postResolver).toHaveBeenCalledWith({
+      payload: { data: "HELLO" },
+      config: { token: "refreshed" },
+    });
+  });
+
+  it("middleware can short-circuit the resolver", async () => {
+    const api = createApi();
+
+    api.use("get", async () => ({ id: 999 }));
+
+    const result = await api.call("get", {
+      pathParams: { id: "1" },
+      extra: { signal: new AbortController().signal },
+    });
+
+    expect(result).toEqual({ id: 999 });
+    expect(getResolver).not.toHaveBeenCalled();
+  });
+
+  it("middleware can rewrite the result", async () => {
+    const api = createApi();
+
+    api.use("post", async (_, next) => {
+      const result = await next();
+      return { success: !result.success };
+    });
+
+    expect(await api.call("post", { payload: { data: "x" } })).toEqual({
+      success: false,
+    });
+  });
+
+  it("middleware can recover from or replace the error", async () => {
+    const api = createApi();
+    const onFail = vi.fn();
+    api.onFail("post", onFail);
+    postResolver.mockRejectedValue(new Error("Network"));
+
+    const unsubscribe = api.use("post", async (_, next) => {
+      try {
+        return await next();
+      } catch {
+        return { success: false };
+      }
+    });
+
+    expect(await api.call("post", { payload: { data: "x" } })).toEqual({
+      success: false,
+    });
+    expect(onFail).not.toHaveBeenCalled();
+
+    unsubscribe();
+    api.use("post", async (_, next) => {
+      try {
+        return await next();
+      } catch {
+        throw new Error("Replaced");
+      }
+    });
+
+    await expect(api.call("post", { payload: { data: "x" } })).rejects.toThrow(
+      "Replaced",
+    );
+    expect(onFail).toHaveBeenCalledTimes(1);
+  });
+
+  it("unsubscribed middleware is no longer called", async () => {
+    const api = createApi();
+    const middleware = vi.fn((_, next) => next());
+
+    const unsubscribe = api.use(middleware);
+    unsubscribe();
+
+    await api.call("post", { payload: { data: "x" } });
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+
+  it("middleware is typed per endpoint", () => {
+    const api = createApi();
+
+    api.use("get", (ctx, next) => {
+      expectTypeOf(ctx.key).toEqualTypeOf<"get">();
+      expectTypeOf(ctx.input.pathParams).toEqualTypeOf<{ id: string }>();
+      expectTypeOf(ctx.config).toEqualTypeOf<{ token: string }>();
+      expectTypeOf(next).returns.toEqualTypeOf<Promise<{ id: number }>>();
+      return next();
+    });
+
+    api.use((ctx, next) => {
+      if (ctx.key === "post") {
+        expectTypeOf(ctx.input.payload).toEqualTypeOf<{ data: string }>();
+      }
+      return next();
+    });
+
+    // @ts-expect-error - wrong dto returned
+    api.use("get", async () => ({ id: "1" }));
+    // @ts-expect-error - wrong key
+    api.use("nonexistent", (_, next) => next());
+  });
+
+  it("init and contract middleware run before the ones added with use", async () => {
+    const order: string[] = [];
+    const track =
+      (name: string) =>
+      async <T>(_: unknown, next: () => Promise<T>): Promise<T> => {
+        order.push(name);
+        return next();
+      };
+
+    const api = init(
+      { token: "abc" },
+      { middleware: [track("init-1"), track("init-2")] },
+    )<APIContracts>()({
+      get: { resolver: getResolver },
+      post: { resolver: postResolver, middleware: [track("contract")] },
+    });
+
+    api.use(track("use"));
+    api.use("post", track("use-endpoint"));
+
+    await api.call("post", { payload: { data: "x" } });
+    await api.call("get", {
+      pathParams: { id: "1" },
+      extra: { signal: new AbortController().signal },
+    });
+
+    expect(order).toEqual([
+      "init-1",
+      "init-2",
+      "use",
+      "contract",
+      "use-endpoint",
+      "init-1",
+      "init-2",
+      "use",
+    ]);
+  });
+
+  it("contract middleware can rewrite the input and result", async () => {
+    const api = init({ token: "abc" })<APIContracts>()({
+      get: { resolver: getResolver },
+      post: {
+        resolver: postResolver,
+        middleware: [
+          async (ctx, next) => {
+            expectTypeOf(ctx.key).toEqualTypeOf<"post">();
+            const result = await next({
+              ...ctx,
+              input: { payload: { data: "rewritten" } },
+            });
+            return { success: !result.success };
+          },
+        ],
+      },
+    });
+
+    const result = await api.call("post", { payload: { data: "x" } });
+
+    expect(postResolver).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: { data: "rewritten" } }),
+    );
+    expect(result).toEqual({ success: false });
+  });
+
+  it("init middleware sees the config and key of every contract", async () => {
+    const spy = vi.fn();
+
+    const api = init(
+      { token: "abc" },
+      {
+        middleware: [
+          (ctx, next) => {
+            expectTypeOf(ctx.config).toEqualTypeOf<{ token: string }>();
+            spy(ctx.key, ctx.config);
+            return next();
+          },
+        ],
+      },
+    )<APIContracts>()({
+      get: { resolver: getResolver },
+      post: { resolver: postResolver },
+    });
+
+    await api.call("post", { payload: { data: "x" } });
+
+    expect(spy).toHaveBeenCalledWith("post", { token: "abc" });
+  });
+});
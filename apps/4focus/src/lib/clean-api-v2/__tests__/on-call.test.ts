@@ -1,6 +1,14 @@
 import { describe, it, expect, vi, beforeEach, expectTypeOf } from "vitest";
 import { init } from "../core";
-import type { ErrorVariant } from "../models";
+import type { ErrorVariant, EventMeta } from "../models";
+
+// Call metadata attached to every lifecycle event
+const callEvent = <T extends object>(payload: T) => ({
+  ...payload,
+  key: expect.any(String),
+  callId: expect.any(String),
+  startedAt: expect.any(Number),
+});
 
 describe("onCall works when", () => {
   type APIContracts = {
@@ -56,10 +64,12 @@ describe("onCall works when", () => {
     await apiWithConfig.call("get", callArgs);
 
     expect(onCallCallback).toHaveBeenCalledTimes(1);
-    expect(onCallCallback).toHaveBeenCalledWith({
-      ...callArgs,
-      config: { url: "https://api.example.com" },
-    });
+    expect(onCallCallback).toHaveBeenCalledWith(
+      callEvent({
+        ...callArgs,
+        config: { url: "https://api.example.com" },
+      }),
+    );
 
     apiWithConfig.onCall("get", (input) => {
       expectTypeOf(input.config).toEqualTypeOf<{
@@ -86,7 +96,7 @@ describe("onCall works when", () => {
     await apiWithoutConfig.call("get", callArgs);
 
     expect(onCallCallback).toHaveBeenCalledTimes(1);
-    expect(onCallCallback).toHaveBeenCalledWith(callArgs);
+    expect(onCallCallback).toHaveBeenCalledWith(callEvent(callArgs));
 
     // Type assertion
     apiWithoutConfig.onCall("get", (input) => {
@@ -114,9 +124,9 @@ describe("onCall works when", () => {
       config: { url: "https://api.example.com" },
     };
     expect(callback1).toHaveBeenCalledTimes(1);
-    expect(callback1).toHaveBeenCalledWith(expectedPayload);
+    expect(callback1).toHaveBeenCalledWith(callEvent(expectedPayload));
     expect(callback2).toHaveBeenCalledTimes(1);
-    expect(callback2).toHaveBeenCalledWith(expectedPayload);
+    expect(callback2).toHaveBeenCalledWith(callEvent(expectedPayload));
   });
 
   it("unsubscribing a callback prevents it from being called", async () => {
@@ -142,9 +152,11 @@ describe("onCall works when", () => {
     await apiWithConfig.call("noInput");
 
     expect(onCallCallback).toHaveBeenCalledTimes(1);
-    expect(onCallCallback).toHaveBeenCalledWith({
-      config: { url: "https://api.example.com" },
-    });
+    expect(onCallCallback).toHaveBeenCalledWith(
+      callEvent({
+        config: { url: "https://api.example.com" },
+      }),
+    );
 
     apiWithConfig.onCall("noInput", (input) => {
       expectTypeOf(input).not.toHaveProperty("pathParams");
@@ -170,10 +182,12 @@ describe("onCall works when", () => {
 
     // Only the 'post' callback should be triggered
     expect(onCallCallbackForPost).toHaveBeenCalledTimes(1);
-    expect(onCallCallbackForPost).toHaveBeenCalledWith({
-      ...postCallArgs,
-      config: { url: "https://api.example.com" },
-    });
+    expect(onCallCallbackForPost).toHaveBeenCalledWith(
+      callEvent({
+        ...postCallArgs,
+        config: { url: "https://api.example.com" },
+      }),
+    );
 
     // The 'get' callback should NOT be triggered
     expect(onCallCallbackForGet).not.toHaveBeenCalled();
@@ -188,10 +202,12 @@ describe("onCall works when", () => {
 
     // Now the 'get' callback should be triggered
     expect(onCallCallbackForGet).toHaveBeenCalledTimes(1);
-    expect(onCallCallbackForGet).toHaveBeenCalledWith({
-      ...getCallArgs,
-      config: { url: "https://api.example.com" },
-    });
+    expect(onCallCallbackForGet).toHaveBeenCalledWith(
+      callEvent({
+        ...getCallArgs,
+        config: { url: "https://api.example.com" },
+      }),
+    );
 
     // The 'post' callback should still only have been called once
     expect(onCallCallbackForPost).toHaveBeenCalledTimes(1);
@@ -238,20 +254,26 @@ describe("onCall works when", () => {
     expect(noInputCallback).toHaveBeenCalledTimes(1);
 
     // Verify the arguments passed to each callback
-    expect(getCallback).toHaveBeenCalledWith({
-      pathParams: { id: "123" },
-      searchParams: { q: "test" },
-      config: { url: "https://api.example.com" },
-    });
-
-    expect(postCallback).toHaveBeenCalledWith({
-      payload: { data: "test" },
-      config: { url: "https://api.example.com" },
-    });
-
-    expect(noInputCallback).toHaveBeenCalledWith({
-      config: { url: "https://api.example.com" },
-    });
+    expect(getCallback).toHaveBeenCalledWith(
+      callEvent({
+        pathParams: { id: "123" },
+        searchParams: { q: "test" },
+        config: { url: "https://api.example.com" },
+      }),
+    );
+
+    expect(postCallback).toHaveBeenCalledWith(
+      callEvent({
+        payload: { data: "test" },
+        config: { url: "https://api.example.com" },
+      }),
+    );
+
+    expect(noInputCallback).toHaveBeenCalledWith(
+      callEvent({
+        config: { url: "https://api.example.com" },
+      }),
+    );
   });
 
   it("callback passed to onCall has correct TS types inferred", () => {
@@ -269,7 +291,9 @@ describe("onCall works when", () => {
       expectTypeOf(input).not.toHaveProperty("payload");
       expectTypeOf(input).not.toHaveProperty("pathParams");
       expectTypeOf(input).toHaveProperty("config");
-      expectTypeOf(input).toEqualTypeOf<{ config: { url: string } }>();
+      expectTypeOf(input).toEqualTypeOf<
+        { config: { url: string } } & EventMeta<"noInput">
+      >();
     });
 
     apiWithoutConfig.onCall("get", (input) => {
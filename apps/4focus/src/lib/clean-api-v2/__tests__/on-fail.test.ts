@@ -2,6 +2,16 @@ import { describe, it, expect, vi, beforeEach, expectTypeOf } from "vitest";
 import { init } from "../core";
 import type { ErrorVariant } from "../models";
 
+// Call metadata and timing attached to settled lifecycle events
+const settledEvent = <T extends object>(payload: T) => ({
+  ...payload,
+  key: expect.any(String),
+  callId: expect.any(String),
+  startedAt: expect.any(Number),
+  endedAt: expect.any(Number),
+  duration: expect.any(Number),
+});
+
 describe("onFail works when", () => {
   type APIContracts = {
     get: {
@@ -60,11 +70,13 @@ describe("onFail works when", () => {
     );
 
     expect(onFailCallback).toHaveBeenCalledTimes(1);
-    expect(onFailCallback).toHaveBeenCalledWith({
-      ...callArgs,
-      config: { url: "https://api.example.com" },
-      error: error,
-    });
+    expect(onFailCallback).toHaveBeenCalledWith(
+      settledEvent({
+        ...callArgs,
+        config: { url: "https://api.example.com" },
+        error: error,
+      }),
+    );
 
     // Type assertion
     apiWithConfig.onFail("get", (input) => {
@@ -97,10 +109,12 @@ describe("onFail works when", () => {
     );
 
     expect(onFailCallback).toHaveBeenCalledTimes(1);
-    expect(onFailCallback).toHaveBeenCalledWith({
-      ...callArgs,
-      error: error,
-    });
+    expect(onFailCallback).toHaveBeenCalledWith(
+      settledEvent({
+        ...callArgs,
+        error: error,
+      }),
+    );
 
     // Type assertion
     apiWithoutConfig.onFail("get", (input) => {
@@ -135,9 +149,9 @@ describe("onFail works when", () => {
       error: error,
     };
     expect(callback1).toHaveBeenCalledTimes(1);
-    expect(callback1).toHaveBeenCalledWith(expectedPayload);
+    expect(callback1).toHaveBeenCalledWith(settledEvent(expectedPayload));
     expect(callback2).toHaveBeenCalledTimes(1);
-    expect(callback2).toHaveBeenCalledWith(expectedPayload);
+    expect(callback2).toHaveBeenCalledWith(settledEvent(expectedPayload));
   });
 
   it("unsubscribing a callback prevents it from being called", async () => {
@@ -157,11 +171,13 @@ describe("onFail works when", () => {
 
     expect(callback1).not.toHaveBeenCalled();
     expect(callback2).toHaveBeenCalledTimes(1);
-    expect(callback2).toHaveBeenCalledWith({
-      payload: { data: "test" },
-      config: { url: "https://api.example.com" },
-      error: error,
-    });
+    expect(callback2).toHaveBeenCalledWith(
+      settledEvent({
+        payload: { data: "test" },
+        config: { url: "https://api.example.com" },
+        error: error,
+      }),
+    );
   });
 
   it("callback is called for an api call with no input", async () => {
@@ -176,10 +192,12 @@ describe("onFail works when", () => {
     );
 
     expect(onFailCallback).toHaveBeenCalledTimes(1);
-    expect(onFailCallback).toHaveBeenCalledWith({
-      config: { url: "https://api.example.com" },
-      error: error,
-    });
+    expect(onFailCallback).toHaveBeenCalledWith(
+      settledEvent({
+        config: { url: "https://api.example.com" },
+        error: error,
+      }),
+    );
 
     // Type assertion
     apiWithConfig.onFail("noInput", (input) => {
@@ -212,11 +230,13 @@ describe("onFail works when", () => {
 
     // Only the 'post' callback should be triggered
     expect(onFailCallbackForPost).toHaveBeenCalledTimes(1);
-    expect(onFailCallbackForPost).toHaveBeenCalledWith({
-      ...postCallArgs,
-      config: { url: "https://api.example.com" },
-      error: postError,
-    });
+    expect(onFailCallbackForPost).toHaveBeenCalledWith(
+      settledEvent({
+        ...postCallArgs,
+        config: { url: "https://api.example.com" },
+        error: postError,
+      }),
+    );
 
     // The 'get' callback should NOT be triggered
     expect(onFailCallbackForGet).not.toHaveBeenCalled();
@@ -235,11 +255,13 @@ describe("onFail works when", () => {
 
     // Now the 'get' callback should be triggered
     expect(onFailCallbackForGet).toHaveBeenCalledTimes(1);
-    expect(onFailCallbackForGet).toHaveBeenCalledWith({
-      ...getCallArgs,
-      config: { url: "https://api.example.com" },
-      error: getError,
-    });
+    expect(onFailCallbackForGet).toHaveBeenCalledWith(
+      settledEvent({
+        ...getCallArgs,
+        config: { url: "https://api.example.com" },
+        error: getError,
+      }),
+    );
 
     // The 'post' callback should still only have been called once
     expect(onFailCallbackForPost).toHaveBeenCalledTimes(1);
@@ -299,23 +321,29 @@ describe("onFail works when", () => {
     expect(noInputCallback).toHaveBeenCalledTimes(1);
 
     // Verify the arguments passed to each callback
-    expect(getCallback).toHaveBeenCalledWith({
-      pathParams: { id: "123" },
-      searchParams: { q: "test" },
-      config: { url: "https://api.example.com" },
-      error: getError,
-    });
+    expect(getCallback).toHaveBeenCalledWith(
+      settledEvent({
+        pathParams: { id: "123" },
+        searchParams: { q: "test" },
+        config: { url: "https://api.example.com" },
+        error: getError,
+      }),
+    );
 
-    expect(postCallback).toHaveBeenCalledWith({
-      payload: { data: "test" },
-      config: { url: "https://api.example.com" },
-      error: postError,
-    });
+    expect(postCallback).toHaveBeenCalledWith(
+      settledEvent({
+        payload: { data: "test" },
+        config: { url: "https://api.example.com" },
+        error: postError,
+      }),
+    );
 
-    expect(noInputCallback).toHaveBeenCalledWith({
-      config: { url: "https://api.example.com" },
-      error: noInputError,
-    });
+    expect(noInputCallback).toHaveBeenCalledWith(
+      settledEvent({
+        config: { url: "https://api.example.com" },
+        error: noInputError,
+      }),
+    );
   });
 
   it("callback passed to onFail has correct TS types inferred", () => {
@@ -370,12 +398,14 @@ describe("onFail works when", () => {
 
     // onFail should have been called since the resolver failed
     expect(onFailCallback).toHaveBeenCalledTimes(1);
-    expect(onFailCallback).toHaveBeenCalledWith({
-      pathParams: { id: "123" },
-      searchParams: { q: "test" },
-      config: { url: "https://api.example.com" },
-      error: error,
-    });
+    expect(onFailCallback).toHaveBeenCalledWith(
+      settledEvent({
+        pathParams: { id: "123" },
+        searchParams: { q: "test" },
+        config: { url: "https://api.example.com" },
+        error: error,
+      }),
+    );
 
     // onOk should NOT have been called since the resolver failed
     expect(onOkCallback).not.toHaveBeenCalled();
@@ -506,12 +536,14 @@ describe("onFail works when", () => {
       }),
     ).rejects.toThrow("Network error");
 
-    expect(onFailCallback).toHaveBeenCalledWith({
-      pathParams: { id: "1" },
-      searchParams: { q: "test" },
-      config: { url: "https://api.example.com" },
-      error: error1,
-    });
+    expect(onFailCallback).toHaveBeenCalledWith(
+      settledEvent({
+        pathParams: { id: "1" },
+        searchParams: { q: "test" },
+        config: { url: "https://api.example.com" },
+        error: error1,
+      }),
+    );
 
     // Test with string error
     const error2 = "String error";
@@ -524,12 +556,14 @@ describe("onFail works when", () => {
       }),
     ).rejects.toBe("String error");
 
-    expect(onFailCallback).toHaveBeenCalledWith({
-      pathParams: { id: "2" },
-      searchParams: { q: "test" },
-      config: { url: "https://api.example.com" },
-      error: error2,
-    });
+    expect(onFailCallback).toHaveBeenCalledWith(
+      settledEvent({
+        pathParams: { id: "2" },
+        searchParams: { q: "test" },
+        config: { url: "https://api.example.com" },
+        error: error2,
+      }),
+    );
 
     // Test with object error
     const error3 = { type: "custom", message: "Custom error" };
@@ -542,12 +576,14 @@ describe("onFail works when", () => {
       }),
     ).rejects.toBe(error3);
 
-    expect(onFailCallback).toHaveBeenCalledWith({
-      pathParams: { id: "3" },
-      searchParams: { q: "test" },
-      config: { url: "https://api.example.com" },
-      error: error3,
-    });
+    expect(onFailCallback).toHaveBeenCalledWith(
+      settledEvent({
+        pathParams: { id: "3" },
+        searchParams: { q: "test" },
+        config: { url: "https://api.example.com" },
+        error: error3,
+      }),
+    );
 
     expect(onFailCallback).toHaveBeenCalledTimes(3);
   });
@@ -658,14 +694,16 @@ describe("onFail works when", () => {
 
     // onFail should have been called for the validation error
     expect(onFailCallback).toHaveBeenCalledTimes(1);
-    expect(onFailCallback).toHaveBeenCalledWith({
-      pathParams: {},
-      searchParams: { q: "test" },
-      config: { url: "https://api.example.com" },
-      error: expect.objectContaining({
-        message: "Invalid pathParams: id is required",
+    expect(onFailCallback).toHaveBeenCalledWith(
+      settledEvent({
+        pathParams: {},
+        searchParams: { q: "test" },
+        config: { url: "https://api.example.com" },
+        error: expect.objectContaining({
+          message: "Invalid pathParams: id is required",
+        }),
       }),
-    });
+    );
 
     // Resolver should never have been called due to early validation failure
     expect(mockGetResolver).not.toHaveBeenCalled();
@@ -713,14 +751,16 @@ describe("onFail works when", () => {
 
     // onFail should have been called for the DTO validation error
     expect(onFailCallback).toHaveBeenCalledTimes(1);
-    expect(onFailCallback).toHaveBeenCalledWith({
-      pathParams: { id: "123" },
-      searchParams: { q: "test" },
-      config: { url: "https://api.example.com" },
-      error: expect.objectContaining({
-        message: "Invalid DTO: id is required",
+    expect(onFailCallback).toHaveBeenCalledWith(
+      settledEvent({
+        pathParams: { id: "123" },
+        searchParams: { q: "test" },
+        config: { url: "https://api.example.com" },
+        error: expect.objectContaining({
+          message: "Invalid DTO: id is required",
+        }),
       }),
-    });
+    );
 
     // onOk should NOT have been called due to DTO validation failure
     expect(onOkCallback).not.toHaveBeenCalled();
@@ -819,12 +859,14 @@ describe("onFail works when", () => {
 
     // onFail should have been called for the contract access error
     expect(onFailCallback).toHaveBeenCalledTimes(1);
-    expect(onFailCallback).toHaveBeenCalledWith({
-      pathParams: { id: "123" },
-      searchParams: { q: "test" },
-      config: { url: "https://api.example.com" },
-      error: expect.any(Error),
-    });
+    expect(onFailCallback).toHaveBeenCalledWith(
+      settledEvent({
+        pathParams: { id: "123" },
+        searchParams: { q: "test" },
+        config: { url: "https://api.example.com" },
+        error: expect.any(Error),
+      }),
+    );
   });
 
   it("comprehensive try/catch wrapping - NO exception bypasses onFail", async () => {
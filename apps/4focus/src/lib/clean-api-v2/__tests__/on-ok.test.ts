@@ -2,6 +2,16 @@ import { describe, it, expect, vi, beforeEach, expectTypeOf } from "vitest";
 import { init } from "../core";
 import type { ErrorVariant } from "../models";
 
+// Call metadata and timing attached to settled lifecycle events
+const settledEvent = <T extends object>(payload: T) => ({
+  ...payload,
+  key: expect.any(String),
+  callId: expect.any(String),
+  startedAt: expect.any(Number),
+  endedAt: expect.any(Number),
+  duration: expect.any(Number),
+});
+
 describe("onOk works when", () => {
   type APIContracts = {
     get: {
@@ -58,11 +68,13 @@ describe("onOk works when", () => {
 
     expect(result).toEqual(expectedDto);
     expect(onOkCallback).toHaveBeenCalledTimes(1);
-    expect(onOkCallback).toHaveBeenCalledWith({
-      ...callArgs,
-      config: { url: "https://api.example.com" },
-      dto: expectedDto,
-    });
+    expect(onOkCallback).toHaveBeenCalledWith(
+      settledEvent({
+        ...callArgs,
+        config: { url: "https://api.example.com" },
+        dto: expectedDto,
+      }),
+    );
 
     // Type assertion
     apiWithConfig.onOk("get", (input) => {
@@ -95,10 +107,12 @@ describe("onOk works when", () => {
 
     expect(result).toEqual(expectedDto);
     expect(onOkCallback).toHaveBeenCalledTimes(1);
-    expect(onOkCallback).toHaveBeenCalledWith({
-      ...callArgs,
-      dto: expectedDto,
-    });
+    expect(onOkCallback).toHaveBeenCalledWith(
+      settledEvent({
+        ...callArgs,
+        dto: expectedDto,
+      }),
+    );
 
     // Type assertion
     apiWithoutConfig.onOk("get", (input) => {
@@ -131,9 +145,9 @@ describe("onOk works when", () => {
       dto: expectedDto,
     };
     expect(callback1).toHaveBeenCalledTimes(1);
-    expect(callback1).toHaveBeenCalledWith(expectedPayload);
+    expect(callback1).toHaveBeenCalledWith(settledEvent(expectedPayload));
     expect(callback2).toHaveBeenCalledTimes(1);
-    expect(callback2).toHaveBeenCalledWith(expectedPayload);
+    expect(callback2).toHaveBeenCalledWith(settledEvent(expectedPayload));
   });
 
   it("unsubscribing a callback prevents it from being called", async () => {
@@ -153,11 +167,13 @@ describe("onOk works when", () => {
     expect(result).toEqual(expectedDto);
     expect(callback1).not.toHaveBeenCalled();
     expect(callback2).toHaveBeenCalledTimes(1);
-    expect(callback2).toHaveBeenCalledWith({
-      payload: { data: "test" },
-      config: { url: "https://api.example.com" },
-      dto: expectedDto,
-    });
+    expect(callback2).toHaveBeenCalledWith(
+      settledEvent({
+        payload: { data: "test" },
+        config: { url: "https://api.example.com" },
+        dto: expectedDto,
+      }),
+    );
   });
 
   it("callback is called for an api call with no input", async () => {
@@ -170,10 +186,12 @@ describe("onOk works when", () => {
 
     expect(result).toEqual(expectedDto);
     expect(onOkCallback).toHaveBeenCalledTimes(1);
-    expect(onOkCallback).toHaveBeenCalledWith({
-      config: { url: "https://api.example.com" },
-      dto: expectedDto,
-    });
+    expect(onOkCallback).toHaveBeenCalledWith(
+      settledEvent({
+        config: { url: "https://api.example.com" },
+        dto: expectedDto,
+      }),
+    );
 
     // Type assertion
     apiWithConfig.onOk("noInput", (input) => {
@@ -205,11 +223,13 @@ describe("onOk works when", () => {
 
     // Only the 'post' callback should be triggered
     expect(onOkCallbackForPost).toHaveBeenCalledTimes(1);
-    expect(onOkCallbackForPost).toHaveBeenCalledWith({
-      ...postCallArgs,
-      config: { url: "https://api.example.com" },
-      dto: postDto,
-    });
+    expect(onOkCallbackForPost).toHaveBeenCalledWith(
+      settledEvent({
+        ...postCallArgs,
+        config: { url: "https://api.example.com" },
+        dto: postDto,
+      }),
+    );
 
     // The 'get' callback should NOT be triggered
     expect(onOkCallbackForGet).not.toHaveBeenCalled();
@@ -227,11 +247,13 @@ describe("onOk works when", () => {
 
     // Now the 'get' callback should be triggered
     expect(onOkCallbackForGet).toHaveBeenCalledTimes(1);
-    expect(onOkCallbackForGet).toHaveBeenCalledWith({
-      ...getCallArgs,
-      config: { url: "https://api.example.com" },
-      dto: getDto,
-    });
+    expect(onOkCallbackForGet).toHaveBeenCalledWith(
+      settledEvent({
+        ...getCallArgs,
+        config: { url: "https://api.example.com" },
+        dto: getDto,
+      }),
+    );
 
     // The 'post' callback should still only have been called once
     expect(onOkCallbackForPost).toHaveBeenCalledTimes(1);
@@ -290,23 +312,29 @@ describe("onOk works when", () => {
     expect(noInputCallback).toHaveBeenCalledTimes(1);
 
     // Verify the arguments passed to each callback
-    expect(getCallback).toHaveBeenCalledWith({
-      pathParams: { id: "123" },
-      searchParams: { q: "test" },
-      config: { url: "https://api.example.com" },
-      dto: getDto,
-    });
+    expect(getCallback).toHaveBeenCalledWith(
+      settledEvent({
+        pathParams: { id: "123" },
+        searchParams: { q: "test" },
+        config: { url: "https://api.example.com" },
+        dto: getDto,
+      }),
+    );
 
-    expect(postCallback).toHaveBeenCalledWith({
-      payload: { data: "test" },
-      config: { url: "https://api.example.com" },
-      dto: postDto,
-    });
+    expect(postCallback).toHaveBeenCalledWith(
+      settledEvent({
+        payload: { data: "test" },
+        config: { url: "https://api.example.com" },
+        dto: postDto,
+      }),
+    );
 
-    expect(noInputCallback).toHaveBeenCalledWith({
-      config: { url: "https://api.example.com" },
-      dto: noInputDto,
-    });
+    expect(noInputCallback).toHaveBeenCalledWith(
+      settledEvent({
+        config: { url: "https://api.example.com" },
+        dto: noInputDto,
+      }),
+    );
   });
 
   it("callback passed to onOk has correct TS types inferred", () => {
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import * as z from "zod";
+import { init } from "../core";
+import { generateOpenAPI, toYAML } from "../openapi";
+import { zodCheck, zodToJSONSchema } from "../adapters/zod";
+
+const error = z.union([
+  z.object({
+    type: z.literal("not_found"),
+    status: z.literal(404),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal("unauthorized"),
+    status: z.literal(401),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal("forbidden"),
+    status: z.literal(401),
+    message: z.string(),
+  }),
+]);
+
+const user = z.object({ id: z.string(), name: z.string() });
+
+type APIContracts = {
+  getUser: {
+    dto: z.infer<typeof user>;
+    error: z.infer<typeof error>;
+    pathParams: { id: string };
+    searchParams: { fields?: string };
+  };
+  createUser: {
+    dto: z.infer<typeof user>;
+    error: z.infer<typeof error>;
+    payload: { name: string };
+  };
+  ping: {
+    dto: string;
+    error: never;
+  };
+  local: {
+    dto: number;
+    error: never;
+  };
+};
+
+const api = init()<APIContracts>()({
+  getUser: {
+    http: { method: "get", path: "/users/:id" },
+    schemas: {
+      dto: zodCheck(user),
+      error: zodCheck(error),
+      pathParams: zodCheck(z.object({ id: z.string() })),
+      searchParams: zodCheck(z.object({ fields: z.string().optional() })),
+    },
+  },
+  createUser: {
+    http: { method: "post", path: "/users" },
+    schemas: {
+      dto: zodCheck(user),
+      payload: zodCheck(z.object({ name: z.string().min(1) })),
+    },
+  },
+  ping: { resolver: async () => "pong" },
+  local: { resolver: async () => 1 },
+});
+
+describe("OpenAPI generation works when", () => {
+  const document = generateOpenAPI(api, {
+    info: { title: "Users", version: "1.0.0" },
+    servers: [{ url: "https://api.test" }],
+    toJSONSchema: zodToJSONSchema,
+    operations: {
+      getUser: { summary: "Get user", tags: ["users"] },
+      ping: { method: "get", path: "/ping" },
+    },
+  });
+
+  it("document has 3.1 header and only contracts with http metadata", () => {
+    expect(document.openapi).toBe("3.1.0");
+    expect(document.info).toEqual({ title: "Users", version: "1.0.0" });
+    expect(document.servers).toEqual([{ url: "https://api.test" }]);
+    expect(Object.keys(document.paths)).toEqual([
+      "/users/{id}",
+      "/users",
+      "/ping",
+    ]);
+  });
+
+  it("path and search params become parameters", () => {
+    const operation = document.paths["/users/{id}"]!.get!;
+
+    expect(operation.operationId).toBe("getUser");
+    expect(operation.summary).toBe("Get user");
+    expect(operation.tags).toEqual(["users"]);
+    expect(operation.parameters).toEqual([
+      { name: "id", in: "path", required: true, schema: { type: "string" } },
+      {
+        name: "fields",
+        in: "query",
+        required: false,
+        schema: { type: "string" },
+      },
+    ]);
+  });
+
+  it("error variants are grouped by status", () => {
+    const responses = document.paths["/users/{id}"]!.get!.responses as Record<
+      string,
+      { description: string; content: unknown }
+    >;
+
+    expect(Object.keys(responses)).toEqual(["200", "401", "404"]);
+    expect(responses["404"]!.description).toBe("not_found");
+    expect(responses["401"]!.description).toBe("unauthorized | forbidden");
+    expect(responses["401"]!.content).toMatchObject({
+      "application/json": { schema: { oneOf: [{}, {}] } },
+    });
+  });
+
+  it("payload becomes request body and post responds with 201", () => {
+    const operation = document.paths["/users"]!.post!;
+
+    expect(operation.requestBody).toMatchObject({
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: { name: { type: "string", minLength: 1 } },
+            required: ["name"],
+          },
+        },
+      },
+    });
+    expect(Object.keys(operation.responses as object)).toEqual(["201"]);
+  });
+
+  it("operations describe contracts with hand-written resolvers", () => {
+    expect(document.paths["/ping"]!.get!.responses).toEqual({
+      "200": { description: "Success" },
+    });
+  });
+});
+
+describe("YAML serialization works when", () => {
+  it("nested objects, arrays and ambiguous scalars are handled", () => {
+    expect(
+      toYAML({
+        openapi: "3.1.0",
+        paths: { "/users": { get: { tags: ["users"], deprecated: false } } },
+        required: [{ name: "id", in: "path" }],
+        empty: {},
+        list: [],
+        flag: "true",
+      }),
+    ).toBe(
+      [
+        'openapi: "3.1.0"',
+        "paths:",
+        '  "/users":',
+        "    get:",
+        "      tags:",
+        "        - users",
+        "      deprecated: false",
+        "required:",
+        "  - name: id",
+        "    in: path",
+        "empty: {}",
+        "list: []",
+        'flag: "true"',
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import * as z from "zod";
+import { init } from "../core";
+import { zodCheck, zodPage, zodPageParams } from "../adapters/zod";
+import type { ErrorVariant, Paginated } from "../models";
+
+type Task = { id: number; title: string };
+
+type APIContracts = {
+  getTasks: Paginated<
+    Task,
+    ErrorVariant<"internal_server_error", 500>,
+    { status?: "todo" | "done" }
+  >;
+  getTask: {
+    dto: Task;
+    error: never;
+  };
+};
+
+const tasks: Task[] = Array.from({ length: 5 }, (_, index) => ({
+  id: index + 1,
+  title: `Task ${index + 1}`,
+}));
+
+const createApi = () => {
+  const getTasks = vi.fn(
+    async ({
+      searchParams,
+    }: {
+      searchParams: { cursor?: string; limit?: number; status?: string };
+    }) => {
+      const from = Number(searchParams.cursor ?? 0);
+      const to = from + (searchParams.limit ?? 2);
+
+      return {
+        items: tasks.slice(from, to),
+        nextCursor: to < tasks.length ? String(to) : null,
+      };
+    },
+  );
+
+  const api = init()<APIContracts>()({
+    getTasks: {
+      schemas: {
+        dto: zodCheck(zodPage(z.object({ id: z.number(), title: z.string() }))),
+        searchParams: zodCheck(
+          zodPageParams(10).extend({
+            status: z.enum(["todo", "done"]).optional(),
+          }),
+        ),
+      },
+      resolver: getTasks,
+    },
+    getTask: { resolver: async () => tasks[0]! },
+  });
+
+  return { api, getTasks };
+};
+
+describe("cursor pagination works when", () => {
+  it("paginate yields pages until the cursor runs out", async () => {
+    const { api, getTasks } = createApi();
+    const pages: Task[][] = [];
+
+    for await (const page of api.paginate("getTasks", {
+      searchParams: { limit: 2, status: "todo" },
+    })) {
+      expectTypeOf(page.items).toEqualTypeOf<Task[]>();
+      pages.push(page.items);
+    }
+
+    expect(pages.map((items) => items.map(({ id }) => id))).toEqual([
+      [1, 2],
+      [3, 4],
+      [5],
+    ]);
+    expect(getTasks.mock.calls.map(([input]) => input.searchParams)).toEqual([
+      { limit: 2, status: "todo" },
+      { limit: 2, status: "todo", cursor: "2" },
+      { limit: 2, status: "todo", cursor: "4" },
+    ]);
+  });
+
+  it("leaving the loop stops fetching", async () => {
+    const { api, getTasks } = createApi();
+
+    for await (const page of api.paginate("getTasks", { searchParams: {} })) {
+      expect(page.items).toHaveLength(2);
+      break;
+    }
+
+    expect(getTasks).toHaveBeenCalledTimes(1);
+  });
+
+  it("failed page is thrown from the iterator", async () => {
+    const { api, getTasks } = createApi();
+
+    getTasks.mockRejectedValueOnce(new Error("Database is down"));
+
+    await expect(async () => {
+      for await (const page of api.paginate("getTasks", { searchParams: {} })) {
+        expect(page).toBeUndefined();
+      }
+    }).rejects.toThrow("Database is down");
+  });
+
+  it("page params are validated", () => {
+    const { api } = createApi();
+
+    expect(() =>
+      api.searchParams("getTasks", { cursor: "", limit: 11 }),
+    ).toThrow();
+    expect(zodPageParams().parse({ cursor: "abc", limit: "20" })).toEqual({
+      cursor: "abc",
+      limit: 20,
+    });
+  });
+
+  it("only paginated contracts can be paginated", () => {
+    const { api } = createApi();
+
+    // @ts-expect-error - "getTask" dto is not a page
+    void api.paginate("getTask");
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import * as z from "zod";
+import { init } from "../core";
+import { zodCheck } from "../adapters/zod";
+import { ValidationException } from "../models";
+
+describe("parse mode works when", () => {
+  const userId = z.string().brand("userId");
+  const dtoSchema = z.object({
+    id: userId,
+    name: z.string().trim(),
+    role: z.enum(["admin", "user"]).default("user"),
+  });
+  const payloadSchema = z.object({
+    name: z.string().trim().min(3),
+    age: z.coerce.number(),
+  });
+  const pathParamsSchema = z.object({ id: z.coerce.number() });
+  const searchParamsSchema = z.object({
+    limit: z.coerce.number().default(10),
+  });
+
+  type APIContracts = {
+    get: {
+      dto: z.output<typeof dtoSchema>;
+      error: null;
+      pathParams: z.output<typeof pathParamsSchema>;
+      searchParams: z.output<typeof searchParamsSchema>;
+    };
+    post: {
+      dto: z.output<typeof dtoSchema>;
+      error: null;
+      payload: z.output<typeof payloadSchema>;
+    };
+    plain: {
+      dto: { id: number };
+      error: null;
+      payload: { name: string };
+    };
+  };
+
+  const getResolver = vi.fn();
+  const postResolver = vi.fn();
+
+  const api = init(undefined, { mode: "parse" })<APIContracts>()({
+    get: {
+      resolver: getResolver,
+      schemas: {
+        dto: zodCheck(dtoSchema),
+        pathParams: zodCheck(pathParamsSchema),
+        searchParams: zodCheck(searchParamsSchema),
+      },
+    },
+    post: {
+      resolver: postResolver,
+      schemas: {
+        dto: zodCheck(dtoSchema),
+        payload: zodCheck(payloadSchema),
+      },
+    },
+    plain: {
+      resolver: () => Promise.resolve({ id: 1 }),
+    },
+  });
+
+  it("resolver receives the parsed input", async () => {
+    getResolver.mockResolvedValue({ id: "1", name: "Tom" });
+
+    await api.call("get", {
+      pathParams: { id: "12" },
+      searchParams: {},
+    });
+
+    expect(getResolver).toHaveBeenCalledWith({
+      pathParams: { id: 12 },
+      searchParams: { limit: 10 },
+    });
+  });
+
+  it("call returns the parsed dto", async () => {
+    postResolver.mockResolvedValue({ id: "1", name: "  Tom  ", extra: true });
+
+    const dto = await api.call("post", {
+      payload: { name: "  Tom  ", age: "20" },
+    });
+
+    expect(postResolver).toHaveBeenCalledWith({
+      payload: { name: "Tom", age: 20 },
+    });
+    expect(dto).toEqual({ id: "1", name: "Tom", role: "user" });
+    expectTypeOf(dto).toEqualTypeOf<z.output<typeof dtoSchema>>();
+  });
+
+  it("standalone helpers return the parsed value", () => {
+    const payload = api.payload("post", { name: " Anna ", age: "31" });
+    const pathParams = api.pathParams("get", { id: "5" });
+    const searchParams = api.searchParams("get", {});
+    const dto = api.dto("get", { id: "1", name: "Anna " });
+
+    expect(payload).toEqual({ name: "Anna", age: 31 });
+    expect(pathParams).toEqual({ id: 5 });
+    expect(searchParams).toEqual({ limit: 10 });
+    expect(dto).toEqual({ id: "1", name: "Anna", role: "user" });
+
+    expectTypeOf(payload).toEqualTypeOf<z.output<typeof payloadSchema>>();
+    expectTypeOf(dto).toEqualTypeOf<z.output<typeof dtoSchema>>();
+  });
+
+  it("inputs are typed with the schema input type", () => {
+    expectTypeOf(api.dto<"get">)
+      .parameter(1)
+      .toEqualTypeOf<z.input<typeof dtoSchema>>();
+    expectTypeOf(api.payload<"post">)
+      .parameter(1)
+      .toEqualTypeOf<z.input<typeof payloadSchema>>();
+
+    // Unbranded id is accepted because the schema brands it
+    api.dto("get", { id: "1", name: "Anna" });
+    expect(() =>
+      // @ts-expect-error - wrong id type
+      api.dto("get", { id: 1, name: "Anna" }),
+    ).toThrow(ValidationException);
+  });
+
+  it("slots without schema keep the contract type", () => {
+    const payload = api.payload("plain", { name: "Tom" });
+
+    expect(payload).toEqual({ name: "Tom" });
+    expectTypeOf(api.payload<"plain">)
+      .parameter(1)
+      .toEqualTypeOf<{ name: string }>();
+  });
+
+  it("invalid input still throws ValidationException", async () => {
+    await expect(
+      api.call("post", { payload: { name: "a", age: 1 } }),
+    ).rejects.toThrow(ValidationException);
+    expect(postResolver).not.toHaveBeenCalledWith({
+      payload: { name: "a", age: 1 },
+    });
+  });
+});
+
+describe("validate mode works when", () => {
+  it("the original value is returned even if schema transforms it", async () => {
+    const schema = z.object({ name: z.string().trim() });
+
+    type APIContracts = {
+      post: {
+        dto: z.output<typeof schema>;
+        error: null;
+        payload: z.output<typeof schema>;
+      };
+    };
+
+    const resolver = vi.fn().mockResolvedValue({ name: " dto " });
+    const api = init()<APIContracts>()({
+      post: {
+        resolver,
+        schemas: {
+          dto: zodCheck(schema),
+          payload: zodCheck(schema),
+        },
+      },
+    });
+
+    const dto = await api.call("post", { payload: { name: " payload " } });
+
+    expect(resolver).toHaveBeenCalledWith({ payload: { name: " payload " } });
+    expect(dto).toEqual({ name: " dto " });
+    expect(api.payload("post", { name: " x " })).toEqual({ name: " x " });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+import { init } from "../core";
+import { match } from "../match";
+import { HttpException, type ErrorVariant, type ParsedError } from "../models";
+import { parseError } from "../adapters/fetch";
+
+type APIContracts = {
+  getUser: {
+    dto: { id: number };
+    error: ErrorVariant<"not_found", 404> | ErrorVariant<"unauthorized", 401>;
+    pathParams: { id: number };
+  };
+};
+
+const notFound = () =>
+  new HttpException(new Response(null, { status: 404 }), {
+    type: "not_found",
+    status: 404,
+    message: "User not found",
+  });
+
+const createApi = () =>
+  init(undefined, { parseError })<APIContracts>()({
+    getUser: {
+      resolver: async ({ pathParams }) => {
+        if (pathParams.id === 404) {
+          throw notFound();
+        }
+
+        return { id: pathParams.id };
+      },
+    },
+  });
+
+describe("registered error parser works when", () => {
+  it("safeCall resolves with parsed and typed error", async () => {
+    const api = createApi();
+
+    const [ok, error] = await api.safeCall("getUser", {
+      pathParams: { id: 404 },
+    });
+
+    expect(ok).toBe(false);
+    expect(error).toMatchObject({
+      type: "not_found",
+      status: 404,
+      message: "User not found",
+    });
+
+    if (!ok) {
+      expectTypeOf(error).toEqualTypeOf<ParsedError<APIContracts, "getUser">>();
+    }
+  });
+
+  it("onFail receives parsed error with the raw one attached", async () => {
+    const api = createApi();
+    const onFail = vi.fn();
+
+    api.onFail("getUser", ({ error }) => {
+      expectTypeOf(error).toEqualTypeOf<ParsedError<APIContracts, "getUser">>();
+      onFail(error);
+    });
+
+    await api.safeCall("getUser", { pathParams: { id: 404 } });
+
+    expect(onFail.mock.calls[0]![0].type).toBe("not_found");
+    expect(HttpException.is(onFail.mock.calls[0]![0].rawError)).toBe(true);
+  });
+
+  it("call still throws the original error", async () => {
+    const api = createApi();
+
+    await expect(
+      api.call("getUser", { pathParams: { id: 404 } }),
+    ).rejects.toBeInstanceOf(HttpException);
+  });
+
+  it("errors stay raw and unknown without parser", async () => {
+    const api = init()<APIContracts>()({
+      getUser: {
+        resolver: async () => {
+          throw notFound();
+        },
+      },
+    });
+
+    const [ok, error] = await api.safeCall("getUser", {
+      pathParams: { id: 1 },
+    });
+
+    expect(ok).toBe(false);
+    expect(HttpException.is(error)).toBe(true);
+
+    if (!ok) {
+      expectTypeOf(error).toEqualTypeOf<unknown>();
+    }
+  });
+});
+
+describe("match works when", () => {
+  const error = { type: "unauthorized", status: 401, message: "Log in" } as
+    | ErrorVariant<"not_found", 404>
+    | ErrorVariant<"unauthorized", 401>
+    | ErrorVariant<"validation_error", -6, { issues: string[] }>;
+
+  it("handler of the error type is called with narrowed error", () => {
+    const result = match(error, {
+      not_found: () => 404,
+      unauthorized: (e) => e.message,
+      validation_error: (e) => e.meta.issues,
+    });
+
+    expect(result).toBe("Log in");
+    expectTypeOf(result).toEqualTypeOf<number | string | string[]>();
+  });
+
+  it("missing and unknown handlers are rejected by the compiler", () => {
+    // @ts-expect-error - "validation_error" handler is missing
+    match(error, {
+      not_found: () => 0,
+      unauthorized: () => 0,
+    });
+
+    match(error, {
+      not_found: () => 0,
+      unauthorized: () => 0,
+      validation_error: () => 0,
+      // @ts-expect-error - "aborted" is not part of the union
+      aborted: () => 0,
+    });
+  });
+
+  it("parsed errors include browser errors", async () => {
+    const [, parsed] = await createApi().safeCall("getUser", {
+      pathParams: { id: 404 },
+    });
+
+    const status = match(parsed as ParsedError<APIContracts, "getUser">, {
+      not_found: () => "missing",
+      unauthorized: () => "login",
+      aborted: () => "aborted",
+      client_exception: () => "bug",
+      no_internet: () => "offline",
+      no_server_response: () => "down",
+      configuration_issue: () => "bug",
+      unsupported_server_response: () => "bug",
+      validation_error: () => "bug",
+    });
+
+    expect(status).toBe("missing");
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { init } from "../core";
+import { parseError } from "../adapters/fetch";
+import { createMemoryQueueStorage, createWebQueueStorage } from "../queue";
+import {
+  HttpException,
+  NetworkException,
+  QueuedException,
+  type ErrorVariant,
+  type QueuePolicy,
+  type QueueStorage,
+} from "../models";
+
+type APIContracts = {
+  createTask: {
+    dto: { id: number; title: string };
+    error: ErrorVariant<"conflict", 409>;
+    payload: { title: string };
+  };
+  getTasks: {
+    dto: { id: number }[];
+    error: never;
+  };
+};
+
+const offline = () => new NetworkException(new TypeError("Failed to fetch"));
+
+const conflict = () =>
+  new HttpException(new Response(null, { status: 409 }), {
+    type: "conflict",
+    status: 409,
+    message: "Title taken",
+  });
+
+describe("offline queue works when", () => {
+  const createTask =
+    vi.fn<
+      (input: {
+        payload: { title: string };
+      }) => Promise<APIContracts["createTask"]["dto"]>
+    >();
+  const getTasks = vi.fn<() => Promise<APIContracts["getTasks"]["dto"]>>();
+
+  const createApi = (
+    storage?: QueueStorage,
+    policy: Partial<QueuePolicy<APIContracts, "createTask">> = {},
+  ) =>
+    init(undefined, { queue: { storage } })<APIContracts>()({
+      createTask: {
+        resolver: createTask,
+        queue: { parseError, ...policy },
+      },
+      getTasks: { resolver: getTasks },
+    });
+
+  beforeEach(() => {
+    createTask
+      .mockReset()
+      .mockImplementation(async ({ payload }) => ({ id: 1, ...payload }));
+    getTasks.mockReset().mockRejectedValue(offline());
+  });
+
+  it("call failed for connectivity is queued and rejects right away", async () => {
+    const api = createApi();
+    const onFail = vi.fn();
+    const onOk = vi.fn();
+    api.onFail("createTask", onFail);
+    api.onOk("createTask", onOk);
+    createTask.mockRejectedValueOnce(offline());
+
+    const error = await api
+      .call("createTask", { payload: { title: "Write" } })
+      .catch((e: unknown) => e);
+
+    expect(QueuedException.is(error)).toBe(true);
+    expect((error as QueuedException).entry).toEqual(api.queue.entries()[0]);
+    expect((error as QueuedException).error).toBeInstanceOf(NetworkException);
+    expect(api.queue.entries()[0]).toMatchObject({
+      key: "createTask",
+      input: { payload: { title: "Write" } },
+    });
+    expect(onFail).toHaveBeenCalledTimes(1);
+
+    await api.queue.flush();
+
+    expect(onOk).toHaveBeenCalledWith(
+      expect.objectContaining({ dto: { id: 1, title: "Write" } }),
+    );
+    expect(api.queue.entries()).toEqual([]);
+  });
+
+  it("queued call is parsed like the failure that queued it", async () => {
+    const api = createApi();
+    createTask.mockRejectedValueOnce(offline());
+
+    const [ok, error] = await api.safeCall("createTask", {
+      payload: { title: "Write" },
+    });
+
+    expect(ok).toBe(false);
+    expect(parseError("createTask", error)).toMatchObject({
+      type: "no_server_response",
+      rawError: expect.any(QueuedException),
+    });
+  });
+
+  it("with awaitReplay the call resolves when replayed", async () => {
+    const api = createApi(undefined, { awaitReplay: true });
+    createTask.mockRejectedValueOnce(offline());
+
+    const pending = api.call("createTask", { payload: { title: "Write" } });
+
+    await vi.waitFor(() => expect(api.queue.entries()).toHaveLength(1));
+    await api.queue.flush();
+
+    await expect(pending).resolves.toEqual({ id: 1, title: "Write" });
+    expect(api.queue.entries()).toEqual([]);
+  });
+
+  it("queued calls are replayed in order and replay stops while offline", async () => {
+    const api = createApi(undefined, { awaitReplay: true });
+    createTask
+      .mockRejectedValueOnce(offline())
+      .mockRejectedValueOnce(offline());
+
+    void api.call("createTask", { payload: { title: "First" } });
+    void api.call("createTask", { payload: { title: "Second" } });
+
+    await vi.waitFor(() => expect(api.queue.entries()).toHaveLength(2));
+
+    createTask.mockRejectedValueOnce(offline());
+    await api.queue.flush();
+
+    expect(api.queue.entries()).toHaveLength(2);
+
+    await api.queue.flush();
+
+    expect(createTask.mock.calls.map(([input]) => input.payload.title)).toEqual(
+      ["First", "Second", "First", "First", "Second"],
+    );
+    expect(api.queue.entries()).toEqual([]);
+  });
+
+  it("other failures and contracts without a policy are not queued", async () => {
+    const api = createApi();
+    createTask.mockRejectedValueOnce(conflict());
+
+    await expect(
+      api.call("createTask", { payload: { title: "Write" } }),
+    ).rejects.toBeInstanceOf(HttpException);
+    await expect(api.call("getTasks")).rejects.toBeInstanceOf(NetworkException);
+    expect(api.queue.entries()).toEqual([]);
+  });
+
+  it("conflict hook can replay with resolved input", async () => {
+    const onConflict = vi.fn(() => ({ payload: { title: "Write (2)" } }));
+    const api = createApi(undefined, { onConflict, awaitReplay: true });
+    createTask
+      .mockRejectedValueOnce(offline())
+      .mockRejectedValueOnce(conflict());
+
+    const pending = api.call("createTask", { payload: { title: "Write" } });
+
+    await vi.waitFor(() => expect(api.queue.entries()).toHaveLength(1));
+    await api.queue.flush();
+
+    await expect(pending).resolves.toEqual({ id: 1, title: "Write (2)" });
+    expect(onConflict).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "conflict", status: 409 }),
+      expect.objectContaining({ input: { payload: { title: "Write" } } }),
+    );
+  });
+
+  it("conflicted call is dropped and rejected without resolution", async () => {
+    const api = createApi(undefined, { awaitReplay: true });
+    createTask
+      .mockRejectedValueOnce(offline())
+      .mockRejectedValueOnce(conflict());
+
+    const pending = api.call("createTask", { payload: { title: "Write" } });
+
+    await vi.waitFor(() => expect(api.queue.entries()).toHaveLength(1));
+    await api.queue.flush();
+
+    await expect(pending).rejects.toBeInstanceOf(HttpException);
+    expect(api.queue.entries()).toEqual([]);
+  });
+
+  it("custom predicate decides what is queued", async () => {
+    const api = createApi(undefined, {
+      queueIf: (error) => error.type === "conflict",
+    });
+    createTask.mockRejectedValueOnce(offline());
+
+    await expect(
+      api.call("createTask", { payload: { title: "Write" } }),
+    ).rejects.toBeInstanceOf(NetworkException);
+  });
+
+  it("removed call is rejected and listeners are notified", async () => {
+    const api = createApi(undefined, { awaitReplay: true });
+    const listener = vi.fn();
+    api.queue.subscribe(listener);
+    createTask.mockRejectedValueOnce(offline());
+
+    const pending = api.call("createTask", { payload: { title: "Write" } });
+
+    await vi.waitFor(() => expect(api.queue.entries()).toHaveLength(1));
+    await api.queue.remove(api.queue.entries()[0]!.id);
+
+    await expect(pending).rejects.toThrow("was removed");
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenLastCalledWith([]);
+  });
+
+  it("queue is persisted and restored after reload", async () => {
+    const storage = createWebQueueStorage(sessionStorage, "queue-test");
+    const api = createApi(storage);
+    createTask.mockRejectedValueOnce(offline());
+
+    await expect(
+      api.call("createTask", { payload: { title: "Write" } }),
+    ).rejects.toBeInstanceOf(QueuedException);
+
+    expect(sessionStorage.getItem("queue-test")).toContain("Write");
+
+    // Restored calls are replayed right away when online
+    const reloaded = createApi(storage);
+
+    await vi.waitFor(() => expect(createTask).toHaveBeenCalledTimes(2));
+    await vi.waitFor(() => expect(reloaded.queue.entries()).toEqual([]));
+    expect(createTask).toHaveBeenLastCalledWith({
+      payload: { title: "Write" },
+    });
+    expect(sessionStorage.getItem("queue-test")).toBe("[]");
+  });
+
+  it("queued calls are replayed when the browser goes online", async () => {
+    const api = createApi(createMemoryQueueStorage(), { awaitReplay: true });
+    createTask.mockRejectedValueOnce(offline());
+
+    const pending = api.call("createTask", { payload: { title: "Write" } });
+
+    await vi.waitFor(() => expect(api.queue.entries()).toHaveLength(1));
+    window.dispatchEvent(new Event("online"));
+
+    await expect(pending).resolves.toEqual({ id: 1, title: "Write" });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import { init } from "../core";
+import { getRetryDelay, isRetryableError } from "../retry";
+import type { BrowserError, ErrorVariant, ParsedError } from "../models";
+
+type APIContracts = {
+  get: {
+    dto: { id: number };
+    error: ErrorVariant<"bad_request", 400> | ErrorVariant<"server", 500>;
+    extra: { signal: AbortSignal };
+  };
+};
+
+// Resolvers in tests reject with already shaped errors
+const parseError = (_key: "get", error: unknown) =>
+  ({ ...(error as object), rawError: error }) as ParsedError<
+    APIContracts,
+    "get"
+  >;
+
+const noServerResponse: BrowserError = {
+  type: "no_server_response",
+  status: -3,
+  message: "No server response",
+};
+const badRequest = { type: "bad_request", status: 400, message: "Bad" };
+const serverError = { type: "server", status: 500, message: "Server" };
+
+describe("retry policy works when", () => {
+  const resolver = vi.fn();
+
+  const createApi = (
+    retry: {
+      attempts?: number;
+      retryIf?: (
+        error: ParsedError<APIContracts, "get">,
+        attempt: number,
+      ) => boolean;
+    } = {},
+  ) =>
+    init()<APIContracts>()({
+      get: {
+        resolver,
+        retry: {
+          attempts: 3,
+          backoff: () => 0,
+          parseError,
+          ...retry,
+        },
+      },
+    });
+
+  const call = (
+    api: ReturnType<typeof createApi>,
+    signal = new AbortController().signal,
+  ) => api.call("get", { extra: { signal } });
+
+  beforeEach(() => {
+    resolver.mockReset();
+  });
+
+  it("retryable failures are repeated until success", async () => {
+    const api = createApi();
+    resolver
+      .mockRejectedValueOnce(noServerResponse)
+      .mockRejectedValueOnce(serverError)
+      .mockResolvedValueOnce({ id: 1 });
+
+    expect(await call(api)).toEqual({ id: 1 });
+    expect(resolver).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after max attempts and reports attempt number to onFail", async () => {
+    const api = createApi();
+    const onFail = vi.fn();
+    api.onFail("get", onFail);
+    resolver.mockRejectedValue(serverError);
+
+    await expect(call(api)).rejects.toBe(serverError);
+    expect(resolver).toHaveBeenCalledTimes(3);
+    expect(onFail).toHaveBeenCalledTimes(1);
+    expect(onFail.mock.calls[0]?.[0]).toMatchObject({
+      error: serverError,
+      attempt: 3,
+    });
+  });
+
+  it("non retryable errors fail on first attempt by default", async () => {
+    const api = createApi();
+    const onFail = vi.fn();
+    api.onFail("get", onFail);
+    resolver.mockRejectedValue(badRequest);
+
+    await expect(call(api)).rejects.toBe(badRequest);
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(onFail.mock.calls[0]?.[0].attempt).toBe(1);
+  });
+
+  it("custom predicate decides based on parsed error and attempt", async () => {
+    const retryIf = vi.fn(
+      (error: ParsedError<APIContracts, "get">, attempt: number) =>
+        error.type === "bad_request" && attempt < 2,
+    );
+    const api = createApi({ retryIf, attempts: 5 });
+    resolver.mockRejectedValue(badRequest);
+
+    await expect(call(api)).rejects.toBe(badRequest);
+    expect(resolver).toHaveBeenCalledTimes(2);
+    expect(retryIf).toHaveBeenNthCalledWith(
+      1,
+      { ...badRequest, rawError: badRequest },
+      1,
+    );
+  });
+
+  it("abort during backoff stops retrying", async () => {
+    const controller = new AbortController();
+    const api = init()<APIContracts>()({
+      get: {
+        resolver,
+        retry: { attempts: 3, delay: 10_000, parseError },
+      },
+    });
+    resolver.mockImplementation(async () => {
+      setTimeout(() => controller.abort(), 5);
+      throw serverError;
+    });
+
+    await expect(call(api, controller.signal)).rejects.toBe(serverError);
+    expect(resolver).toHaveBeenCalledTimes(1);
+  });
+
+  it("already aborted calls are not retried", async () => {
+    const controller = new AbortController();
+    const api = createApi();
+    resolver.mockImplementation(async () => {
+      controller.abort();
+      throw noServerResponse;
+    });
+
+    await expect(call(api, controller.signal)).rejects.toBe(noServerResponse);
+    expect(resolver).toHaveBeenCalledTimes(1);
+  });
+
+  it("contracts without policy are called once and have no attempt in onFail", async () => {
+    const api = init()<APIContracts>()({ get: { resolver } });
+    const onFail = vi.fn();
+    api.onFail("get", onFail);
+    resolver.mockRejectedValue(serverError);
+
+    await expect(call(api)).rejects.toBe(serverError);
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect("attempt" in onFail.mock.calls[0]![0]).toBe(false);
+  });
+});
+
+describe("retry delay works when", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("exponential backoff doubles the base delay", () => {
+    expect(getRetryDelay({ delay: 100 }, 1)).toBe(100);
+    expect(getRetryDelay({ delay: 100 }, 2)).toBe(200);
+    expect(getRetryDelay({ delay: 100 }, 3)).toBe(400);
+  });
+
+  it("delay is limited by maxDelay", () => {
+    expect(getRetryDelay({ delay: 100, maxDelay: 250 }, 3)).toBe(250);
+    expect(getRetryDelay({ backoff: () => 1000, maxDelay: 500 }, 1)).toBe(500);
+  });
+
+  it("jitter picks a random delay up to the exponential one", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(getRetryDelay({ backoff: "jitter", delay: 100 }, 3)).toBe(200);
+  });
+
+  it("custom backoff receives the attempt number", () => {
+    const backoff = vi.fn((attempt: number) => attempt * 10);
+
+    expect(getRetryDelay({ backoff }, 4)).toBe(40);
+    expect(backoff).toHaveBeenCalledWith(4);
+  });
+});
+
+describe("isRetryableError works when", () => {
+  it("only no_server_response and 5xx are retryable", () => {
+    expect(isRetryableError(noServerResponse)).toBe(true);
+    expect(isRetryableError(serverError)).toBe(true);
+    expect(isRetryableError(badRequest)).toBe(false);
+    expect(
+      isRetryableError({ type: "aborted", status: 0, message: "Aborted" }),
+    ).toBe(false);
+    expect(
+      isRetryableError({
+        type: "no_internet",
+        status: -2,
+        message: "No internet",
+      }),
+    ).toBe(false);
+  });
+});
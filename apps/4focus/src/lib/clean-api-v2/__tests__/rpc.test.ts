@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { init } from "../core";
+import { parseError } from "../adapters/fetch";
+import { type ErrorVariant, type RPCRequest } from "../models";
+
+type APIContracts = {
+  getTask: {
+    dto: { id: number; title: string };
+    error: ErrorVariant<"not_found", 404>;
+    pathParams: { id: number };
+    searchParams: { fields?: string[] };
+    extra: { signal: AbortSignal };
+  };
+  createTask: {
+    dto: { id: number; title: string };
+    error: ErrorVariant<"bad_request", 400>;
+    payload: { title: string };
+  };
+  getHealth: {
+    dto: string;
+    error: never;
+  };
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const readBody = (call: Parameters<typeof fetch>) =>
+  JSON.parse(String(call[1]?.body)) as RPCRequest;
+
+describe("rpc contracts work when", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  const createApi = (rpc = true) =>
+    init(undefined, {
+      parseError,
+      http: {
+        baseURL: "https://api.test",
+        headers: { Authorization: "Bearer token" },
+        fetch: fetchMock,
+        ...(rpc ? { rpc: { path: "/rpc" as const } } : {}),
+      },
+    })<APIContracts>()({
+      getTask: { rpc: true },
+      createTask: { rpc: true },
+      getHealth: { resolver: async () => "ok" },
+    });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it("key and input are posted to the route of the key", async () => {
+    const api = createApi();
+    const controller = new AbortController();
+    fetchMock.mockResolvedValue(json({ id: 1, title: "Write" }));
+
+    const task = await api.call("getTask", {
+      pathParams: { id: 1 },
+      searchParams: { fields: ["title"] },
+      extra: { signal: controller.signal },
+    });
+
+    expect(task).toEqual({ id: 1, title: "Write" });
+    expect(fetchMock).toHaveBeenCalledWith("https://api.test/rpc/getTask", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: "Bearer token",
+      },
+      body: expect.any(String),
+      signal: controller.signal,
+    });
+    expect(readBody(fetchMock.mock.calls[0]!)).toEqual({
+      key: "getTask",
+      input: { pathParams: { id: 1 }, searchParams: { fields: ["title"] } },
+    });
+  });
+
+  it("payload is sent in the input", async () => {
+    const api = createApi();
+    fetchMock.mockResolvedValue(json({ id: 2, title: "Read" }, 201));
+
+    await api.call("createTask", { payload: { title: "Read" } });
+
+    expect(readBody(fetchMock.mock.calls[0]!)).toEqual({
+      key: "createTask",
+      input: { payload: { title: "Read" } },
+    });
+  });
+
+  it("errors returned by the route are typed ones", async () => {
+    const api = createApi();
+    fetchMock.mockResolvedValue(
+      json(
+        { type: "bad_request", status: 400, message: "Title is taken" },
+        400,
+      ),
+    );
+
+    const [ok, error] = await api.safeCall("createTask", {
+      payload: { title: "Read" },
+    });
+
+    expect(ok).toBe(false);
+    expect(error).toMatchObject({
+      type: "bad_request",
+      status: 400,
+      message: "Title is taken",
+    });
+  });
+
+  it("hand-written resolvers can be mixed with rpc ones", async () => {
+    const api = createApi();
+
+    expect(await api.call("getHealth")).toBe("ok");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("rpc contracts fail without the route", async () => {
+    const api = createApi(false);
+
+    await expect(
+      api.call("createTask", { payload: { title: "Read" } }),
+    ).rejects.toThrow('Contract "createTask" needs the "http.rpc" option');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("rpc is exclusive with other resolvers", () => {
+    init()<APIContracts>()({
+      getTask: { rpc: true },
+      createTask: { rpc: true },
+      // @ts-expect-error - resolver and rpc are mutually exclusive
+      getHealth: { rpc: true, resolver: async () => "ok" },
+    });
+  });
+});
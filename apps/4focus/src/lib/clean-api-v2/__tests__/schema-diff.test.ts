@@ -0,0 +1,264 @@
+import { describe, expect, it } from "vitest";
+import * as z from "zod";
+import { init } from "../core";
+import { zodCheck, zodToJSONSchema } from "../adapters/zod";
+import { diffSnapshots, snapshotContracts } from "../schema-diff";
+
+const notFound = z.object({
+  type: z.literal("not_found"),
+  status: z.literal(404),
+  message: z.string(),
+});
+
+const status = z.enum(["todo", "pending", "done"]);
+
+const task = z.object({
+  id: z.number(),
+  title: z.string().min(1).max(100),
+  status,
+});
+
+const createPayload = z.object({
+  title: z.string().min(1).max(100),
+  status,
+});
+
+type Schemas = {
+  dto: z.ZodType;
+  error: z.ZodType;
+  payload: z.ZodType;
+};
+
+type APIContracts = {
+  createTask: {
+    dto: unknown;
+    error: unknown;
+    payload: unknown;
+  };
+  getTask: {
+    dto: unknown;
+    error: unknown;
+    pathParams: { id: number };
+  };
+};
+
+const snapshot = (schemas: Partial<Schemas> = {}) => {
+  const api = init()<APIContracts>()({
+    createTask: {
+      schemas: {
+        dto: zodCheck(schemas.dto ?? task),
+        error: zodCheck(schemas.error ?? notFound),
+        payload: zodCheck(schemas.payload ?? createPayload),
+      },
+      resolver: async () => undefined,
+    },
+    getTask: {
+      schemas: {
+        dto: zodCheck(task),
+        pathParams: zodCheck(z.object({ id: z.coerce.number() })),
+      },
+      resolver: async () => undefined,
+    },
+  });
+
+  return snapshotContracts(api, { toJSONSchema: zodToJSONSchema });
+};
+
+describe("contracts schema diff works when", () => {
+  it("snapshot has JSON Schema of every slot with a schema", () => {
+    const result = snapshot();
+
+    expect(Object.keys(result)).toEqual(["createTask", "getTask"]);
+    expect(Object.keys(result.createTask!)).toEqual([
+      "payload",
+      "dto",
+      "error",
+    ]);
+    expect(result.getTask!.pathParams).toMatchObject({
+      type: "object",
+      properties: { id: { type: "number" } },
+    });
+    expect(diffSnapshots(snapshot(), snapshot())).toEqual({
+      breaking: false,
+      changes: [],
+    });
+  });
+
+  it("narrowed request and widened response values are breaking", () => {
+    const narrowed = z.enum(["todo", "done"]);
+    const widened = z.enum(["todo", "pending", "done", "archived"]);
+
+    const report = diffSnapshots(
+      snapshot(),
+      snapshot({
+        payload: createPayload.extend({ status: narrowed }),
+        dto: task.extend({ status: widened }),
+      }),
+    );
+
+    expect(report.breaking).toBe(true);
+    expect(report.changes).toEqual([
+      expect.objectContaining({
+        key: "createTask",
+        slot: "payload",
+        path: ["status"],
+        kind: "narrowed",
+        breaking: true,
+      }),
+      expect.objectContaining({
+        key: "createTask",
+        slot: "dto",
+        path: ["status"],
+        kind: "widened",
+        breaking: true,
+      }),
+    ]);
+  });
+
+  it("widened request and narrowed response values are not breaking", () => {
+    const report = diffSnapshots(
+      snapshot(),
+      snapshot({
+        payload: createPayload.extend({ title: z.string().max(200) }),
+        dto: task.extend({ title: z.string().min(1).max(50) }),
+      }),
+    );
+
+    expect(report.breaking).toBe(false);
+    expect(report.changes).toEqual([
+      expect.objectContaining({
+        slot: "payload",
+        path: ["title"],
+        kind: "widened",
+        message: '"minLength" changed from 1 to none',
+      }),
+      expect.objectContaining({
+        slot: "payload",
+        path: ["title"],
+        kind: "widened",
+        message: '"maxLength" changed from 100 to 200',
+      }),
+      expect.objectContaining({
+        slot: "dto",
+        path: ["title"],
+        kind: "narrowed",
+        message: '"maxLength" changed from 100 to 50',
+      }),
+    ]);
+  });
+
+  it("properties are classified by slot direction and requirement", () => {
+    const report = diffSnapshots(
+      snapshot(),
+      snapshot({
+        payload: createPayload.extend({
+          description: z.string(),
+          priority: z.number().optional(),
+        }),
+        dto: task.omit({ title: true }).extend({ tags: z.array(z.string()) }),
+      }),
+    );
+
+    expect(
+      report.changes.map(({ slot, path, kind, breaking }) => ({
+        slot,
+        path,
+        kind,
+        breaking,
+      })),
+    ).toEqual([
+      {
+        slot: "payload",
+        path: ["description"],
+        kind: "added",
+        breaking: true,
+      },
+      {
+        slot: "payload",
+        path: ["priority"],
+        kind: "added",
+        breaking: false,
+      },
+      { slot: "dto", path: ["title"], kind: "removed", breaking: true },
+      { slot: "dto", path: ["tags"], kind: "added", breaking: false },
+    ]);
+  });
+
+  it("union variants are paired, added ones widen the slot", () => {
+    const forbidden = z.object({
+      type: z.literal("forbidden"),
+      status: z.literal(403),
+      message: z.string(),
+    });
+
+    const report = diffSnapshots(
+      snapshot(),
+      snapshot({
+        dto: task.extend({ status: status.nullable() }),
+        error: z.union([notFound, forbidden]),
+      }),
+    );
+
+    expect(report.changes).toEqual([
+      expect.objectContaining({
+        slot: "dto",
+        path: ["status"],
+        kind: "widened",
+        breaking: true,
+        message: "Variant null was added",
+      }),
+      expect.objectContaining({
+        slot: "error",
+        path: [],
+        kind: "widened",
+        breaking: true,
+        message: 'Variant object(type="forbidden", status=403) was added',
+      }),
+    ]);
+  });
+
+  it("changed types, array items and contracts are reported", () => {
+    const previous = snapshot();
+    const { getTask, ...next } = snapshot({
+      dto: z.array(task.extend({ id: z.string() })),
+    });
+
+    const report = diffSnapshots(previous, { ...next, listTasks: getTask! });
+
+    expect(report.changes).toEqual([
+      expect.objectContaining({
+        key: "createTask",
+        slot: "dto",
+        path: [],
+        kind: "changed",
+        message: 'Type changed from "object" to "array"',
+      }),
+      {
+        key: "getTask",
+        path: [],
+        kind: "removed",
+        breaking: true,
+        message: 'Contract "getTask" was removed',
+      },
+      {
+        key: "listTasks",
+        path: [],
+        kind: "added",
+        breaking: false,
+        message: 'Contract "listTasks" was added',
+      },
+    ]);
+    expect(
+      diffSnapshots(
+        snapshot({ dto: z.array(task) }),
+        snapshot({ dto: z.array(task.extend({ id: z.string() })) }),
+      ).changes,
+    ).toEqual([
+      expect.objectContaining({
+        path: ["[]", "id"],
+        kind: "changed",
+        breaking: true,
+      }),
+    ]);
+  });
+});
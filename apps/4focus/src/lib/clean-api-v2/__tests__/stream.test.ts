@@ -0,0 +1,348 @@
+import { describe, expect, it, vi } from "vitest";
+import * as z from "zod";
+import { init } from "../core";
+import { parseError } from "../adapters/fetch";
+import { zodCheck } from "../adapters/zod";
+import { HttpException, StreamEvent, type ErrorVariant } from "../models";
+import { readSSE, toSSEResponse } from "../sse";
+
+type APIContracts = {
+  watchTimer: {
+    dto: { seconds: number };
+    error: ErrorVariant<"internal_server_error", 500>;
+    pathParams: { id: number };
+  };
+  watchSession: {
+    dto: { status: "active" | "completed" };
+    error: ErrorVariant<"unauthorized", 401>;
+  };
+  getSession: {
+    dto: { status: "active" | "completed" };
+    error: never;
+  };
+};
+
+const offline = () => new TypeError("Failed to fetch");
+
+const collect = async <T>(source: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+
+  for await (const item of source) {
+    items.push(item);
+  }
+
+  return items;
+};
+
+const sseBody = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start: (controller) => {
+      for (const chunk of chunks) {
+        controller.enqueue(new TextEncoder().encode(chunk));
+      }
+
+      controller.close();
+    },
+  });
+
+describe("streaming contracts work when", () => {
+  const createApi = (
+    stream: (input: {
+      pathParams: { id: number };
+      lastEventId?: string;
+      signal: AbortSignal;
+    }) => AsyncIterable<{ seconds: number } | StreamEvent<{ seconds: number }>>,
+    fetchMock?: typeof fetch,
+  ) =>
+    init(undefined, {
+      parseError,
+      http: { fetch: fetchMock },
+    })<APIContracts>()({
+      watchTimer: {
+        schemas: {
+          dto: zodCheck(z.object({ seconds: z.number() })),
+        },
+        stream,
+      },
+      watchSession: { sse: { path: "/sessions/stream" } },
+      getSession: { resolver: async () => ({ status: "active" }) },
+    });
+
+  it("chunks are validated and passed to the listener in order", async () => {
+    const api = createApi(async function* () {
+      yield { seconds: 1 };
+      yield new StreamEvent({ seconds: 2 }, "2");
+    });
+    const onChunk = vi.fn();
+    const onDone = vi.fn();
+
+    api.subscribe("watchTimer", { pathParams: { id: 1 } }, onChunk, {
+      onDone,
+    });
+
+    await vi.waitFor(() => expect(onDone).toHaveBeenCalled());
+
+    expect(onChunk.mock.calls).toEqual([
+      [{ seconds: 1 }, { id: undefined }],
+      [{ seconds: 2 }, { id: "2" }],
+    ]);
+  });
+
+  it("invalid chunk ends the stream with a validation error", async () => {
+    const stream = vi.fn(async function* () {
+      yield { seconds: "1" as unknown as number };
+    });
+    const api = createApi(stream);
+    const onError = vi.fn();
+
+    api.subscribe("watchTimer", { pathParams: { id: 1 } }, vi.fn(), {
+      onError,
+    });
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "validation_error" }),
+    );
+    expect(stream).toHaveBeenCalledTimes(1);
+  });
+
+  it("failed stream is resumed from the last received chunk", async () => {
+    const stream = vi.fn(async function* ({
+      lastEventId,
+    }: {
+      lastEventId?: string;
+    }) {
+      const from = Number(lastEventId ?? 0);
+
+      yield new StreamEvent({ seconds: from + 1 }, String(from + 1));
+
+      if (from === 0) {
+        throw offline();
+      }
+    });
+    const api = createApi(stream);
+    const onChunk = vi.fn();
+    const onDone = vi.fn();
+
+    api.subscribe("watchTimer", { pathParams: { id: 1 } }, onChunk, {
+      reconnect: { delay: 0 },
+      onDone,
+    });
+
+    await vi.waitFor(() => expect(onDone).toHaveBeenCalled());
+
+    expect(stream).toHaveBeenCalledTimes(2);
+    expect(stream.mock.calls[1]![0]).toMatchObject({ lastEventId: "1" });
+    expect(onChunk.mock.calls.map(([dto]) => dto)).toEqual([
+      { seconds: 1 },
+      { seconds: 2 },
+    ]);
+  });
+
+  it("reconnecting stops after given attempts", async () => {
+    const stream = vi.fn(async function* () {
+      yield* [];
+      throw offline();
+    });
+    const api = createApi(stream);
+    const onError = vi.fn();
+
+    api.subscribe("watchTimer", { pathParams: { id: 1 } }, vi.fn(), {
+      reconnect: { attempts: 2, delay: 0 },
+      onError,
+    });
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+
+    expect(stream).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ rawError: expect.any(TypeError) }),
+    );
+  });
+
+  it("closed subscription aborts the stream without errors", async () => {
+    let signal: AbortSignal | undefined;
+    const api = createApi(async function* (input) {
+      signal = input.signal;
+      yield { seconds: 1 };
+      await new Promise((_, reject) => {
+        input.signal.addEventListener("abort", () => reject(offline()));
+      });
+    });
+    const onChunk = vi.fn();
+    const onError = vi.fn();
+
+    const close = api.subscribe(
+      "watchTimer",
+      { pathParams: { id: 1 } },
+      onChunk,
+      { onError },
+    );
+
+    await vi.waitFor(() => expect(onChunk).toHaveBeenCalled());
+    close();
+    await Promise.resolve();
+
+    expect(signal?.aborted).toBe(true);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("calling a stream contract is rejected", async () => {
+    const api = createApi(async function* () {});
+
+    await expect(
+      api.call("watchTimer", { pathParams: { id: 1 } }),
+    ).rejects.toThrow('use "subscribe" instead');
+  });
+
+  it("sse contracts read server-sent events and resume with Last-Event-ID", async () => {
+    const fetchMock = vi.fn<typeof fetch>(async (_, request) => {
+      const headers = new Headers(request?.headers);
+
+      if (headers.get("Last-Event-ID") === "1") {
+        return new Response(sseBody('id: 2\ndata: {"status":"completed"}\n\n'));
+      }
+
+      return new Response(
+        sseBody(
+          ": ping\n\n",
+          'id: 1\ndata: {"status":',
+          '"active"}\n\n',
+          'event: error\ndata: {"type":"internal_server_error","status":503,"message":"Down"}\n\n',
+        ),
+      );
+    });
+    const api = createApi(async function* () {}, fetchMock);
+    const onChunk = vi.fn();
+    const onDone = vi.fn();
+
+    api.subscribe("watchSession", undefined, onChunk, {
+      reconnect: { delay: 0 },
+      onDone,
+    });
+
+    await vi.waitFor(() => expect(onDone).toHaveBeenCalled());
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0]![0]).toBe("/sessions/stream");
+    expect(onChunk.mock.calls).toEqual([
+      [{ status: "active" }, { id: "1" }],
+      [{ status: "completed" }, { id: "2" }],
+    ]);
+  });
+
+  it("rejected sse stream is not resumed", async () => {
+    const fetchMock = vi.fn<typeof fetch>(
+      async () =>
+        new Response(
+          JSON.stringify({
+            type: "unauthorized",
+            status: 401,
+            message: "Unauthorized",
+          }),
+          { status: 401, headers: { "Content-Type": "application/json" } },
+        ),
+    );
+    const api = createApi(async function* () {}, fetchMock);
+    const onError = vi.fn();
+
+    api.subscribe("watchSession", undefined, vi.fn(), { onError });
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "unauthorized", status: 401 }),
+    );
+  });
+});
+
+describe("SSE transport works when", () => {
+  it("chunks are sent as events with ids", async () => {
+    const response = toSSEResponse(
+      (async function* () {
+        yield { seconds: 1 };
+        yield new StreamEvent({ seconds: 2 }, "2");
+      })(),
+      { heartbeat: 0 },
+    );
+
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(await response.text()).toBe(
+      'data: {"seconds":1}\n\nid: 2\ndata: {"seconds":2}\n\n',
+    );
+  });
+
+  it("thrown error ends the stream with an error event", async () => {
+    const response = toSSEResponse(
+      (async function* () {
+        yield 1;
+        throw new Error("Database is down");
+      })(),
+      { heartbeat: 0 },
+    );
+
+    const messages = await collect(readSSE(response.body!));
+
+    expect(messages).toEqual([
+      { event: "message", data: "1" },
+      {
+        event: "error",
+        data: JSON.stringify({
+          type: "internal_server_error",
+          status: 500,
+          message: "Stream failed",
+        }),
+      },
+    ]);
+  });
+
+  it("cancelled response returns the source", async () => {
+    const finished = vi.fn();
+    const response = toSSEResponse(
+      (async function* () {
+        try {
+          yield 1;
+          yield 2;
+        } finally {
+          finished();
+        }
+      })(),
+      { heartbeat: 0 },
+    );
+    const reader = response.body!.getReader();
+
+    await reader.read();
+    await reader.cancel();
+
+    expect(finished).toHaveBeenCalled();
+  });
+
+  it("error events are thrown as http exceptions by the resolver", async () => {
+    const api = init(undefined, {
+      http: {
+        fetch: async () =>
+          new Response(
+            sseBody(
+              'event: error\ndata: {"type":"unauthorized","status":401,"message":"Expired"}\n\n',
+            ),
+          ),
+      },
+    })<APIContracts>()({
+      watchTimer: { stream: async function* () {} },
+      watchSession: { sse: { path: "/sessions/stream" } },
+      getSession: { resolver: async () => ({ status: "active" }) },
+    });
+    const onError = vi.fn();
+
+    api.subscribe("watchSession", undefined, vi.fn(), { onError });
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+
+    const error = onError.mock.calls[0]![0] as HttpException;
+
+    expect(HttpException.is(error)).toBe(true);
+    expect(error.response.status).toBe(401);
+  });
+});
@@ -0,0 +1,275 @@
+import { describe, it, expect, vi } from "vitest";
+import { init } from "../core";
+import { parseError } from "../adapters/fetch";
+import * as z from "zod";
+import { zodCheck } from "../adapters/zod";
+import { HttpException, NetworkException, type ErrorVariant } from "../models";
+import {
+  createMemoryExporter,
+  createOTelExporter,
+  createTracer,
+  readTraceHeader,
+  toTraceHeader,
+} from "../tracing";
+
+type APIContracts = {
+  getTasks: {
+    dto: { id: number }[];
+    error: ErrorVariant<"internal_server_error", 500>;
+  };
+  getTask: {
+    dto: { id: number };
+    error: ErrorVariant<"not_found", 404>;
+    pathParams: { id: number };
+  };
+};
+
+const notFound = () =>
+  new HttpException(new Response(null, { status: 404 }), {
+    type: "not_found",
+    status: 404,
+    message: "Task not found",
+  });
+
+const createTracedApi = () => {
+  const exporter = createMemoryExporter();
+  const tracer = createTracer({ exporters: [exporter], buckets: [100, 1000] });
+  let failures = 0;
+
+  const api = init()<APIContracts>()({
+    getTasks: {
+      resolver: async () => {
+        if (failures > 0) {
+          failures--;
+          throw new NetworkException(new TypeError("Failed to fetch"));
+        }
+
+        return [{ id: 1 }];
+      },
+      retry: { attempts: 3, delay: 0, parseError },
+    },
+    getTask: {
+      schemas: {
+        pathParams: zodCheck(z.object({ id: z.number() })),
+      },
+      resolver: async ({ pathParams }) => {
+        if (pathParams.id === 404) {
+          throw notFound();
+        }
+
+        return { id: pathParams.id };
+      },
+    },
+  });
+
+  const stop = tracer.instrument(api);
+
+  return {
+    api,
+    tracer,
+    exporter,
+    stop,
+    failNextAttempts: (count: number) => {
+      failures = count;
+    },
+  };
+};
+
+describe("tracing works when", () => {
+  it("a span is recorded per call with contract key and timing", async () => {
+    const { api, exporter } = createTracedApi();
+
+    await api.call("getTasks");
+
+    expect(exporter.spans).toHaveLength(1);
+    expect(exporter.spans[0]).toMatchObject({
+      name: "getTasks",
+      kind: "client",
+      status: "ok",
+      attributes: { "contract.key": "getTasks" },
+    });
+    expect(exporter.spans[0]!.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(exporter.spans[0]!.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(exporter.spans[0]!.duration).toBe(
+      exporter.spans[0]!.endTime - exporter.spans[0]!.startTime,
+    );
+  });
+
+  it("failed spans describe the error type and status", async () => {
+    const { api, exporter } = createTracedApi();
+
+    await api.safeCall("getTask", { pathParams: { id: 404 } });
+
+    expect(exporter.spans[0]).toMatchObject({
+      status: "error",
+      attributes: {
+        "error.type": "not_found",
+        "error.status": 404,
+        "error.message": "Request failed with status 404",
+      },
+    });
+  });
+
+  it("validation failures are marked", async () => {
+    const { api, exporter, tracer } = createTracedApi();
+
+    await api.safeCall("getTask", {
+      pathParams: { id: "1" as unknown as number },
+    });
+
+    expect(exporter.spans[0]!.attributes).toMatchObject({
+      "error.type": "validation_error",
+      "validation.failed": true,
+      "validation.issues": 1,
+    });
+    expect(tracer.metrics().getTask!.validationFailures).toBe(1);
+  });
+
+  it("retried calls keep a single span with the number of attempts", async () => {
+    const { api, exporter, tracer, failNextAttempts } = createTracedApi();
+
+    failNextAttempts(2);
+    await api.call("getTasks");
+
+    expect(exporter.spans).toHaveLength(1);
+    expect(exporter.spans[0]!.attributes["retry.attempts"]).toBe(3);
+    expect(tracer.metrics().getTasks!.retries).toBe(2);
+  });
+
+  it("metrics count calls, errors and latency per contract", async () => {
+    const { api, tracer } = createTracedApi();
+
+    await api.call("getTask", { pathParams: { id: 1 } });
+    await api.safeCall("getTask", { pathParams: { id: 404 } });
+    await api.call("getTasks");
+
+    const metrics = tracer.metrics();
+
+    expect(metrics.getTask).toMatchObject({
+      calls: 2,
+      ok: 1,
+      failed: 1,
+      errors: { not_found: 1 },
+    });
+    expect(metrics.getTask!.latency.buckets).toEqual([100, 1000]);
+    expect(metrics.getTask!.latency.count).toBe(2);
+    expect(metrics.getTask!.latency.counts).toEqual([2, 0, 0]);
+    expect(metrics.getTasks!.calls).toBe(1);
+
+    tracer.resetMetrics();
+
+    expect(tracer.metrics()).toEqual({});
+  });
+
+  it("trace header is sent with http requests", async () => {
+    const fetchMock = vi.fn<typeof fetch>(
+      async () =>
+        new Response(JSON.stringify({ id: 1 }), {
+          headers: { "Content-Type": "application/json" },
+        }),
+    );
+    const exporter = createMemoryExporter();
+    const tracer = createTracer({ exporters: [exporter] });
+    const api = init(undefined, {
+      http: { fetch: fetchMock },
+    })<APIContracts>()({
+      getTasks: { http: { method: "get", path: "/tasks" } },
+      getTask: { http: { method: "get", path: "/tasks/:id" } },
+    });
+
+    tracer.instrument(api);
+    await api.call("getTask", { pathParams: { id: 1 } });
+
+    const headers = new Headers(fetchMock.mock.calls[0]![1]!.headers);
+
+    expect(readTraceHeader(headers)).toEqual({
+      traceId: exporter.spans[0]!.traceId,
+      spanId: exporter.spans[0]!.spanId,
+    });
+  });
+
+  it("server span continues the propagated trace", () => {
+    const exporter = createMemoryExporter();
+    const tracer = createTracer({ exporters: [exporter] });
+    const client = { traceId: "a".repeat(32), spanId: "b".repeat(16) };
+
+    const span = tracer.startSpan("getTasks", {
+      kind: "server",
+      parent: readTraceHeader(
+        new Headers({ traceparent: toTraceHeader(client) }),
+      ),
+    });
+    span.setAttribute("http.status", 200);
+    span.end();
+    span.end();
+
+    expect(exporter.spans).toHaveLength(1);
+    expect(exporter.spans[0]).toMatchObject({
+      traceId: client.traceId,
+      parentSpanId: client.spanId,
+      kind: "server",
+      attributes: { "http.status": 200 },
+    });
+    expect(tracer.metrics()).toEqual({});
+  });
+
+  it("malformed trace header is ignored", () => {
+    expect(
+      readTraceHeader(new Headers({ traceparent: "00-invalid-01" })),
+    ).toBeUndefined();
+    expect(readTraceHeader(new Headers())).toBeUndefined();
+  });
+
+  it("spans are forwarded to OpenTelemetry tracer", async () => {
+    const otelSpan = { setStatus: vi.fn(), end: vi.fn() };
+    const otelTracer = { startSpan: vi.fn(() => otelSpan) };
+    const tracer = createTracer({
+      exporters: [createOTelExporter(otelTracer)],
+    });
+
+    const span = tracer.startSpan("getTasks", { startTime: 10 });
+    const ended = span.end("error", 30);
+
+    expect(otelTracer.startSpan).toHaveBeenCalledWith("getTasks", {
+      kind: 2,
+      startTime: 10,
+      attributes: { "trace.id": ended.traceId, "span.id": ended.spanId },
+    });
+    expect(otelSpan.setStatus).toHaveBeenCalledWith({ code: 2 });
+    expect(otelSpan.end).toHaveBeenCalledWith(30);
+  });
+
+  it("exporter errors are logged and do not break calls", async () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const error = new Error("Exporter failed");
+    const tracer = createTracer({
+      exporters: [
+        {
+          export: () => {
+            throw error;
+          },
+        },
+      ],
+    });
+    const api = init()<APIContracts>()({
+      getTasks: { resolver: async () => [] },
+      getTask: { resolver: async () => ({ id: 1 }) },
+    });
+
+    tracer.instrument(api);
+
+    await expect(api.call("getTasks")).resolves.toEqual([]);
+    expect(consoleSpy).toHaveBeenCalledWith("Span exporter error:", error);
+
+    consoleSpy.mockRestore();
+  });
+
+  it("stopped instrumentation records nothing", async () => {
+    const { api, exporter, stop } = createTracedApi();
+
+    stop();
+    await api.call("getTasks");
+
+    expect(exporter.spans).toHaveLength(0);
+  });
+});
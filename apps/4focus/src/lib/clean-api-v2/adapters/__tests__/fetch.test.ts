@@ -0,0 +1,301 @@
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+import { ensureOk, errorParser, fetchResponse } from "../fetch";
+import { init } from "../../core";
+import {
+  type ErrorVariant,
+  type UnsupportedServerResponseError,
+  type NoServerResponseError,
+  type NoInternetError,
+  type AbortedError,
+  type ClientExceptionError,
+  HttpException,
+  NetworkException,
+  ValidationException,
+  type ValidationError,
+} from "../../models";
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+
+const httpException = (body: unknown, status: number) =>
+  new HttpException(new Response(null, { status }), body);
+
+describe("fetch adapter error parsing works when", () => {
+  type APIContracts = {
+    get: {
+      dto: { id: number };
+      error: ErrorVariant<"not_found", 404, { resource: string }>;
+    };
+    get_no_meta: {
+      dto: { id: number };
+      error: ErrorVariant<"bad_request", 400>;
+    };
+  };
+
+  const contract = init();
+  const api = contract<APIContracts>()({
+    get: {
+      resolver: () => Promise.resolve({ id: 1 }),
+    },
+    get_no_meta: {
+      resolver: () => Promise.resolve({ id: 1 }),
+    },
+  });
+
+  const parser = errorParser(api);
+
+  it("handles standard server error response", () => {
+    const mockError = httpException(
+      {
+        type: "not_found",
+        status: 404,
+        message: "Resource could not be found.",
+        meta: { resource: "item" },
+      },
+      404,
+    );
+
+    const parsed = parser("get", mockError);
+
+    expect(parsed.status).toBe(404);
+    expect(parsed.type).toBe("not_found");
+    expect(parsed.message).toBe("Resource could not be found.");
+    if (parsed.type === "not_found") {
+      expect(parsed.meta).toEqual({ resource: "item" });
+      expectTypeOf(parsed).toEqualTypeOf<
+        ErrorVariant<"not_found", 404, { resource: string }> & {
+          rawError: unknown;
+        }
+      >();
+    }
+  });
+
+  it("handles standard server error response without meta", () => {
+    const mockError = httpException(
+      { type: "bad_request", status: 400, message: "Bad request." },
+      400,
+    );
+
+    const parsed = parser("get_no_meta", mockError);
+
+    expect(parsed.status).toBe(400);
+    expect(parsed.type).toBe("bad_request");
+    expect(parsed.message).toBe("Bad request.");
+    if (parsed.type === "bad_request") {
+      expect("meta" in parsed).toBe(false);
+      expectTypeOf(parsed).toEqualTypeOf<
+        ErrorVariant<"bad_request", 400> & {
+          rawError: unknown;
+        }
+      >();
+    }
+  });
+
+  it("handles unsupported server error response", () => {
+    const mockError = httpException("Internal Server Error", 500);
+
+    const parsed = parser("get", mockError);
+
+    expect(parsed.type).toBe("unsupported_server_response");
+    if (parsed.type === "unsupported_server_response") {
+      expect(parsed.status).toBe(-5);
+      expect(parsed.meta).toEqual({
+        originalStatus: 500,
+        originalResponse: "Internal Server Error",
+      });
+      expectTypeOf(parsed).toEqualTypeOf<
+        UnsupportedServerResponseError & { rawError: unknown }
+      >();
+    }
+  });
+
+  it("handles unsupported server error response with partial data", () => {
+    const mockError = httpException(
+      { type: "server_error", message: "Something went wrong" },
+      500,
+    );
+
+    const parsed = parser("get", mockError);
+
+    expect(parsed.type).toBe("unsupported_server_response");
+    if (parsed.type === "unsupported_server_response") {
+      expect(parsed.status).toBe(-5);
+      expect(parsed.meta.originalStatus).toBe(500);
+      expect(parsed.meta.originalResponse).toEqual({
+        type: "server_error",
+        message: "Something went wrong",
+      });
+    }
+  });
+
+  it("handles empty server error response", () => {
+    const parsed = parser("get", httpException(undefined, 502));
+
+    expect(parsed.type).toBe("unsupported_server_response");
+    expect(parsed.status).toBe(-5);
+  });
+
+  it("handles no server response (network error)", () => {
+    const mockError = new NetworkException(new TypeError("Failed to fetch"));
+
+    const parsed = parser("get", mockError);
+
+    expect(parsed.type).toBe("no_server_response");
+    if (parsed.type === "no_server_response") {
+      expect(parsed.status).toBe(-3);
+      expect(parsed.rawError).toBe(mockError);
+      expectTypeOf(parsed).toEqualTypeOf<
+        NoServerResponseError & { rawError: unknown }
+      >();
+    }
+  });
+
+  it("handles no internet connection", () => {
+    Object.defineProperty(navigator, "onLine", {
+      value: false,
+      configurable: true,
+    });
+
+    const parsed = parser(
+      "get",
+      new NetworkException(new TypeError("Failed to fetch")),
+    );
+
+    expect(parsed.type).toBe("no_internet");
+    if (parsed.type === "no_internet") {
+      expect(parsed.status).toBe(-2);
+      expectTypeOf(parsed).toEqualTypeOf<
+        NoInternetError & { rawError: unknown }
+      >();
+    }
+    Object.defineProperty(navigator, "onLine", {
+      value: true,
+      configurable: true,
+    });
+  });
+
+  it("handles request cancellation", () => {
+    const mockError = new DOMException("Aborted", "AbortError");
+
+    const parsed = parser("get", mockError);
+
+    expect(parsed.type).toBe("aborted");
+    if (parsed.type === "aborted") {
+      expect(parsed.status).toBe(0);
+      expectTypeOf(parsed).toEqualTypeOf<
+        AbortedError & { rawError: unknown }
+      >();
+    }
+  });
+
+  it("handles cancellation with signal reason", () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(parser("get", controller.signal.reason).type).toBe("aborted");
+  });
+
+  it("handles client-side exception", () => {
+    const mockError = new Error("Something broke");
+
+    const parsed = parser("get", mockError);
+
+    expect(parsed.type).toBe("client_exception");
+    if (parsed.type === "client_exception") {
+      expect(parsed.status).toBe(-1);
+      expect(parsed.rawError).toBe(mockError);
+      expectTypeOf(parsed).toEqualTypeOf<
+        ClientExceptionError & { rawError: unknown }
+      >();
+    }
+  });
+
+  it("handles network errors of fetch called directly", () => {
+    // Messages of Node and Safari, not wrapped with fetchResponse
+    for (const message of ["fetch failed", "Load failed"]) {
+      const failure = new TypeError(message);
+
+      expect(parser("get", failure)).toMatchObject({
+        type: "no_server_response",
+        rawError: failure,
+      });
+    }
+  });
+
+  it("treats other TypeErrors as client exceptions", () => {
+    const bug = new TypeError("Cannot read properties of undefined");
+
+    const parsed = parser("get", bug);
+
+    expect(parsed.type).toBe("client_exception");
+    expect(parsed.rawError).toBe(bug);
+  });
+
+  it("handles custom validation error", () => {
+    const mockError = new ValidationException([
+      { path: ["id"], message: "Something broke" },
+    ]);
+
+    const parsed = parser("get", mockError);
+
+    expect(parsed.type).toBe("validation_error");
+    if (parsed.type === "validation_error") {
+      expect(parsed.status).toBe(-6);
+      expect(parsed.meta.issues).toEqual([
+        { path: ["id"], message: "Something broke" },
+      ]);
+      expect(parsed.rawError).toBe(mockError);
+      expectTypeOf(parsed).toEqualTypeOf<
+        ValidationError & { rawError: unknown }
+      >();
+    }
+  });
+});
+
+describe("ensureOk works when", () => {
+  it("resolves with parsed body of ok responses", async () => {
+    expect(await ensureOk(jsonResponse({ id: 1 }, 200))).toEqual({ id: 1 });
+  });
+
+  it("throws HttpException for non-ok responses", async () => {
+    const body = { type: "not_found", status: 404, message: "Not found" };
+
+    const error = await ensureOk(jsonResponse(body, 404)).catch(
+      (e: unknown) => e,
+    );
+
+    expect(HttpException.is(error)).toBe(true);
+    expect((error as HttpException).data).toEqual(body);
+  });
+});
+
+describe("fetchResponse works when", () => {
+  it("failures without response are thrown as NetworkException", async () => {
+    const failure = new TypeError("Failed to fetch");
+    const fetchMock = vi.fn<typeof fetch>().mockRejectedValue(failure);
+
+    const error = await fetchResponse("/tasks", undefined, fetchMock).catch(
+      (e: unknown) => e,
+    );
+
+    expect(NetworkException.is(error)).toBe(true);
+    expect((error as NetworkException).error).toBe(failure);
+  });
+
+  it("aborts and responses are passed through", async () => {
+    const abort = new DOMException("Aborted", "AbortError");
+    const response = jsonResponse({ id: 1 }, 500);
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockRejectedValueOnce(abort)
+      .mockResolvedValueOnce(response);
+
+    await expect(fetchResponse("/tasks", undefined, fetchMock)).rejects.toBe(
+      abort,
+    );
+    expect(await fetchResponse("/tasks", undefined, fetchMock)).toBe(response);
+  });
+});
@@ -0,0 +1,280 @@
+import type { AxiosError } from "axios";
+import axios from "axios";
+import { beforeEach, describe, expect, expectTypeOf, it, vi } from "vitest";
+import { cleanAPI, contract, type ErrorVariant } from "../../../clean-api";
+import { fromLegacy } from "../legacy";
+
+vi.mock("axios");
+const mockedAxios = vi.mocked(axios, true);
+
+const { isAxiosError, isCancel } = await vi.importActual("axios");
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+mockedAxios.isAxiosError.mockImplementation(isAxiosError as any);
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+mockedAxios.isCancel.mockImplementation(isCancel as any);
+
+type User = { id: number; name: string };
+
+type TestContracts = {
+  getUser: {
+    dto: User;
+    error: ErrorVariant<"user_not_found", 404>;
+    pathParams: { id: string };
+    searchParams: { version: number };
+  };
+  createUser: {
+    dto: User;
+    error: ErrorVariant<"validation_error", 400, { fields: string[] }>;
+    payload: { name: string };
+  };
+  updateUser: {
+    dto: User;
+    error: ErrorVariant<"update_failed", 500>;
+    pathParams: { id: string };
+    payload: { name: string };
+  };
+  patchUser: {
+    dto: User;
+    error: ErrorVariant<"patch_failed", 500>;
+    pathParams: { id: string };
+    payload: { name?: string };
+  };
+  deleteUser: {
+    dto: { success: boolean };
+    error: ErrorVariant<"delete_failed", 500>;
+    pathParams: { id: string };
+  };
+  getHealth: {
+    dto: { status: "ok" };
+    error: ErrorVariant<"service_unavailable", 503>;
+  };
+};
+
+const testConfig = contract<TestContracts>()({
+  getUser: { method: "get", path: "/users/:id" },
+  createUser: { method: "post", path: "/users" },
+  updateUser: { method: "put", path: "/users/:id" },
+  patchUser: { method: "patch", path: "/users/:id" },
+  deleteUser: { method: "delete", path: "/users/:id" },
+  getHealth: { method: "get", path: "/health" },
+});
+
+const baseConfig = {
+  baseURL: "https://api.test",
+  headers: { Authorization: "Bearer token" },
+  timeout: 1000,
+};
+
+const legacyAPI = cleanAPI<TestContracts>()(testConfig, baseConfig);
+const bridgedAPI = fromLegacy<TestContracts>()(testConfig, baseConfig);
+
+const axiosError = (error: Partial<AxiosError>) =>
+  ({ isAxiosError: true, ...error }) as AxiosError;
+
+const user: User = { id: 1, name: "Tom" };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(navigator, "onLine", "get").mockReturnValue(true);
+});
+
+// The same cases run against v1 and the bridged v2 instance
+describe.each([
+  ["v1", legacyAPI],
+  ["bridged v2", bridgedAPI],
+] as const)("%s API works when", (_, api) => {
+  it("path and search params are applied to the request", async () => {
+    mockedAxios.get.mockResolvedValue({ data: user });
+
+    const result = await api.call("getUser", {
+      pathParams: { id: "1" },
+      searchParams: { version: 2 },
+    });
+
+    expect(result).toEqual(user);
+    expect(mockedAxios.get).toHaveBeenCalledWith("https://api.test/users/1", {
+      ...baseConfig,
+      params: { version: 2 },
+    });
+  });
+
+  it("payload is sent with the method of the contract", async () => {
+    mockedAxios.post.mockResolvedValue({ data: user });
+    mockedAxios.put.mockResolvedValue({ data: user });
+    mockedAxios.patch.mockResolvedValue({ data: user });
+    mockedAxios.delete.mockResolvedValue({ data: { success: true } });
+
+    await api.call("createUser", { payload: { name: "Tom" } });
+    await api.call("updateUser", {
+      pathParams: { id: "1" },
+      payload: { name: "Tom" },
+    });
+    await api.call("patchUser", { pathParams: { id: "1" }, payload: {} });
+    const deleted = await api.call("deleteUser", { pathParams: { id: "1" } });
+
+    const config = { ...baseConfig, params: undefined };
+
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      "https://api.test/users",
+      { name: "Tom" },
+      config,
+    );
+    expect(mockedAxios.put).toHaveBeenCalledWith(
+      "https://api.test/users/1",
+      { name: "Tom" },
+      config,
+    );
+    expect(mockedAxios.patch).toHaveBeenCalledWith(
+      "https://api.test/users/1",
+      {},
+      config,
+    );
+    expect(mockedAxios.delete).toHaveBeenCalledWith(
+      "https://api.test/users/1",
+      config,
+    );
+    expect(deleted).toEqual({ success: true });
+  });
+
+  it("contracts without input are called with the key only", async () => {
+    mockedAxios.get.mockResolvedValue({ data: { status: "ok" } });
+
+    const health = await api.call("getHealth");
+
+    expectTypeOf(health).toEqualTypeOf<{ status: "ok" }>();
+    expect(health).toEqual({ status: "ok" });
+  });
+
+  it("connectivity and client failures are parsed the same way", async () => {
+    const noResponse = axiosError({ request: {} });
+    const unsupported = axiosError({
+      response: { data: "Bad gateway", status: 502 } as AxiosError["response"],
+    });
+    const exception = new Error("Boom");
+
+    mockedAxios.get
+      .mockRejectedValueOnce(noResponse)
+      .mockRejectedValueOnce(unsupported)
+      .mockRejectedValueOnce(exception);
+
+    const results = [
+      await api.safeCall("getHealth"),
+      await api.safeCall("getHealth"),
+      await api.safeCall("getHealth"),
+    ];
+
+    expect(results).toEqual([
+      [
+        false,
+        expect.objectContaining({ type: "no_server_response", status: -3 }),
+      ],
+      [
+        false,
+        expect.objectContaining({
+          type: "unsupported_server_response",
+          status: -5,
+          meta: { originalStatus: 502, originalResponse: "Bad gateway" },
+        }),
+      ],
+      [
+        false,
+        expect.objectContaining({
+          type: "client_exception",
+          rawError: exception,
+        }),
+      ],
+    ]);
+  });
+
+  it("offline failures are reported as no internet", async () => {
+    vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    mockedAxios.get.mockRejectedValue(axiosError({ request: {} }));
+
+    const [ok, error] = await api.safeCall("getHealth");
+
+    expect(ok).toBe(false);
+    expect(error).toMatchObject({ type: "no_internet", status: -2 });
+  });
+});
+
+describe("bridged API differs from v1 when", () => {
+  it("error type is read from the body instead of the status text", async () => {
+    mockedAxios.get.mockRejectedValue(
+      axiosError({
+        response: {
+          data: { type: "user_not_found", status: 404, message: "Not found" },
+          status: 404,
+          statusText: "Not Found",
+        } as AxiosError["response"],
+      }),
+    );
+
+    const [, legacyError] = await legacyAPI.safeCall("getUser", {
+      pathParams: { id: "1" },
+      searchParams: { version: 1 },
+    });
+    const [, bridgedError] = await bridgedAPI.safeCall("getUser", {
+      pathParams: { id: "1" },
+      searchParams: { version: 1 },
+    });
+
+    expect(legacyError).toMatchObject({ type: "Not Found", status: 404 });
+    expect(bridgedError).toMatchObject({ type: "user_not_found", status: 404 });
+  });
+
+  it("error body has a message only", async () => {
+    mockedAxios.get.mockRejectedValue(
+      axiosError({
+        response: {
+          data: { message: "User does not exist" },
+          status: 404,
+          statusText: "user_not_found",
+        } as AxiosError["response"],
+      }),
+    );
+
+    const [, legacyError] = await legacyAPI.safeCall("getUser", {
+      pathParams: { id: "1" },
+      searchParams: { version: 1 },
+    });
+    const [, bridgedError] = await bridgedAPI.safeCall("getUser", {
+      pathParams: { id: "1" },
+      searchParams: { version: 1 },
+    });
+
+    expect(legacyError).toMatchObject({
+      type: "user_not_found",
+      status: 404,
+      message: "User does not exist",
+    });
+    expect(bridgedError).toMatchObject({
+      type: "unsupported_server_response",
+      status: -5,
+      meta: {
+        originalStatus: 404,
+        originalResponse: { message: "User does not exist" },
+      },
+    });
+  });
+
+  it("v2 features like lifecycle events are available", async () => {
+    const onOk = vi.fn();
+    mockedAxios.get.mockResolvedValue({ data: { status: "ok" } });
+
+    const unsubscribe = bridgedAPI.onOk("getHealth", onOk);
+    await bridgedAPI.call("getHealth");
+    unsubscribe();
+
+    expect(onOk).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "getHealth", dto: { status: "ok" } }),
+    );
+  });
+
+  it("paths are validated against path params like in v1", () => {
+    fromLegacy<TestContracts>()({
+      ...testConfig,
+      // @ts-expect-error - ":userId" is not defined in pathParams
+      getUser: { method: "get", path: "/users/:userId" },
+    });
+  });
+});
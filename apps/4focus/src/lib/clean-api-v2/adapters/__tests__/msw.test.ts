@@ -0,0 +1,266 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { setupServer } from "msw/node";
+import * as z from "zod";
+import { init } from "../../core";
+import { HttpException } from "../../models";
+import { createMockHandlers } from "../msw";
+import { zodCheck, zodToJSONSchema } from "../zod";
+
+const taskId = z.number().int().positive().brand("taskId");
+const date = z.iso.datetime().brand("date");
+
+const task = z.object({
+  id: taskId,
+  title: z.string().min(3).max(280),
+  description: z.string().nullable(),
+  status: z.enum(["todo", "pending", "done"]),
+  estimatedDurationMinutes: z.int().positive().max(1440),
+  creationDate: date,
+  tags: z.array(z.string()),
+});
+
+const error = z.union([
+  z.object({
+    type: z.literal("unauthorized"),
+    status: z.literal(401),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal("internal_server_error"),
+    status: z.literal(500),
+    message: z.string(),
+  }),
+]);
+
+type APIContracts = {
+  getTasks: {
+    dto: z.infer<typeof task>[];
+    error: z.infer<typeof error>;
+  };
+  createTask: {
+    dto: z.infer<typeof task>;
+    error: z.infer<typeof error>;
+    payload: { title: string };
+  };
+  getHealth: {
+    dto: { ok: boolean };
+    error: never;
+  };
+  local: {
+    dto: number;
+    error: never;
+  };
+};
+
+const api = init(undefined, {
+  mode: "parse",
+  http: { baseURL: "https://api.test" },
+})<APIContracts>()({
+  getTasks: {
+    http: { method: "get", path: "/tasks" },
+    schemas: { dto: zodCheck(z.array(task)), error: zodCheck(error) },
+  },
+  createTask: {
+    http: { method: "post", path: "/tasks" },
+    schemas: { dto: zodCheck(task), error: zodCheck(error) },
+  },
+  getHealth: {
+    resolver: async () => ({ ok: true }),
+    schemas: { dto: zodCheck(z.object({ ok: z.boolean() })) },
+  },
+  local: { resolver: async () => 1 },
+});
+
+const createMocks = (seed?: number) =>
+  createMockHandlers(api, {
+    toJSONSchema: zodToJSONSchema,
+    baseURL: "https://api.test",
+    seed,
+    operations: { getHealth: { method: "get", path: "/health" } },
+    overrides: { createTask: { error: "unauthorized" } },
+  });
+
+const mocks = createMocks();
+const server = setupServer(...mocks.handlers);
+
+const getHttpException = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error("Expected request to fail");
+    },
+    (e: unknown) => e as HttpException,
+  );
+
+describe("mock handlers work when", () => {
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: "error" });
+  });
+
+  afterEach(() => {
+    mocks.reset();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it("handlers are created for contracts with http or operations", () => {
+    expect(mocks.handlers.map((handler) => handler.info.header)).toEqual([
+      "GET https://api.test/tasks",
+      "POST https://api.test/tasks",
+      "GET https://api.test/health",
+    ]);
+  });
+
+  it("generated data passes contract validation", async () => {
+    const tasks = await api.call("getTasks");
+
+    expect(tasks.length).toBeGreaterThan(0);
+    expect(() => api.dto("getTasks", tasks)).not.toThrow();
+    expect(tasks[0]!.creationDate).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(await api.call("getHealth")).toEqual({
+      ok: expect.any(Boolean),
+    });
+  });
+
+  it("data is the same for the same seed and differs for other seed", () => {
+    expect(createMocks().fake("getTasks", "dto")).toEqual(
+      mocks.fake("getTasks", "dto"),
+    );
+    expect(createMocks(2).fake("getTasks", "dto")).not.toEqual(
+      mocks.fake("getTasks", "dto"),
+    );
+  });
+
+  it("error variant is picked by type or status", async () => {
+    const unauthorized = await getHttpException(
+      api.call("createTask", { payload: { title: "Task" } }),
+    );
+
+    expect(unauthorized.response.status).toBe(401);
+    expect(unauthorized.data).toMatchObject({ type: "unauthorized" });
+
+    mocks.use("getTasks", { error: 500 });
+
+    const serverError = await getHttpException(api.call("getTasks"));
+
+    expect(serverError.response.status).toBe(500);
+    expect(() =>
+      api.error("getTasks", serverError.data as never),
+    ).not.toThrow();
+  });
+
+  it("dto and error can be given explicitly", async () => {
+    const dto = mocks.fake("createTask", "dto") as z.infer<typeof task>;
+
+    mocks.use("createTask", { dto });
+
+    expect(
+      await api.call("createTask", { payload: { title: "Task" } }),
+    ).toEqual(dto);
+
+    mocks.use("getTasks", {
+      error: { type: "unauthorized", status: 401, message: "Session expired" },
+    });
+
+    expect((await getHttpException(api.call("getTasks"))).data).toEqual({
+      type: "unauthorized",
+      status: 401,
+      message: "Session expired",
+    });
+  });
+
+  it("reset restores overrides", async () => {
+    mocks.use("createTask", {});
+    mocks.reset();
+
+    expect(
+      (
+        await getHttpException(
+          api.call("createTask", { payload: { title: "Task" } }),
+        )
+      ).response.status,
+    ).toBe(401);
+  });
+
+  it("response is delayed", async () => {
+    mocks.use("getTasks", { delay: 100 });
+
+    const start = Date.now();
+    await api.call("getTasks");
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+  });
+
+  it("unknown error variant is reported", () => {
+    // @ts-expect-error - not a variant of the contract error
+    expect(() => mocks.fake("getTasks", "error", "not_found")).toThrow(
+      'Contract "getTasks" has no error variant "not_found"',
+    );
+  });
+});
+
+describe("mocked batch route works when", () => {
+  const batchedApi = init(undefined, {
+    mode: "parse",
+    http: { baseURL: "https://api.test", batch: { path: "/batch" } },
+  })<Pick<APIContracts, "getTasks" | "createTask" | "local">>()({
+    getTasks: {
+      http: { method: "get", path: "/tasks" },
+      schemas: { dto: zodCheck(z.array(task)), error: zodCheck(error) },
+    },
+    createTask: {
+      http: { method: "post", path: "/tasks" },
+      schemas: { dto: zodCheck(task), error: zodCheck(error) },
+    },
+    local: { resolver: async () => 1 },
+  });
+  const batchMocks = createMockHandlers(batchedApi, {
+    toJSONSchema: zodToJSONSchema,
+    baseURL: "https://api.test",
+    batch: { path: "/batch" },
+    overrides: { createTask: { error: "unauthorized" } },
+  });
+  const batchServer = setupServer(...batchMocks.handlers);
+
+  beforeAll(() => {
+    batchServer.listen({ onUnhandledRequest: "error" });
+  });
+
+  afterAll(() => {
+    batchServer.close();
+  });
+
+  it("calls are answered like by their own handlers", async () => {
+    const [tasks, created] = await Promise.all([
+      batchedApi.call("getTasks"),
+      getHttpException(
+        batchedApi.call("createTask", { payload: { title: "Write" } }),
+      ),
+    ]);
+
+    expect(tasks).toEqual(batchMocks.fake("getTasks", "dto"));
+    expect(created.response.status).toBe(401);
+    expect(created.data).toMatchObject({ type: "unauthorized", status: 401 });
+  });
+
+  it("calls of contracts without handlers get not found results", async () => {
+    const response = await fetch("https://api.test/batch", {
+      method: "POST",
+      body: JSON.stringify({ calls: [{ key: "local" }] }),
+    });
+
+    expect(await response.json()).toEqual({
+      results: [
+        {
+          status: 404,
+          body: {
+            type: "not_found",
+            status: 404,
+            message: 'Contract "local" is not mocked',
+          },
+        },
+      ],
+    });
+  });
+});
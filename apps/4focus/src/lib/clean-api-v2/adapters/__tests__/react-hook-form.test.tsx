@@ -0,0 +1,263 @@
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import * as z from "zod";
+import { init } from "../../core";
+import {
+  HttpException,
+  NetworkException,
+  type ErrorVariant,
+} from "../../models";
+import { parseError } from "../fetch";
+import { useContractForm } from "../react-hook-form";
+import { zodCheck } from "../zod";
+
+type Task = {
+  title: string;
+  description: string;
+  priority: "high" | "low";
+};
+
+type APIContracts = {
+  createTask: {
+    dto: Task & { id: number };
+    error:
+      | ErrorVariant<
+          "bad_request",
+          400,
+          { issues: { path: string[]; message: string }[] }
+        >
+      | ErrorVariant<"internal_server_error", 500>;
+    payload: Task;
+  };
+  getTasks: {
+    dto: Task[];
+    error: never;
+  };
+};
+
+const badRequest = (issues: { path: string[]; message: string }[]) =>
+  new HttpException(new Response(null, { status: 400 }), {
+    type: "bad_request",
+    status: 400,
+    message: "Invalid input",
+    meta: { issues },
+  });
+
+const createApi = (
+  resolver: (input: {
+    payload: Task;
+  }) => Promise<APIContracts["createTask"]["dto"]>,
+) =>
+  init(undefined, { parseError })<APIContracts>()({
+    createTask: {
+      schemas: {
+        payload: zodCheck(
+          z.object({
+            title: z.string().min(3, "Title is too short"),
+            description: z.string(),
+            priority: z.enum(["high", "low"]),
+          }),
+        ),
+      },
+      resolver,
+    },
+    getTasks: { resolver: async () => [] },
+  });
+
+const renderForm = (api: ReturnType<typeof createApi>) =>
+  renderHook(() => {
+    const form = useContractForm(api, "createTask", {
+      pick: ["title", "description"],
+      defaults: { title: "", description: "" },
+    });
+
+    // Form state is updated only for properties read while rendering
+    void form.formState.errors;
+
+    return form;
+  });
+
+describe("React Hook Form binding works when", () => {
+  it("picked fields are typed and validated with the payload schema", async () => {
+    const resolver = vi.fn(async ({ payload }: { payload: Task }) => ({
+      id: 1,
+      ...payload,
+    }));
+    const { result } = renderForm(createApi(resolver));
+
+    expectTypeOf(result.current.getValues()).toEqualTypeOf<{
+      title: string;
+      description: string;
+    }>();
+
+    await act(() =>
+      result.current.submit((values) => ({
+        payload: { ...values, priority: "high" },
+      }))(),
+    );
+
+    expect(result.current.formState.errors.title?.message).toBe(
+      "Title is too short",
+    );
+    // Priority is not picked, it's missing until submit
+    expect(result.current.formState.errors).not.toHaveProperty("priority");
+    expect(resolver).not.toHaveBeenCalled();
+  });
+
+  it("valid values are sent with call", async () => {
+    const resolver = vi.fn(async ({ payload }: { payload: Task }) => ({
+      id: 1,
+      ...payload,
+    }));
+    const onOk = vi.fn();
+    const { result } = renderForm(createApi(resolver));
+
+    act(() => {
+      result.current.setValue("title", "Write tests");
+    });
+
+    await act(() =>
+      result.current.submit(
+        (values) => ({ payload: { ...values, priority: "low" } }),
+        { onOk },
+      )(),
+    );
+
+    expect(resolver).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload: { title: "Write tests", description: "", priority: "low" },
+      }),
+    );
+    expect(onOk).toHaveBeenCalledWith({
+      id: 1,
+      title: "Write tests",
+      description: "",
+      priority: "low",
+    });
+  });
+
+  it("server issues are set on matching fields and the rest on the root", async () => {
+    const onFail = vi.fn();
+    const { result } = renderForm(
+      createApi(async () => {
+        throw badRequest([
+          { path: ["payload", "title"], message: "Title is taken" },
+          { path: ["description"], message: "Description is rude" },
+          { path: ["priority"], message: "Priority is full" },
+        ]);
+      }),
+    );
+
+    act(() => {
+      result.current.setValue("title", "Write tests");
+    });
+
+    await act(() =>
+      result.current.submit(
+        (values) => ({ payload: { ...values, priority: "high" } }),
+        { onFail },
+      )(),
+    );
+
+    const { errors } = result.current.formState;
+
+    expect(errors.title?.message).toBe("Title is taken");
+    expect(errors.description?.message).toBe("Description is rude");
+    expect(errors.root?.server).toMatchObject({
+      type: "bad_request",
+      message: "Priority is full",
+    });
+    expect(onFail).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "bad_request", status: 400 }),
+    );
+  });
+
+  it("errors without issues are set on the root", async () => {
+    const { result } = renderForm(
+      createApi(async () => {
+        throw new NetworkException(new TypeError("Failed to fetch"));
+      }),
+    );
+
+    act(() => {
+      result.current.setValue("title", "Write tests");
+    });
+
+    await act(() =>
+      result.current.submit((values) => ({
+        payload: { ...values, priority: "high" },
+      }))(),
+    );
+
+    expect(result.current.formState.errors.root?.server?.type).toBe(
+      "no_server_response",
+    );
+  });
+
+  it("custom call receives the input", async () => {
+    const call = vi.fn(async ({ payload }: { payload: Task }) => ({
+      id: 2,
+      ...payload,
+    }));
+    const api = createApi(async () => {
+      throw new Error("Not used");
+    });
+    const { result } = renderHook(() =>
+      useContractForm(api, "createTask", {
+        defaults: { title: "Write tests", description: "", priority: "high" },
+        call,
+      }),
+    );
+
+    await act(() => result.current.submit((payload) => ({ payload }))());
+
+    expect(call).toHaveBeenCalledWith({
+      payload: { title: "Write tests", description: "", priority: "high" },
+    });
+  });
+
+  it("queued call ends the submission without waiting for replay", async () => {
+    const api = init(undefined, { parseError })<APIContracts>()({
+      createTask: {
+        resolver: async () => {
+          throw new NetworkException(new TypeError("Failed to fetch"));
+        },
+        queue: { parseError, awaitReplay: true },
+      },
+      getTasks: { resolver: async () => [] },
+    });
+    const onOk = vi.fn();
+    const onQueued = vi.fn();
+    const { result } = renderHook(() =>
+      useContractForm(api, "createTask", {
+        defaults: { title: "Write tests", description: "", priority: "high" },
+      }),
+    );
+
+    await act(() =>
+      result.current.submit((payload) => ({ payload }), { onOk, onQueued })(),
+    );
+
+    expect(onQueued).toHaveBeenCalledTimes(1);
+    expect(onOk).not.toHaveBeenCalled();
+    expect(api.queue.entries()).toHaveLength(1);
+    expect(result.current.formState.isSubmitting).toBe(false);
+  });
+
+  it("contract requirements are enforced", () => {
+    const api = init()<APIContracts>()({
+      createTask: { resolver: async () => ({ id: 1, ...task }) },
+      getTasks: { resolver: async () => [] },
+    });
+    const task: Task = { title: "Write", description: "", priority: "low" };
+
+    renderHook(() => {
+      // @ts-expect-error - parser is required when not registered at init
+      useContractForm(api, "createTask");
+      // @ts-expect-error - getTasks has no payload
+      useContractForm(api, "getTasks", { parseError });
+      // @ts-expect-error - only payload fields can be picked
+      useContractForm(api, "createTask", { parseError, pick: ["id"] });
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+import type { ReactNode } from "react";
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { init } from "../../core";
+import {
+  HttpException,
+  NetworkException,
+  type ErrorVariant,
+  type Paginated,
+  type ParsedError,
+} from "../../models";
+import { parseError } from "../fetch";
+import { createQueryBindings } from "../react-query";
+
+type APIContracts = {
+  getUsers: {
+    dto: { id: number; name: string }[];
+    error: ErrorVariant<"unauthorized", 401>;
+    extra: { signal: AbortSignal };
+  };
+  getUser: {
+    dto: { id: number; name: string };
+    error: ErrorVariant<"not_found", 404>;
+    pathParams: { id: number };
+    extra: { signal: AbortSignal };
+  };
+  createUser: {
+    dto: { id: number; name: string };
+    error: ErrorVariant<"bad_request", 400>;
+    payload: { name: string };
+  };
+  getUserPage: Paginated<
+    { id: number; name: string },
+    ErrorVariant<"unauthorized", 401>
+  >;
+};
+
+const users = [1, 2, 3].map((id) => ({ id, name: `User ${id}` }));
+
+const getUserPage = async ({
+  searchParams,
+}: {
+  searchParams: { cursor?: string; limit?: number };
+}) => {
+  const from = Number(searchParams.cursor ?? 0);
+  const to = from + (searchParams.limit ?? 2);
+
+  return {
+    items: users.slice(from, to),
+    nextCursor: to < users.length ? String(to) : null,
+  };
+};
+
+const createApi = () => {
+  const getUsers = vi.fn<
+    (input: {
+      extra: { signal: AbortSignal };
+    }) => Promise<APIContracts["getUsers"]["dto"]>
+  >(async () => [{ id: 1, name: "Ann" }]);
+
+  const api = init()<APIContracts>()({
+    getUsers: { resolver: getUsers },
+    getUser: {
+      resolver: async ({ pathParams }) => {
+        if (pathParams.id === 404) {
+          throw new HttpException(new Response(null, { status: 404 }), {
+            type: "not_found",
+            status: 404,
+            message: "Not found",
+          });
+        }
+
+        return { id: pathParams.id, name: "Ann" };
+      },
+    },
+    createUser: {
+      resolver: async ({ payload }) => ({ id: 2, name: payload.name }),
+    },
+    getUserPage: { resolver: getUserPage },
+  });
+
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  return {
+    getUsers,
+    queryClient,
+    wrapper,
+    bindings: createQueryBindings(api, { parseError }),
+  };
+};
+
+describe("React Query bindings work when", () => {
+  it("query key is built from contract key and input", () => {
+    const { bindings } = createApi();
+
+    expect(bindings.keys.all("getUser")).toEqual(["getUser"]);
+    expect(bindings.keys.input("getUser", { pathParams: { id: 1 } })).toEqual([
+      "getUser",
+      { pathParams: { id: 1 } },
+    ]);
+    expect(bindings.keys.input("getUsers")).toEqual(["getUsers", {}]);
+  });
+
+  it("query forwards the abort signal into extra", async () => {
+    const { bindings, wrapper, getUsers } = createApi();
+
+    const { result } = renderHook(() => bindings.useApiQuery("getUsers"), {
+      wrapper,
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(result.current.data).toEqual([{ id: 1, name: "Ann" }]);
+    expect(getUsers.mock.calls[0]![0].extra.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it("query errors are parsed and typed for the contract", async () => {
+    const { bindings, wrapper } = createApi();
+
+    const { result } = renderHook(
+      () => bindings.useApiQuery("getUser", { pathParams: { id: 404 } }),
+      { wrapper },
+    );
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    expect(result.current.error).toMatchObject({
+      type: "not_found",
+      status: 404,
+      message: "Not found",
+    });
+    expectTypeOf(result.current.error).toEqualTypeOf<ParsedError<
+      APIContracts,
+      "getUser"
+    > | null>();
+  });
+
+  it("select transforms data", async () => {
+    const { bindings, wrapper } = createApi();
+
+    const { result } = renderHook(
+      () =>
+        bindings.useApiQuery("getUsers", undefined, {
+          select: (users) => users.map((user) => user.name),
+        }),
+      { wrapper },
+    );
+
+    await waitFor(() => expect(result.current.data).toEqual(["Ann"]));
+    expectTypeOf(result.current.data).toEqualTypeOf<string[] | undefined>();
+  });
+
+  it("mutation calls the contract with its input", async () => {
+    const { bindings, wrapper } = createApi();
+
+    const { result } = renderHook(() => bindings.useApiMutation("createUser"), {
+      wrapper,
+    });
+
+    const created = await result.current.mutateAsync({
+      payload: { name: "Bob" },
+    });
+
+    expect(created).toEqual({ id: 2, name: "Bob" });
+  });
+
+  it("helpers prefetch, read, update and invalidate cached data", async () => {
+    const { bindings, queryClient, getUsers } = createApi();
+
+    await bindings.prefetch(queryClient, "getUsers");
+
+    expect(bindings.getData(queryClient, "getUsers")).toEqual([
+      { id: 1, name: "Ann" },
+    ]);
+
+    bindings.setData(queryClient, "getUsers", undefined, (users = []) => [
+      ...users,
+      { id: 3, name: "Cid" },
+    ]);
+
+    expect(bindings.getData(queryClient, "getUsers")).toHaveLength(2);
+
+    await bindings.invalidate(queryClient, "getUsers");
+
+    expect(
+      queryClient.getQueryState(bindings.keys.input("getUsers"))?.isInvalidated,
+    ).toBe(true);
+    expect(getUsers).toHaveBeenCalledTimes(1);
+  });
+
+  it("parser registered at init is used when not given", async () => {
+    const api = init(undefined, { parseError })<APIContracts>()({
+      getUsers: { resolver: async () => [] },
+      getUser: {
+        resolver: async () => {
+          throw new NetworkException(new TypeError("Failed to fetch"));
+        },
+      },
+      createUser: { resolver: async () => ({ id: 1, name: "Ann" }) },
+      getUserPage: { resolver: getUserPage },
+    });
+    const bindings = createQueryBindings(api);
+    const queryClient = new QueryClient();
+
+    const error = await queryClient
+      .fetchQuery(bindings.queryOptions("getUser", { pathParams: { id: 1 } }))
+      .catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ type: "no_server_response", status: -3 });
+  });
+
+  it("infinite query loads pages by cursor until it runs out", async () => {
+    const { bindings, wrapper } = createApi();
+
+    const { result } = renderHook(
+      () =>
+        bindings.useApiInfiniteQuery("getUserPage", {
+          searchParams: { limit: 2 },
+        }),
+      { wrapper },
+    );
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(result.current.hasNextPage).toBe(true);
+
+    await result.current.fetchNextPage();
+
+    await waitFor(() => expect(result.current.data?.pages).toHaveLength(2));
+
+    expect(
+      result.current.data?.pages.flatMap((page) =>
+        page.items.map(({ id }) => id),
+      ),
+    ).toEqual([1, 2, 3]);
+    expect(result.current.data?.pageParams).toEqual([undefined, "2"]);
+    expect(result.current.hasNextPage).toBe(false);
+    expect(
+      bindings.keys.pages("getUserPage", { searchParams: { limit: 2 } }),
+    ).toEqual(["getUserPage", { searchParams: { limit: 2 } }, "pages"]);
+  });
+
+  it("required input is enforced", () => {
+    const { bindings } = createApi();
+
+    // @ts-expect-error - getUser requires path params
+    bindings.keys.input("getUser");
+
+    const api = init()<APIContracts>()({
+      getUsers: { resolver: async () => [] },
+      getUser: { resolver: async () => ({ id: 1, name: "Ann" }) },
+      createUser: { resolver: async () => ({ id: 1, name: "Ann" }) },
+      getUserPage: { resolver: getUserPage },
+    });
+
+    // @ts-expect-error - parser is required when not registered at init
+    createQueryBindings(api);
+  });
+});
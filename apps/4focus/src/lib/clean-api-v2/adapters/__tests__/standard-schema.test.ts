@@ -0,0 +1,127 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as z from "zod";
+import {
+  standardCheck,
+  standardCheckAsync,
+  type StandardSchemaV1,
+} from "../standard-schema";
+import { init } from "../../core";
+import { ValidationException } from "../../models";
+
+// Minimal vendor-agnostic schema, the way libraries other than Zod implement it
+const positiveNumber = (
+  isAsync = false,
+): StandardSchemaV1<number | string, number> => ({
+  "~standard": {
+    version: 1,
+    vendor: "custom",
+    validate: (value) => {
+      const parsed = Number(value);
+      const result =
+        Number.isFinite(parsed) && parsed > 0
+          ? { value: parsed }
+          : {
+              issues: [
+                {
+                  message: "Expected positive number",
+                  path: [{ key: "items" }, 0],
+                },
+              ],
+            };
+
+      return isAsync ? Promise.resolve(result) : result;
+    },
+  },
+});
+
+describe("Standard Schema adapter works when", () => {
+  it("compliant Zod schema validates and returns output", () => {
+    const schema = z.object({ id: z.string().transform(Number) });
+
+    const result = standardCheck(schema)({ id: "1" });
+
+    expect(result).toEqual({ id: 1 });
+    expectTypeOf(result).toEqualTypeOf<{ id: number }>();
+  });
+
+  it("issues are mapped into ValidationException", () => {
+    const schema = z.object({ tags: z.array(z.string()) });
+
+    try {
+      standardCheck(schema)({ tags: [1] });
+      expect.unreachable();
+    } catch (error) {
+      expect(ValidationException.is(error)).toBe(true);
+      expect((error as ValidationException).issues).toEqual([
+        {
+          path: ["tags", "0"],
+          message: "Invalid input: expected string, received number",
+        },
+      ]);
+    }
+  });
+
+  it("path segments given as objects are supported", () => {
+    expect(() => standardCheck(positiveNumber())(-1)).toThrow(
+      ValidationException,
+    );
+
+    try {
+      standardCheck(positiveNumber())(-1);
+    } catch (error) {
+      expect((error as ValidationException).issues).toEqual([
+        { path: ["items", "0"], message: "Expected positive number" },
+      ]);
+    }
+  });
+
+  it("async schema is rejected by sync validator", () => {
+    expect(() => standardCheck(positiveNumber(true))(1)).toThrow(
+      'Schema from "custom" validates asynchronously, use standardCheckAsync',
+    );
+  });
+
+  it("async validator supports sync and async schemas", async () => {
+    expect(await standardCheckAsync(positiveNumber(true))("2")).toBe(2);
+    expect(await standardCheckAsync(positiveNumber())("3")).toBe(3);
+    await expect(
+      standardCheckAsync(positiveNumber(true))("a"),
+    ).rejects.toBeInstanceOf(ValidationException);
+  });
+});
+
+describe("Standard Schema adapter in contracts works when", () => {
+  type APIContracts = {
+    getItem: {
+      dto: { id: number };
+      error: never;
+      pathParams: { id: number };
+    };
+  };
+
+  const dtoSchema = z.object({ id: z.number() });
+
+  const api = init(undefined, { mode: "parse" })<APIContracts>()({
+    getItem: {
+      resolver: async ({ pathParams }) => ({ id: pathParams.id }),
+      schemas: {
+        dto: standardCheck(dtoSchema),
+        pathParams: standardCheckAsync(
+          z.object({
+            id: z.union([z.string(), z.number()]).pipe(z.coerce.number()),
+          }),
+        ),
+      },
+    },
+  });
+
+  it("raw schema is available", () => {
+    expect(api.getRawSchema("getItem").dto).toBe(dtoSchema);
+  });
+
+  it("inputs are parsed before calling resolver", async () => {
+    expect(await api.call("getItem", { pathParams: { id: "5" } })).toEqual({
+      id: 5,
+    });
+  });
+});
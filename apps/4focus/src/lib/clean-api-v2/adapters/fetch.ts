@@ -0,0 +1,177 @@
+import {
+  type AbortedError,
+  type ClientExceptionError,
+  type Contracts,
+  type NoInternetError,
+  type NoServerResponseError,
+  type ParsedError,
+  type UnsupportedServerResponseError,
+  type CleanApi,
+  HttpException,
+  NetworkException,
+  QueuedException,
+  ValidationException,
+  type ValidationError,
+  type Configuration,
+  type ValidationMode,
+} from "../models";
+import { ensureOk, fetchResponse } from "../http";
+
+const isAbortError = (error: unknown): boolean =>
+  typeof error === "object" &&
+  error !== null &&
+  "name" in error &&
+  error.name === "AbortError";
+
+// Messages of TypeErrors thrown by fetch itself (Chromium, Firefox, Safari, Node)
+const FETCH_FAILURE_MESSAGES = [
+  "Failed to fetch",
+  "NetworkError when attempting to fetch resource.",
+  "Load failed",
+  "fetch failed",
+];
+
+const isFetchFailure = (error: unknown): boolean =>
+  error instanceof TypeError && FETCH_FAILURE_MESSAGES.includes(error.message);
+
+/**
+ * Parses an error thrown during a fetch based call - generated http resolvers
+ * or hand-written ones using "fetchResponse(url).then(ensureOk)" or calling
+ * fetch directly. It's not bound to any api instance, so it can be used in
+ * retry policies
+ */
+const parseError = <
+  TContracts extends Contracts,
+  TKey extends keyof TContracts,
+>(
+  key: TKey,
+  error: unknown,
+): ParsedError<TContracts, TKey> => {
+  // Queued call is parsed like the connectivity failure that queued it
+  if (QueuedException.is(error)) {
+    return {
+      ...parseError<TContracts, TKey>(key, error.error),
+      rawError: error,
+    } as ParsedError<TContracts, TKey>;
+  }
+
+  // Case 0: Validation failed on client side
+  if (ValidationException.is(error)) {
+    const result: ValidationError & { rawError: unknown } = {
+      status: -6,
+      type: "validation_error",
+      message: "Invalid input",
+      meta: {
+        issues: error.issues,
+      },
+      rawError: error,
+    };
+
+    return result;
+  }
+
+  // Case 1: The server responded with a status code out of the 2xx range
+  if (HttpException.is(error)) {
+    const responseData = (error.data ?? {}) as {
+      type?: unknown;
+      status?: unknown;
+      message?: unknown;
+      meta?: unknown;
+    };
+
+    if (
+      typeof responseData.message === "string" &&
+      typeof responseData.type === "string" &&
+      typeof responseData.status === "number"
+    ) {
+      const result = {
+        status: responseData.status,
+        type: responseData.type,
+        message: responseData.message,
+        rawError: error,
+        ...(responseData.meta ? { meta: responseData.meta } : {}),
+      } as ParsedError<TContracts, TKey>;
+
+      return result;
+    }
+
+    const result: UnsupportedServerResponseError & { rawError: unknown } = {
+      status: -5,
+      type: "unsupported_server_response",
+      message: "The server's error response format is unsupported.",
+      rawError: error,
+      meta: {
+        originalStatus: error.response.status,
+        originalResponse: error.data,
+      },
+    };
+
+    return result;
+  }
+
+  // Case 2: The request was aborted with AbortController
+  if (isAbortError(error)) {
+    const result: AbortedError & { rawError: unknown } = {
+      status: 0,
+      type: "aborted",
+      message: "Request aborted",
+      rawError: error,
+    };
+    return result;
+  }
+
+  // Case 3: No response was received, other TypeErrors are bugs and must
+  // not be retried or queued as connectivity issues
+  if (NetworkException.is(error) || isFetchFailure(error)) {
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      const result: NoInternetError & { rawError: unknown } = {
+        status: -2,
+        type: "no_internet",
+        message: "No internet connection",
+        rawError: error,
+      };
+
+      return result;
+    }
+
+    const result: NoServerResponseError & { rawError: unknown } = {
+      status: -3,
+      type: "no_server_response",
+      message: "No server response",
+      rawError: error,
+    };
+    return result;
+  }
+
+  const result: ClientExceptionError & { rawError: unknown } = {
+    status: -1,
+    type: "client_exception",
+    message: "Client exception",
+    rawError: error,
+  };
+  return result;
+};
+
+const errorParser = <
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TParsedErrors extends boolean,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  _api: CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TParsedErrors
+  >,
+) => {
+  return <TKey extends keyof TContracts>(
+    key: TKey,
+    error: unknown,
+  ): ParsedError<TContracts, TKey> => parseError<TContracts, TKey>(key, error);
+};
+
+export { errorParser, parseError, ensureOk, fetchResponse };
@@ -0,0 +1,102 @@
+import type { AxiosRequestConfig } from "axios";
+import axios from "axios";
+import merge from "lodash/merge";
+import type {
+  CleanAPIConfig,
+  CleanAPIContracts,
+  CleanAPIRootConfig,
+} from "../../clean-api";
+import { init } from "../core";
+import type { CallArgs, HttpMethod } from "../models";
+import { parseError } from "./axios";
+
+type LegacyInput = {
+  pathParams?: Record<string, unknown>;
+  searchParams?: Record<string, unknown>;
+  payload?: unknown;
+};
+
+type LegacyResolvers<TContracts extends CleanAPIContracts> = {
+  [K in keyof TContracts]: {
+    resolver: (
+      ...args: CallArgs<undefined, TContracts, K>
+    ) => Promise<TContracts[K]["dto"]>;
+  };
+};
+
+// Not encoded, like in v1, so existing paths resolve to the same URLs
+const applyLegacyPathParams = (
+  path: string,
+  pathParams?: Record<string, unknown>,
+): string => {
+  let finalPath = path;
+
+  for (const paramKey in pathParams) {
+    finalPath = finalPath.replace(`:${paramKey}`, String(pathParams[paramKey]));
+  }
+
+  return finalPath;
+};
+
+const createLegacyResolver =
+  (
+    definition: { method: HttpMethod; path: string },
+    baseConfig: CleanAPIRootConfig | undefined,
+  ) =>
+  async (input: LegacyInput = {}): Promise<unknown> => {
+    const axiosConfig: AxiosRequestConfig = merge({}, baseConfig, {
+      params: input.searchParams,
+    });
+    const url = `${axiosConfig.baseURL ?? ""}${applyLegacyPathParams(definition.path, input.pathParams)}`;
+
+    switch (definition.method) {
+      case "get":
+        return axios.get(url, axiosConfig).then((res) => res.data);
+      case "post":
+        return axios
+          .post(url, input.payload, axiosConfig)
+          .then((res) => res.data);
+      case "put":
+        return axios
+          .put(url, input.payload, axiosConfig)
+          .then((res) => res.data);
+      case "patch":
+        return axios
+          .patch(url, input.payload, axiosConfig)
+          .then((res) => res.data);
+      case "delete":
+        return axios.delete(url, axiosConfig).then((res) => res.data);
+    }
+  };
+
+/**
+ * Creates clean-api-v2 instance from the config of lib/clean-api (v1).
+ * Requests are sent with axios the same way as by v1, errors are parsed by
+ * the axios adapter, so "type" comes from the response body instead of the
+ * status text. Bodies without "type" and "status" are parsed as
+ * "unsupported_server_response", while v1 accepts any body with "message".
+ */
+const fromLegacy =
+  <TContracts extends CleanAPIContracts>() =>
+  <
+    TConfig extends {
+      [K in keyof TContracts]: { method: HttpMethod; path: string };
+    },
+  >(
+    config: TConfig & CleanAPIConfig<TContracts, TConfig>,
+    baseConfig?: CleanAPIRootConfig,
+  ) => {
+    const resolvers: Record<string, { resolver: unknown }> = {};
+
+    for (const key in config) {
+      resolvers[key] = {
+        resolver: createLegacyResolver(config[key], baseConfig),
+      };
+    }
+
+    return init(undefined, { parseError })<TContracts>()(
+      resolvers as LegacyResolvers<TContracts>,
+    );
+  };
+
+export { fromLegacy };
@@ -0,0 +1,234 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { delay, http, HttpResponse, type HttpHandler } from "msw";
+import type {
+  BatchRequest,
+  BatchResponse,
+  CleanApi,
+  Configuration,
+  Contracts,
+  ValidationMode,
+} from "../models";
+import type { JSONSchema, OpenAPIOperation, SchemaConverter } from "../openapi";
+import { createRandom, fakeFromJSONSchema, hashSeed } from "../fake";
+
+// "type" or "status" literal of error union members
+type ErrorSelector<TError> = TError extends { type: infer TType }
+  ? TError extends { status: infer TStatus }
+    ? TType | TStatus
+    : TType
+  : never;
+
+type MockScenario<TContract extends Contracts[string]> = {
+  /** Responds with given dto instead of generated one */
+  dto?: TContract["dto"];
+  /** Responds with error variant picked by "type"/"status" or with given error */
+  error?: ErrorSelector<TContract["error"]> | TContract["error"];
+  /** Milliseconds to wait before responding */
+  delay?: number;
+};
+
+type MockScenarios<TContracts extends Contracts> = {
+  [K in keyof TContracts]?: MockScenario<TContracts[K]>;
+};
+
+type MockHandlersOptions<TContracts extends Contracts> = {
+  toJSONSchema: SchemaConverter;
+  /** Prefix of handled paths, must match the "http.baseURL" used by the api */
+  baseURL?: string;
+  /** Changing seed changes every generated value */
+  seed?: number;
+  /** Default scenarios, restored by reset() */
+  overrides?: MockScenarios<TContracts>;
+  /** Method and path for contracts with hand-written resolvers */
+  operations?: { [K in keyof TContracts]?: Partial<OpenAPIOperation> };
+  /** Batch route of the api, calls are answered like by their own handlers */
+  batch?: {
+    path: `/${string}`;
+  };
+};
+
+type MockHandlers<TContracts extends Contracts> = {
+  handlers: HttpHandler[];
+  /** Switches scenario of the contract until reset() */
+  use: <TKey extends keyof TContracts>(
+    key: TKey,
+    scenario: MockScenario<TContracts[TKey]>,
+  ) => void;
+  reset: () => void;
+  /** Generated dto or error variant, the same for the same seed */
+  fake: <TKey extends keyof TContracts>(
+    key: TKey,
+    slot: "dto" | "error",
+    selector?: ErrorSelector<TContracts[TKey]["error"]>,
+  ) => unknown;
+};
+
+const getVariants = (schema: JSONSchema): JSONSchema[] =>
+  (schema.anyOf ?? schema.oneOf ?? [schema]) as JSONSchema[];
+
+const matchesSelector = (variant: JSONSchema, selector: unknown): boolean => {
+  const properties = (variant.properties ?? {}) as Record<string, JSONSchema>;
+
+  return (
+    properties.type?.const === selector || properties.status?.const === selector
+  );
+};
+
+/**
+ * Builds MSW handlers for contracts with "http" definitions (or ones given
+ * in "operations"). Responses are generated from raw dto and error schemas
+ * with seeded random, so every run gives the same data. With "batch" calls
+ * sent in batch mode are answered as well.
+ */
+const createMockHandlers = <
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TParsedErrors extends boolean,
+>(
+  api: CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TParsedErrors
+  >,
+  options: MockHandlersOptions<TContracts>,
+): MockHandlers<TContracts> => {
+  const seed = options.seed ?? 1;
+  const baseURL = options.baseURL ?? "";
+  let scenarios = { ...options.overrides } as MockScenarios<TContracts>;
+
+  const getJSONSchema = (key: keyof TContracts, slot: "dto" | "error") => {
+    const rawSchemas = (api.getRawSchema(key as any) ?? {}) as Record<
+      string,
+      unknown
+    >;
+
+    return slot in rawSchemas
+      ? options.toJSONSchema(rawSchemas[slot], "output")
+      : undefined;
+  };
+
+  const fake: MockHandlers<TContracts>["fake"] = (key, slot, selector) => {
+    const schema = getJSONSchema(key, slot);
+
+    if (!schema) {
+      throw new Error(
+        `Contract "${String(key)}" has no ${slot} schema to fake`,
+      );
+    }
+
+    const variants =
+      slot === "error"
+        ? getVariants(schema).filter(
+            (variant) =>
+              selector === undefined || matchesSelector(variant, selector),
+          )
+        : [schema];
+
+    if (variants.length === 0) {
+      throw new Error(
+        `Contract "${String(key)}" has no error variant "${String(selector)}"`,
+      );
+    }
+
+    // Each contract and slot has own sequence, so adding one does not shift others
+    const random = createRandom(
+      hashSeed(`${String(key)}:${slot}:${String(selector)}`, seed),
+    );
+
+    return fakeFromJSONSchema(variants[0]!, random);
+  };
+
+  const respond = async (
+    key: keyof TContracts,
+    status: number,
+  ): Promise<BatchResponse["results"][number]> => {
+    const scenario: MockScenario<Contracts[string]> = scenarios[key] ?? {};
+
+    if (scenario.delay) {
+      await delay(scenario.delay);
+    }
+
+    if (scenario.error !== undefined) {
+      const error =
+        typeof scenario.error === "object"
+          ? scenario.error
+          : fake(key, "error", scenario.error as never);
+
+      return { status: (error as { status: number }).status, body: error };
+    }
+
+    const dto = scenario.dto !== undefined ? scenario.dto : fake(key, "dto");
+
+    return { status, body: dto };
+  };
+
+  const handlers: HttpHandler[] = [];
+  const statuses = new Map<string, number>();
+
+  for (const key of api.getKeys()) {
+    const operation: Partial<OpenAPIOperation> = {
+      ...api.getHttp(key),
+      ...options.operations?.[key],
+    };
+    const { method, path } = operation;
+
+    if (!method || !path) {
+      continue;
+    }
+
+    const status = operation.status ?? (method === "post" ? 201 : 200);
+
+    statuses.set(String(key), status);
+    handlers.push(
+      http[method](`${baseURL}${path}`, async () => {
+        const result = await respond(key, status);
+
+        return HttpResponse.json(result.body as any, { status: result.status });
+      }),
+    );
+  }
+
+  if (options.batch) {
+    handlers.push(
+      http.post(`${baseURL}${options.batch.path}`, async ({ request }) => {
+        const { calls } = (await request.json()) as BatchRequest;
+        const results = await Promise.all(
+          calls.map(({ key }) => {
+            const status = statuses.get(key);
+
+            return status === undefined
+              ? {
+                  status: 404,
+                  body: {
+                    type: "not_found",
+                    status: 404,
+                    message: `Contract "${key}" is not mocked`,
+                  },
+                }
+              : respond(key as keyof TContracts, status);
+          }),
+        );
+
+        return HttpResponse.json({ results } satisfies BatchResponse);
+      }),
+    );
+  }
+
+  return {
+    handlers,
+    use: (key, scenario) => {
+      scenarios = { ...scenarios, [key]: scenario };
+    },
+    reset: () => {
+      scenarios = { ...options.overrides } as MockScenarios<TContracts>;
+    },
+    fake,
+  };
+};
+
+export type { MockScenario, MockScenarios, MockHandlersOptions, MockHandlers };
+export { createMockHandlers };
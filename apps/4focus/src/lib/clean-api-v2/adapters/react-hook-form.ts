@@ -0,0 +1,361 @@
+import {
+  useForm,
+  type DefaultValues,
+  type FieldErrors,
+  type FieldValues,
+  type Path,
+  type Resolver,
+  type UseFormProps,
+  type UseFormReturn,
+} from "react-hook-form";
+import {
+  ValidationException,
+  type CleanApi,
+  type Configuration,
+  type Contracts,
+  type ContractsInput,
+  type InferInput,
+  type ParsedError,
+  type ValidationMode,
+} from "../models";
+
+// Only contracts sending a payload can back a form
+type PayloadKeys<TContracts extends Contracts> = {
+  [K in keyof TContracts]: "payload" extends keyof TContracts[K] ? K : never;
+}[keyof TContracts];
+
+type FormPayload<
+  TContracts extends Contracts,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TKey extends keyof TContracts,
+> = NonNullable<
+  ContractsInput<TContracts, TContractsSignature, TMode>[TKey]["payload"]
+>;
+
+type FormValues<TPayload, TField extends keyof TPayload> =
+  Pick<TPayload, TField> extends infer TValues extends FieldValues
+    ? TValues
+    : never;
+
+type FormInput<
+  TContracts extends Contracts,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TKey extends keyof TContracts,
+> = InferInput<
+  ContractsInput<TContracts, TContractsSignature, TMode>,
+  ContractsInput<TContracts, TContractsSignature, TMode>[TKey]
+>;
+
+type Issue = { path: PropertyKey[]; message: string };
+
+type ContractFormOptions<
+  TContracts extends Contracts,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TKey extends keyof TContracts,
+  TField extends keyof FormPayload<
+    TContracts,
+    TContractsSignature,
+    TMode,
+    TKey
+  >,
+> = Omit<
+  UseFormProps<
+    FormValues<
+      FormPayload<TContracts, TContractsSignature, TMode, TKey>,
+      TField
+    >
+  >,
+  "resolver" | "defaultValues"
+> & {
+  /** Payload fields edited by the form, all of them by default */
+  pick?: readonly TField[];
+  defaults?: DefaultValues<
+    FormValues<
+      FormPayload<TContracts, TContractsSignature, TMode, TKey>,
+      TField
+    >
+  >;
+  /**
+   * Sends the input instead of "call" (e.g. mutateAsync of React Query
+   * bindings), errors it throws must be already parsed
+   */
+  call?: (
+    input: FormInput<TContracts, TContractsSignature, TMode, TKey>,
+  ) => Promise<TContracts[TKey]["dto"]>;
+};
+
+type ErrorParserOption<
+  TContracts extends Contracts,
+  TKey extends keyof TContracts,
+> = {
+  /**
+   * Turns thrown errors into ErrorVariant (e.g. parseError from adapters),
+   * not needed when the parser is registered at init()
+   */
+  parseError: (key: TKey, error: unknown) => ParsedError<TContracts, TKey>;
+};
+
+type SubmitCallbacks<TDto, TError> = {
+  onOk?: (dto: TDto) => void;
+  /** Called after issues of the error are shown on the form */
+  onFail?: (error: TError) => void;
+  /**
+   * Called when the call lands in the offline queue, the submission ends
+   * then instead of waiting for the replay (e.g. with "awaitReplay")
+   */
+  onQueued?: () => void;
+};
+
+// Issue paths are relative to the payload, server ones may start with it
+const toFieldName = (path: PropertyKey[]): string | undefined => {
+  const head = path[0] === "payload" ? path[1] : path[0];
+
+  return head === undefined ? undefined : String(head);
+};
+
+const readIssues = (error: unknown): Issue[] => {
+  const { type, meta } = error as {
+    type?: unknown;
+    meta?: { issues?: unknown };
+  };
+
+  if (
+    (type === "bad_request" || type === "validation_error") &&
+    Array.isArray(meta?.issues)
+  ) {
+    return meta.issues as Issue[];
+  }
+
+  return [];
+};
+
+/**
+ * Binds react-hook-form to the contract. Values are validated with the
+ * contract payload schema, "submit" sends them with "call" and shows issues
+ * of bad_request and validation_error errors on matching fields. Issues not
+ * matching any field and other errors are set on "root.server".
+ */
+const useContractForm = <
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TParsedErrors extends boolean,
+  TKey extends PayloadKeys<TContracts>,
+  const TField extends keyof FormPayload<
+    TContracts,
+    TContractsSignature,
+    TMode,
+    TKey
+  > = keyof FormPayload<TContracts, TContractsSignature, TMode, TKey>,
+>(
+  api: CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TParsedErrors
+  >,
+  key: TKey,
+  ...[options]: TParsedErrors extends true
+    ? [
+        options?: ContractFormOptions<
+          TContracts,
+          TContractsSignature,
+          TMode,
+          TKey,
+          TField
+        > &
+          Partial<ErrorParserOption<TContracts, TKey>>,
+      ]
+    : [
+        options: ContractFormOptions<
+          TContracts,
+          TContractsSignature,
+          TMode,
+          TKey,
+          TField
+        > &
+          ErrorParserOption<TContracts, TKey>,
+      ]
+) => {
+  type Input = FormInput<TContracts, TContractsSignature, TMode, TKey>;
+  type Values = FormValues<
+    FormPayload<TContracts, TContractsSignature, TMode, TKey>,
+    TField
+  >;
+  type Dto = TContracts[TKey]["dto"];
+  type Error = ParsedError<TContracts, TKey>;
+
+  const {
+    pick,
+    defaults,
+    call,
+    parseError,
+    ...formProps
+  }: Partial<
+    ContractFormOptions<TContracts, TContractsSignature, TMode, TKey, TField> &
+      ErrorParserOption<TContracts, TKey>
+  > = options ?? {};
+
+  // Without "pick" every payload field belongs to the form
+  const isField = (name: string | undefined): name is string =>
+    name !== undefined &&
+    (!pick || pick.some((field) => String(field) === name));
+
+  const resolver: Resolver<Values> = async (values) => {
+    const validate = (
+      api.getSchema(key as never) as
+        | { payload?: (data: unknown) => unknown }
+        | undefined
+    )?.payload;
+
+    try {
+      await validate?.(values);
+    } catch (error) {
+      if (!ValidationException.is(error)) {
+        throw error;
+      }
+
+      const errors: Record<string, { type: string; message: string }> = {};
+
+      // Picked payloads miss fields added on submit, their issues are skipped
+      for (const issue of error.issues) {
+        const name = toFieldName(issue.path);
+
+        if (isField(name) && !errors[name]) {
+          errors[name] = { type: "validation", message: issue.message };
+        }
+      }
+
+      if (Object.keys(errors).length > 0) {
+        return { values: {}, errors: errors as FieldErrors<Values> };
+      }
+    }
+
+    return { values, errors: {} };
+  };
+
+  const form: UseFormReturn<Values> = useForm<Values>({
+    ...formProps,
+    resolver,
+    defaultValues: defaults,
+  });
+
+  const send = async (input: Input): Promise<[true, Dto] | [false, Error]> => {
+    if (call) {
+      try {
+        return [true, await call(input)];
+      } catch (error) {
+        return [false, error as Error];
+      }
+    }
+
+    if (parseError) {
+      try {
+        return [
+          true,
+          await (api.call as (key: TKey, input: Input) => Promise<Dto>)(
+            key,
+            input,
+          ),
+        ];
+      } catch (error) {
+        return [false, parseError(key, error)];
+      }
+    }
+
+    // Parser registered at init() already parsed the error
+    return (
+      api.safeCall as (
+        key: TKey,
+        input: Input,
+      ) => Promise<[true, Dto] | [false, Error]>
+    )(key, input);
+  };
+
+  const showError = (error: Error): void => {
+    const { type, message } = error as { type: string; message: string };
+
+    if (type === "aborted") {
+      return;
+    }
+
+    const issues = readIssues(error);
+    const unmatched: string[] = [];
+
+    for (const issue of issues) {
+      const name = toFieldName(issue.path);
+
+      if (isField(name)) {
+        form.setError(name as Path<Values>, {
+          type: "server",
+          message: issue.message,
+        });
+      } else {
+        unmatched.push(issue.message);
+      }
+    }
+
+    if (issues.length === 0 || unmatched.length > 0) {
+      form.setError("root.server", {
+        type,
+        message: issues.length === 0 ? message : unmatched.join(". "),
+      });
+    }
+  };
+
+  // Resolves with null once a new call of the contract is queued
+  const watchQueue = () => {
+    const known = new Set(api.queue.entries().map((entry) => entry.id));
+    let stop = () => {};
+    const queued = new Promise<null>((resolve) => {
+      stop = api.queue.subscribe((entries) => {
+        if (
+          entries.some((entry) => entry.key === key && !known.has(entry.id))
+        ) {
+          resolve(null);
+        }
+      });
+    });
+
+    return { queued, stop };
+  };
+
+  /** Builds the submit handler, "toInput" completes the call input */
+  const submit = (
+    toInput: (values: Values) => Input,
+    callbacks: SubmitCallbacks<Dto, Error> = {},
+  ) =>
+    form.handleSubmit(async (values) => {
+      // Watched before sending, so a queued call isn't missed
+      const watch = callbacks.onQueued ? watchQueue() : undefined;
+      const sending = send(toInput(values));
+      const outcome = watch
+        ? await Promise.race([sending, watch.queued]).finally(watch.stop)
+        : await sending;
+
+      if (outcome === null) {
+        callbacks.onQueued?.();
+        return;
+      }
+
+      const [ok, result] = outcome;
+
+      if (ok) {
+        callbacks.onOk?.(result);
+        return;
+      }
+
+      showError(result);
+      callbacks.onFail?.(result);
+    });
+
+  return { ...form, submit };
+};
+
+export type { ContractFormOptions, SubmitCallbacks };
+export { useContractForm };
@@ -0,0 +1,300 @@
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  type InfiniteData,
+  type QueryClient,
+  type Updater,
+  type UseInfiniteQueryOptions,
+  type UseMutationOptions,
+  type UseQueryOptions,
+} from "@tanstack/react-query";
+import type {
+  CleanApi,
+  Configuration,
+  Contracts,
+  ContractsInput,
+  InferInput,
+  Page,
+  PageParams,
+  PaginatedKeys,
+  ParsedError,
+  ValidationMode,
+} from "../models";
+
+// Call input without the signal, it's provided by React Query
+type QueryInput<TInputs extends Contracts, TKey extends keyof TInputs> = Omit<
+  InferInput<TInputs, TInputs[TKey]>,
+  "extra"
+> &
+  ("extra" extends keyof TInputs[TKey]
+    ? { extra?: Omit<NonNullable<TInputs[TKey]["extra"]>, "signal"> }
+    : unknown);
+
+// Input is optional when contract has no required slots
+type InputArgs<TInput, TRest extends unknown[] = []> =
+  Partial<TInput> extends TInput
+    ? [input?: TInput, ...rest: TRest]
+    : [input: TInput, ...rest: TRest];
+
+type ApiQueryKey<TKey> =
+  | readonly [TKey]
+  | readonly [TKey, unknown]
+  | readonly [TKey, unknown, "pages"];
+
+// Page request input, the cursor comes from the previous page
+const withCursor = <TInput>(input: TInput, cursor: string | undefined) => {
+  const searchParams = (input as { searchParams?: PageParams } | undefined)
+    ?.searchParams;
+
+  return {
+    ...input,
+    searchParams: {
+      ...searchParams,
+      ...(cursor !== undefined ? { cursor } : {}),
+    },
+  };
+};
+
+type QueryBindingsOptions<TContracts extends Contracts> = {
+  /**
+   * Turns thrown errors into ErrorVariant (e.g. parseError from adapters),
+   * not needed when the parser is registered at init()
+   */
+  parseError: <TKey extends keyof TContracts>(
+    key: TKey,
+    error: unknown,
+  ) => ParsedError<TContracts, TKey>;
+};
+
+/**
+ * Creates typed React Query hooks and helpers for every contract. Query keys
+ * are [contractKey, input], so invalidating by contract key covers all inputs.
+ */
+const createQueryBindings = <
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TParsedErrors extends boolean,
+>(
+  api: CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TParsedErrors
+  >,
+  ...[options]: TParsedErrors extends true
+    ? [options?: QueryBindingsOptions<TContracts>]
+    : [options: QueryBindingsOptions<TContracts>]
+) => {
+  type TInputs = ContractsInput<TContracts, TContractsSignature, TMode>;
+  type Input<TKey extends keyof TContracts> = QueryInput<TInputs, TKey>;
+  type Dto<TKey extends keyof TContracts> = TContracts[TKey]["dto"];
+
+  const call = api.call as (
+    key: keyof TContracts,
+    input?: unknown,
+  ) => Promise<unknown>;
+  const safeCall = api.safeCall as (
+    key: keyof TContracts,
+    input?: unknown,
+  ) => Promise<[true, unknown] | [false, unknown]>;
+
+  const run = async <TKey extends keyof TContracts>(
+    key: TKey,
+    input: Input<TKey> | undefined,
+    signal?: AbortSignal,
+  ): Promise<Dto<TKey>> => {
+    const extra = (input as { extra?: object } | undefined)?.extra;
+    const callInput = signal
+      ? { ...input, extra: { ...extra, signal } }
+      : input;
+
+    if (options) {
+      try {
+        return await call(key, callInput);
+      } catch (error) {
+        throw options.parseError(key, error);
+      }
+    }
+
+    // Parser registered at init() already parsed the error
+    const [ok, result] = await safeCall(key, callInput);
+
+    if (!ok) {
+      throw result;
+    }
+
+    return result;
+  };
+
+  const keys = {
+    /** Matches queries of the contract with any input */
+    all: <TKey extends keyof TContracts>(key: TKey): ApiQueryKey<TKey> => [key],
+    input: <TKey extends keyof TContracts>(
+      key: TKey,
+      ...[input]: InputArgs<Input<TKey>>
+    ): ApiQueryKey<TKey> => [key, input ?? {}],
+    /** Pages of a paginated contract, kept apart from the single page query */
+    pages: <TKey extends PaginatedKeys<TContracts>>(
+      key: TKey,
+      ...[input]: InputArgs<Input<TKey>>
+    ): ApiQueryKey<TKey> => [key, input ?? {}, "pages"],
+  };
+
+  const queryOptions = <TKey extends keyof TContracts>(
+    key: TKey,
+    ...[input]: InputArgs<Input<TKey>>
+  ) => ({
+    queryKey: keys.input(key, ...([input] as InputArgs<Input<TKey>>)),
+    queryFn: ({ signal }: { signal: AbortSignal }) => run(key, input, signal),
+  });
+
+  const useApiQuery = <TKey extends keyof TContracts, TData = Dto<TKey>>(
+    key: TKey,
+    ...[input, queryHookOptions]: InputArgs<
+      Input<TKey>,
+      [
+        options?: Omit<
+          UseQueryOptions<
+            Dto<TKey>,
+            ParsedError<TContracts, TKey>,
+            TData,
+            ApiQueryKey<TKey>
+          >,
+          "queryKey" | "queryFn"
+        >,
+      ]
+    >
+  ) =>
+    useQuery({
+      ...queryHookOptions,
+      ...queryOptions(key, ...([input] as InputArgs<Input<TKey>>)),
+    });
+
+  const infiniteQueryOptions = <TKey extends PaginatedKeys<TContracts>>(
+    key: TKey,
+    ...[input]: InputArgs<Input<TKey>>
+  ) => {
+    const searchParams = (input as { searchParams?: PageParams } | undefined)
+      ?.searchParams;
+
+    return {
+      queryKey: keys.pages(key, ...([input] as InputArgs<Input<TKey>>)),
+      queryFn: ({
+        signal,
+        pageParam,
+      }: {
+        signal: AbortSignal;
+        pageParam: string | undefined;
+      }) => run(key, withCursor(input, pageParam), signal),
+      initialPageParam: searchParams?.cursor,
+      getNextPageParam: (lastPage: Dto<TKey>) =>
+        (lastPage as Page<unknown>).nextCursor ?? undefined,
+    };
+  };
+
+  /** Loads pages of a paginated contract one by one with "fetchNextPage" */
+  const useApiInfiniteQuery = <
+    TKey extends PaginatedKeys<TContracts>,
+    TData = InfiniteData<Dto<TKey>, string | undefined>,
+  >(
+    key: TKey,
+    ...[input, infiniteHookOptions]: InputArgs<
+      Input<TKey>,
+      [
+        options?: Omit<
+          UseInfiniteQueryOptions<
+            Dto<TKey>,
+            ParsedError<TContracts, TKey>,
+            TData,
+            ApiQueryKey<TKey>,
+            string | undefined
+          >,
+          "queryKey" | "queryFn" | "initialPageParam" | "getNextPageParam"
+        >,
+      ]
+    >
+  ) =>
+    useInfiniteQuery({
+      ...infiniteHookOptions,
+      ...infiniteQueryOptions(key, ...([input] as InputArgs<Input<TKey>>)),
+    });
+
+  const useApiMutation = <TKey extends keyof TContracts, TContext = unknown>(
+    key: TKey,
+    mutationHookOptions?: Omit<
+      UseMutationOptions<
+        Dto<TKey>,
+        ParsedError<TContracts, TKey>,
+        Input<TKey>,
+        TContext
+      >,
+      "mutationFn"
+    >,
+  ) =>
+    useMutation({
+      ...mutationHookOptions,
+      mutationFn: (input: Input<TKey>) => run(key, input),
+    });
+
+  const prefetch = <TKey extends keyof TContracts>(
+    queryClient: QueryClient,
+    key: TKey,
+    ...[input]: InputArgs<Input<TKey>>
+  ): Promise<void> =>
+    queryClient.prefetchQuery(
+      queryOptions(key, ...([input] as InputArgs<Input<TKey>>)),
+    );
+
+  /** Without input all queries of the contract are invalidated */
+  const invalidate = <TKey extends keyof TContracts>(
+    queryClient: QueryClient,
+    key: TKey,
+    input?: Input<TKey>,
+  ): Promise<void> =>
+    queryClient.invalidateQueries({
+      queryKey:
+        input === undefined
+          ? keys.all(key)
+          : keys.input(key, ...([input] as InputArgs<Input<TKey>>)),
+    });
+
+  const getData = <TKey extends keyof TContracts>(
+    queryClient: QueryClient,
+    key: TKey,
+    ...[input]: InputArgs<Input<TKey>>
+  ): Dto<TKey> | undefined =>
+    queryClient.getQueryData(
+      keys.input(key, ...([input] as InputArgs<Input<TKey>>)),
+    );
+
+  const setData = <TKey extends keyof TContracts>(
+    queryClient: QueryClient,
+    key: TKey,
+    input: Input<TKey> | undefined,
+    updater: Updater<Dto<TKey> | undefined, Dto<TKey> | undefined>,
+  ): Dto<TKey> | undefined =>
+    queryClient.setQueryData(
+      keys.input(key, ...([input] as InputArgs<Input<TKey>>)),
+      updater,
+    );
+
+  return {
+    keys,
+    queryOptions,
+    infiniteQueryOptions,
+    useApiQuery,
+    useApiInfiniteQuery,
+    useApiMutation,
+    prefetch,
+    invalidate,
+    getData,
+    setData,
+  };
+};
+
+export type { QueryInput, ApiQueryKey, QueryBindingsOptions };
+export { createQueryBindings };
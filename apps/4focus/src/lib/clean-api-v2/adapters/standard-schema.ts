@@ -0,0 +1,86 @@
+import { ValidationException } from "../models";
+import { check, checkAsync } from "../core";
+
+// Copy of the Standard Schema interface (https://standardschema.dev), the spec
+// recommends inlining it instead of depending on a package
+type StandardSchemaV1<TInput = unknown, TOutput = TInput> = {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) =>
+      | StandardSchemaV1Result<TOutput>
+      | Promise<StandardSchemaV1Result<TOutput>>;
+    readonly types?: { readonly input: TInput; readonly output: TOutput };
+  };
+};
+
+type StandardSchemaV1Issue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+};
+
+type StandardSchemaV1Result<TOutput> =
+  | { readonly value: TOutput; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaV1Issue> };
+
+type StandardInput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema["~standard"]["types"]
+>["input"];
+
+type StandardOutput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema["~standard"]["types"]
+>["output"];
+
+const toValue = <TOutput>(result: StandardSchemaV1Result<TOutput>): TOutput => {
+  if (result.issues) {
+    throw new ValidationException(
+      result.issues.map((issue) => ({
+        path: (issue.path ?? []).map((segment) =>
+          String(typeof segment === "object" ? segment.key : segment),
+        ),
+        message: issue.message,
+      })),
+    );
+  }
+
+  return result.value;
+};
+
+/**
+ * Creates a synchronous validator from any Standard Schema compliant schema
+ * (Zod 4, Valibot, ArkType, Effect Schema). Schemas with async rules must
+ * use standardCheckAsync
+ */
+const standardCheck = <TSchema extends StandardSchemaV1>(schema: TSchema) => {
+  return check<StandardOutput<TSchema>, TSchema, StandardInput<TSchema>>(
+    (data) => {
+      const result = schema["~standard"].validate(data);
+
+      if (result instanceof Promise) {
+        throw new TypeError(
+          `Schema from "${schema["~standard"].vendor}" validates asynchronously, use standardCheckAsync`,
+        );
+      }
+
+      return toValue(result);
+    },
+    schema,
+  );
+};
+
+/**
+ * Creates an asynchronous validator from any Standard Schema compliant schema
+ */
+const standardCheckAsync = <TSchema extends StandardSchemaV1>(
+  schema: TSchema,
+) => {
+  return checkAsync<StandardOutput<TSchema>, TSchema, StandardInput<TSchema>>(
+    async (data) => toValue(await schema["~standard"].validate(data)),
+    schema,
+  );
+};
+
+export type { StandardSchemaV1, StandardSchemaV1Issue, StandardSchemaV1Result };
+export { standardCheck, standardCheckAsync };
@@ -1,13 +1,14 @@
-import type z from "zod";
+import * as z from "zod";
 import { ValidationException } from "../models";
 import { check, checkAsync } from "../core";
+import type { SchemaConverter } from "../openapi";
 
 /**
  * Creates a synchronous Zod validator using the check function factory
  * The raw Zod schema is attached and can be extracted using getRawSchema()
  */
 const zodCheck = <TSchema extends z.ZodTypeAny>(schema: TSchema) => {
-  return check((data: unknown): z.infer<TSchema> => {
+  return check<z.output<TSchema>, TSchema, z.input<TSchema>>((data) => {
     const parsed = schema.safeParse(data);
 
     if (!parsed.success) {
@@ -28,20 +29,60 @@ const zodCheck = <TSchema extends z.ZodTypeAny>(schema: TSchema) => {
  * The raw Zod schema is attached and can be extracted using getRawSchema()
  */
 const zodCheckAsync = <TSchema extends z.ZodTypeAny>(schema: TSchema) => {
-  return checkAsync(async (data: unknown): Promise<z.infer<TSchema>> => {
-    const parsed = await schema.safeParseAsync(data);
+  return checkAsync<z.output<TSchema>, TSchema, z.input<TSchema>>(
+    async (data) => {
+      const parsed = await schema.safeParseAsync(data);
 
-    if (!parsed.success) {
-      throw new ValidationException(
-        parsed.error.issues.map((issue) => ({
-          path: issue.path.map((p) => String(p)),
-          message: issue.message,
-        })),
-      );
-    }
+      if (!parsed.success) {
+        throw new ValidationException(
+          parsed.error.issues.map((issue) => ({
+            path: issue.path.map((p) => String(p)),
+            message: issue.message,
+          })),
+        );
+      }
 
-    return parsed.data;
-  }, schema); // Pass the raw Zod schema as second parameter
+      return parsed.data;
+    },
+    schema,
+  ); // Pass the raw Zod schema as second parameter
+};
+
+/**
+ * Converts raw Zod schemas for generateOpenAPI(). Types without JSON Schema
+ * equivalent (e.g. dates, transforms output) are emitted as any
+ */
+const zodToJSONSchema: SchemaConverter = (rawSchema, io) => {
+  if (!(rawSchema instanceof z.ZodType)) {
+    return undefined;
+  }
+
+  // Dialect is defined by the OpenAPI document itself
+  const schema: Record<string, unknown> = {
+    ...z.toJSONSchema(rawSchema, { io, unrepresentable: "any" }),
+  };
+  delete schema.$schema;
+
+  return schema;
 };
 
-export { zodCheck, zodCheckAsync };
+/**
+ * Dto schema of paginated contracts, the page envelope around items
+ */
+const zodPage = <TItem extends z.ZodTypeAny>(item: TItem) =>
+  z.object({
+    items: z.array(item),
+    nextCursor: z.string().nullable(),
+  });
+
+/**
+ * Search params schema of paginated contracts, "limit" read from the URL is
+ * coerced to a number. Extend it with params specific to the contract.
+ */
+const zodPageParams = (maxLimit = 100) =>
+  z.object({
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().positive().max(maxLimit).optional(),
+  });
+
+export { zodCheck, zodCheckAsync, zodToJSONSchema, zodPage, zodPageParams };
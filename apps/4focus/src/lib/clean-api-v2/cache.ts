@@ -0,0 +1,194 @@
+import type { CacheEntry, CacheStorage } from "./models";
+
+/**
+ * Keeps cached responses in memory, lost on page reload
+ */
+const createMemoryStorage = (): CacheStorage => {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get: (id) => entries.get(id),
+    set: (id, entry) => {
+      entries.set(id, entry);
+    },
+    delete: (id) => {
+      entries.delete(id);
+    },
+    keys: () => [...entries.keys()],
+  };
+};
+
+/**
+ * Keeps cached responses in Web Storage (localStorage by default).
+ * Values must be JSON serializable.
+ * @param storage - Storage implementation, e.g. localStorage or sessionStorage
+ * @param prefix - Prefix separating cache entries from other stored items
+ */
+const createWebStorage = (
+  storage: Storage = localStorage,
+  prefix = "clean-api:",
+): CacheStorage => {
+  return {
+    get: (id) => {
+      const raw = storage.getItem(prefix + id);
+
+      if (raw === null) {
+        return undefined;
+      }
+
+      try {
+        return JSON.parse(raw) as CacheEntry;
+      } catch {
+        storage.removeItem(prefix + id);
+        return undefined;
+      }
+    },
+    set: (id, entry) => {
+      storage.setItem(prefix + id, JSON.stringify(entry));
+    },
+    delete: (id) => {
+      storage.removeItem(prefix + id);
+    },
+    keys: () => {
+      const ids: string[] = [];
+
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+
+        if (key?.startsWith(prefix)) {
+          ids.push(key.slice(prefix.length));
+        }
+      }
+
+      return ids;
+    },
+  };
+};
+
+/**
+ * Keeps cached responses in IndexedDB, values must be structured cloneable
+ * @param name - Database name
+ * @param factory - IndexedDB implementation, the global one by default
+ */
+const createIndexedDBStorage = (
+  name = "clean-api-cache",
+  factory: IDBFactory = indexedDB,
+): CacheStorage => {
+  const STORE = "entries";
+
+  const request = <T>(req: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+
+  let database: Promise<IDBDatabase> | undefined;
+
+  const open = (): Promise<IDBDatabase> => {
+    database ??= new Promise((resolve, reject) => {
+      const req = factory.open(name, 1);
+
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+
+    return database;
+  };
+
+  const store = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    const db = await open();
+
+    return db.transaction(STORE, mode).objectStore(STORE);
+  };
+
+  return {
+    get: async (id) =>
+      request<CacheEntry | undefined>((await store("readonly")).get(id)),
+    set: async (id, entry) => {
+      await request((await store("readwrite")).put(entry, id));
+    },
+    delete: async (id) => {
+      await request((await store("readwrite")).delete(id));
+    },
+    keys: async () => {
+      const keys = await request((await store("readonly")).getAllKeys());
+
+      return keys.map(String);
+    },
+  };
+};
+
+/**
+ * TTL and tag aware layer on top of a cache storage. With a scope, ids are
+ * prefixed with it, so entries of other scopes (e.g. users) are never read.
+ */
+class ResponseCache {
+  constructor(
+    private storage: CacheStorage,
+    private scope?: () => string | undefined,
+  ) {}
+
+  private scoped = (id: string): string => {
+    const scope = this.scope?.();
+
+    return scope === undefined ? id : `${scope}:${id}`;
+  };
+
+  get = async (id: string): Promise<CacheEntry | undefined> => {
+    const scopedId = this.scoped(id);
+    const entry = await this.storage.get(scopedId);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      await this.storage.delete(scopedId);
+      return undefined;
+    }
+
+    return entry;
+  };
+
+  set = async (
+    id: string,
+    value: unknown,
+    { ttl, tags = [] }: { ttl: number; tags?: string[] },
+  ): Promise<void> => {
+    await this.storage.set(this.scoped(id), {
+      value,
+      tags,
+      expiresAt: Date.now() + ttl,
+    });
+  };
+
+  invalidate = async (tag: string): Promise<void> => {
+    const ids = await this.storage.keys();
+
+    for (const id of ids) {
+      const entry = await this.storage.get(id);
+
+      if (entry?.tags.includes(tag)) {
+        await this.storage.delete(id);
+      }
+    }
+  };
+
+  clear = async (): Promise<void> => {
+    const ids = await this.storage.keys();
+
+    for (const id of ids) {
+      await this.storage.delete(id);
+    }
+  };
+}
+
+export {
+  createIndexedDBStorage,
+  createMemoryStorage,
+  createWebStorage,
+  ResponseCache,
+};
@@ -0,0 +1,298 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type {
+  CleanApi,
+  InferContracts,
+  LifecycleEvent,
+  QueueEntry,
+} from "./models";
+import { runAll, runSettle } from "./concurrency";
+
+// Structural, variance of CleanApi members rejects concrete APIs
+type AnyCleanApi = { getKeys: () => PropertyKey[] };
+
+type InferSignature<TApi> =
+  TApi extends CleanApi<any, any, infer TContractsSignature, any, any>
+    ? TContractsSignature
+    : never;
+
+type InferConfiguration<TApi> =
+  TApi extends CleanApi<any, infer TConfiguration, any, any, any>
+    ? TConfiguration
+    : never;
+
+type InferMode<TApi> =
+  TApi extends CleanApi<any, any, any, infer TMode, any> ? TMode : never;
+
+type InferParsedErrors<TApi> =
+  TApi extends CleanApi<any, any, any, any, infer TParsedErrors>
+    ? TParsedErrors
+    : never;
+
+/** Contract keys of the combined API, e.g. "tasks.create" */
+type NamespacedKey<TApis extends Record<string, AnyCleanApi>> = {
+  [TName in keyof TApis & string]: `${TName}.${keyof InferContracts<
+    TApis[TName]
+  > &
+    string}`;
+}[keyof TApis & string];
+
+type Namespaced<
+  TApis extends Record<string, AnyCleanApi>,
+  TInfer extends "contracts" | "signature",
+> = {
+  [TKey in NamespacedKey<TApis>]: TKey extends `${infer TName}.${infer TContractKey}`
+    ? TInfer extends "contracts"
+      ? InferContracts<TApis[TName]>[TContractKey]
+      : TContractKey extends keyof InferSignature<TApis[TName]>
+        ? InferSignature<TApis[TName]>[TContractKey]
+        : never
+    : never;
+};
+
+/**
+ * API made of APIs given under namespaces, mode and error parsing should be
+ * the same in all of them. "combine" spells it as CleanApi, through this
+ * alias helpers like defineRoute can't infer its type arguments.
+ */
+type CombinedApi<TApis extends Record<string, AnyCleanApi>> = CleanApi<
+  Namespaced<TApis, "contracts">,
+  InferConfiguration<TApis[keyof TApis]>,
+  Namespaced<TApis, "signature">,
+  InferMode<TApis[keyof TApis]>,
+  InferParsedErrors<TApis[keyof TApis]>
+>;
+
+// Namespaced APIs are called with their own keys, the combined one is typed
+type LooseApi = Record<string, any>;
+
+type Route = { name: string; api: LooseApi; key: string };
+
+/**
+ * Merges APIs under namespaces, their contracts are called with keys like
+ * "tasks.create". Events, middleware and queued calls of namespaced APIs are
+ * seen with namespaced keys and call ids. Each API keeps its own options,
+ * e.g. error parser, cache or batch path.
+ */
+const combine = <TApis extends Record<string, AnyCleanApi>>(
+  apis: TApis,
+): CleanApi<
+  Namespaced<TApis, "contracts">,
+  InferConfiguration<TApis[keyof TApis]>,
+  Namespaced<TApis, "signature">,
+  InferMode<TApis[keyof TApis]>,
+  InferParsedErrors<TApis[keyof TApis]>
+> => {
+  const names = Object.keys(apis);
+
+  for (const name of names) {
+    if (name.includes(".")) {
+      throw new Error(`Namespace "${name}" can't contain "."`);
+    }
+  }
+
+  const route = (namespacedKey: PropertyKey): Route => {
+    const value = String(namespacedKey);
+    const dot = value.indexOf(".");
+    const name = value.slice(0, dot);
+    const api = dot === -1 ? undefined : (apis[name] as LooseApi | undefined);
+
+    if (!api) {
+      throw new Error(`Contract "${value}" is not defined`);
+    }
+
+    return { name, api, key: value.slice(dot + 1) };
+  };
+
+  const each = <TResult>(
+    run: (api: LooseApi, name: string) => TResult,
+  ): TResult[] => names.map((name) => run(apis[name] as LooseApi, name));
+
+  const toMeta = <TMeta extends { key: unknown; callId: string }>(
+    name: string,
+    meta: TMeta,
+  ): TMeta => ({
+    ...meta,
+    key: `${name}.${String(meta.key)}`,
+    callId: `${name}.${meta.callId}`,
+  });
+
+  const unsubscribeAll = (unsubscribes: (() => void)[]) => () => {
+    for (const unsubscribe of unsubscribes) {
+      unsubscribe();
+    }
+  };
+
+  const subscribe = (
+    event: LifecycleEvent,
+    key: PropertyKey,
+    callback: (payload: any) => unknown,
+    once = false,
+  ): (() => void) => {
+    const listen = (api: LooseApi, name: string, contractKey: string) => {
+      const listener = (payload: any) => callback(toMeta(name, payload));
+
+      return once
+        ? api.once(event, contractKey, listener)
+        : api[event](contractKey, listener);
+    };
+
+    if (key !== "*") {
+      const { api, name, key: contractKey } = route(key);
+
+      return listen(api, name, contractKey);
+    }
+
+    if (!once) {
+      return unsubscribeAll(each((api, name) => listen(api, name, "*")));
+    }
+
+    // The first event of any namespace ends the subscription
+    let unsubscribes: (() => void)[] = [];
+    const stop = () => unsubscribeAll(unsubscribes)();
+
+    unsubscribes = each((api, name) =>
+      api[event]("*", (payload: any) => {
+        stop();
+        return callback(toMeta(name, payload));
+      }),
+    );
+
+    return stop;
+  };
+
+  const use = (keyOrMiddleware: PropertyKey | any, middleware?: any) => {
+    const wrap = (name: string, wrapped: any) => (ctx: any, next: any) =>
+      wrapped(toMeta(name, ctx), (nextCtx?: any) =>
+        next(nextCtx && { ...nextCtx, key: ctx.key, callId: ctx.callId }),
+      );
+
+    if (typeof keyOrMiddleware === "function") {
+      return unsubscribeAll(
+        each((api, name) => api.use(wrap(name, keyOrMiddleware))),
+      );
+    }
+
+    const { api, name, key } = route(keyOrMiddleware);
+
+    return api.use(key, middleware && wrap(name, middleware));
+  };
+
+  // Methods taking the contract key first are forwarded to its API
+  const forward =
+    (method: string) =>
+    (key: PropertyKey, ...args: unknown[]) => {
+      const { api, key: contractKey } = route(key);
+
+      return api[method](contractKey, ...args);
+    };
+
+  const collectEntries = (): QueueEntry[] =>
+    each((api, name) =>
+      (api.queue.entries() as QueueEntry[]).map((entry) => ({
+        ...entry,
+        key: `${name}.${entry.key}`,
+      })),
+    ).flat();
+
+  // Rebuilt only on changes, so snapshots can be compared by reference
+  let queued = collectEntries();
+
+  each((api) =>
+    api.queue.subscribe(() => {
+      queued = collectEntries();
+    }),
+  );
+
+  const entries = (): QueueEntry[] => queued;
+
+  // Unknown keys reject like failed calls instead of throwing
+  const forwardAsync =
+    (method: string) =>
+    async (key: PropertyKey, ...args: unknown[]) =>
+      forward(method)(key, ...args);
+
+  const call = forwardAsync("call");
+  const safeCall = forwardAsync("safeCall");
+
+  const combined = {
+    use,
+    onCall: (key: PropertyKey, callback: any) =>
+      subscribe("onCall", key, callback),
+    onOk: (key: PropertyKey, callback: any) => subscribe("onOk", key, callback),
+    onFail: (key: PropertyKey, callback: any) =>
+      subscribe("onFail", key, callback),
+    onSettled: (key: PropertyKey, callback: any) =>
+      subscribe("onSettled", key, callback),
+    once: (event: LifecycleEvent, key: PropertyKey, callback: any) =>
+      subscribe(event, key, callback, true),
+    call,
+    safeCall,
+    all: (calls: readonly (readonly unknown[])[], options = {}) =>
+      runAll(calls, options, call),
+    settle: (calls: readonly (readonly unknown[])[], options = {}) =>
+      runSettle(calls, options, safeCall),
+    paginate: forward("paginate"),
+    subscribe: forward("subscribe"),
+    error: forward("error"),
+    dto: forward("dto"),
+    pathParams: forward("pathParams"),
+    searchParams: forward("searchParams"),
+    payload: forward("payload"),
+    extra: forward("extra"),
+    pathParamsAsync: forwardAsync("pathParamsAsync"),
+    searchParamsAsync: forwardAsync("searchParamsAsync"),
+    payloadAsync: forwardAsync("payloadAsync"),
+    extraAsync: forwardAsync("extraAsync"),
+    errorAsync: forwardAsync("errorAsync"),
+    dtoAsync: forwardAsync("dtoAsync"),
+    queue: {
+      entries,
+      flush: async () => {
+        await Promise.all(each((api) => api.queue.flush()));
+      },
+      remove: async (id: string) => {
+        await Promise.all(
+          each((api) =>
+            (api.queue.entries() as QueueEntry[]).some(
+              (entry) => entry.id === id,
+            )
+              ? api.queue.remove(id)
+              : undefined,
+          ),
+        );
+      },
+      clear: async () => {
+        await Promise.all(each((api) => api.queue.clear()));
+      },
+      subscribe: (listener: (entries: QueueEntry[]) => void) =>
+        unsubscribeAll(
+          each((api) => api.queue.subscribe(() => listener(entries()))),
+        ),
+    },
+    cache: {
+      invalidate: async (tag: string) => {
+        await Promise.all(each((api) => api.cache.invalidate(tag)));
+      },
+      peek: async (key: PropertyKey, ...args: unknown[]) => {
+        const { api, key: contractKey } = route(key);
+
+        return api.cache.peek(contractKey, ...args);
+      },
+      clear: async () => {
+        await Promise.all(each((api) => api.cache.clear()));
+      },
+    },
+    getSchema: forward("getSchema"),
+    getRawSchema: forward("getRawSchema"),
+    getKeys: () =>
+      each((api, name) =>
+        (api.getKeys() as string[]).map((key) => `${name}.${key}`),
+      ).flat(),
+    getHttp: forward("getHttp"),
+  };
+
+  return combined as unknown as CombinedApi<TApis>;
+};
+
+export type { CombinedApi, NamespacedKey };
+export { combine };
@@ -0,0 +1,148 @@
+import type { AllOptions, SettleOptions } from "./models";
+
+/**
+ * Runs tasks by index with at most "concurrency" of them at once. Tasks not
+ * started yet are skipped once "shouldStop" returns true.
+ */
+const runConcurrently = async (
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false,
+): Promise<void> => {
+  let next = 0;
+
+  const worker = async () => {
+    while (next < count && !shouldStop()) {
+      await task(next++);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, count));
+
+  await Promise.all(Array.from({ length: workers }, worker));
+};
+
+/**
+ * Controller aborted with the given signal, "unlink" stops following it
+ */
+const linkSignal = (signal?: AbortSignal) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+
+  if (signal?.aborted) {
+    abort();
+  } else {
+    signal?.addEventListener("abort", abort, { once: true });
+  }
+
+  return {
+    controller,
+    unlink: () => signal?.removeEventListener("abort", abort),
+  };
+};
+
+/**
+ * Puts the signal into "extra" of the call input, overriding the given one
+ */
+const withSignal = (input: unknown, signal: AbortSignal): object => {
+  const value = (input ?? {}) as { extra?: unknown };
+
+  return {
+    ...value,
+    extra: { ...(value.extra as object), signal },
+  };
+};
+
+// Calls are [key, input?] tuples, checked by "all" and "settle" signatures
+type RunCalls = readonly (readonly unknown[])[];
+
+type RunCall<TKey> = (key: TKey, input?: unknown) => Promise<unknown>;
+
+/**
+ * Runs [key, input] calls concurrently, resolves with dtos in the same order.
+ * With "failFast" the first failure rejects at once and aborts the rest.
+ */
+const runAll = async <TKey>(
+  calls: RunCalls,
+  options: AllOptions,
+  call: RunCall<TKey>,
+): Promise<unknown[]> => {
+  const { failFast = true, concurrency = calls.length } = options;
+  const { controller, unlink } = linkSignal(options.signal);
+  const dtos: unknown[] = [];
+  let resolved = 0;
+  let failure: { error: unknown } | undefined;
+  let rejectEarly: (error: unknown) => void = () => {};
+  const failedFast = new Promise<never>((_, reject) => {
+    rejectEarly = reject;
+  });
+
+  // Rejection is observed by the race only in "failFast" mode
+  failedFast.catch(() => {});
+
+  const settled = runConcurrently(
+    calls.length,
+    concurrency,
+    async (index) => {
+      const [key, input] = calls[index] as [TKey, unknown?];
+
+      try {
+        dtos[index] = await call(key, withSignal(input, controller.signal));
+        resolved++;
+      } catch (error) {
+        failure ??= { error };
+
+        if (failFast) {
+          controller.abort();
+          rejectEarly(error);
+        }
+      }
+    },
+    () => controller.signal.aborted || (failFast && !!failure),
+  );
+
+  try {
+    await (failFast ? Promise.race([settled, failedFast]) : settled);
+  } finally {
+    unlink();
+  }
+
+  if (failure) {
+    throw failure.error;
+  }
+
+  // Aborted before all calls were started
+  if (resolved < calls.length) {
+    throw controller.signal.reason;
+  }
+
+  return dtos;
+};
+
+/**
+ * Runs [key, input] calls concurrently with "safeCall", each of them has a
+ * result even when aborted
+ */
+const runSettle = async <TKey>(
+  calls: RunCalls,
+  options: SettleOptions,
+  safeCall: RunCall<TKey>,
+): Promise<unknown[]> => {
+  const { concurrency = calls.length } = options;
+  const { controller, unlink } = linkSignal(options.signal);
+  const results: unknown[] = [];
+
+  // Calls are started even after abort, so each of them has a result
+  await runConcurrently(calls.length, concurrency, async (index) => {
+    const [key, input] = calls[index] as [TKey, unknown?];
+
+    results[index] = await safeCall(key, withSignal(input, controller.signal));
+  });
+
+  unlink();
+
+  return results;
+};
+
+export { runConcurrently, linkSignal, withSignal, runAll, runSettle };
@@ -5,25 +5,56 @@ import type {
   Configuration,
   Contracts,
   ContractSchemas,
+  CachePolicy,
+  ErrorParser,
+  EventKey,
+  LifecycleEvent,
+  HttpDefinition,
+  InitOptions,
+  Middleware,
+  MiddlewareContext,
+  Page,
+  PageParams,
+  QueueEntry,
+  QueuePolicy,
+  RetryPolicy,
   SchemaValidator,
+  HttpPathIssues,
+  SseDefinition,
+  StreamInput,
+  ValidationMode,
 } from "./models";
+import { QueuedException, StreamEvent, ValidationException } from "./models";
+import { getRetryDelay, isRetryableError, waitForRetry } from "./retry";
+import { InFlightRegistry } from "./dedupe";
+import { getInputFingerprint } from "./fingerprint";
+import { createMemoryStorage, ResponseCache } from "./cache";
+import { createMemoryQueueStorage, MutationQueue } from "./queue";
+import { linkSignal, runAll, runSettle } from "./concurrency";
+import {
+  createHttpBatcher,
+  createHttpResolver,
+  createRPCResolver,
+} from "./http";
+import { createSSEResolver, isReconnectableError } from "./sse";
 
 /**
  * Generic event subscription manager for handling API event callbacks
  */
 class EventSubscriptionManager<TContracts extends Contracts> {
   private subscriptions = new Map<
-    keyof TContracts,
+    EventKey<TContracts>,
     Map<symbol, (...args: any[]) => void | Promise<void>>
   >();
 
   /**
-   * Subscribe to an event for a specific endpoint
+   * Subscribe to an event for a specific endpoint, "*" for all endpoints
    */
-  subscribe = <TKey extends keyof TContracts>(
+  subscribe = <TKey extends EventKey<TContracts>>(
     key: TKey,
     callback: (...args: any[]) => void | Promise<void>,
     eventType: string,
+    once = false,
   ): (() => void) => {
     const callId = Symbol(`${eventType}:${key.toString()}`);
 
@@ -32,9 +63,7 @@ class EventSubscriptionManager<TContracts extends Contracts> {
       this.subscriptions.set(key, new Map());
     }
 
-    this.subscriptions.get(key)?.set(callId, callback);
-
-    return () => {
+    const unsubscribe = () => {
       const endpointSubs = this.subscriptions.get(key);
 
       if (endpointSubs) {
@@ -45,29 +74,157 @@ class EventSubscriptionManager<TContracts extends Contracts> {
         }
       }
     };
+
+    this.subscriptions.get(key)?.set(
+      callId,
+      once
+        ? (...args) => {
+            unsubscribe();
+            return callback(...args);
+          }
+        : callback,
+    );
+
+    return unsubscribe;
   };
 
   /**
-   * Emit an event to all subscribers of a specific endpoint
+   * Emit an event to subscribers of a specific endpoint and wildcard ones.
+   * Resolves when async callbacks settle, their failures are only logged.
    */
   emit = <TKey extends keyof TContracts>(
     key: TKey,
     data: any,
     eventType: string,
-  ): void => {
-    const subs = this.subscriptions.get(key);
-    if (subs) {
-      for (const [, callback] of subs) {
-        try {
-          callback(data);
-        } catch (error) {
-          console.error(
-            `${eventType} callback error for endpoint '${key.toString()}':`,
-            error,
-          );
+  ): Promise<void> => {
+    const report = (error: unknown) => {
+      console.error(
+        `${eventType} callback error for endpoint '${key.toString()}':`,
+        error,
+      );
+    };
+    // Copied, so "once" callbacks can unsubscribe during iteration
+    const callbacks = [
+      ...(this.subscriptions.get(key)?.values() ?? []),
+      ...(this.subscriptions.get("*")?.values() ?? []),
+    ];
+    const pending: Promise<void>[] = [];
+
+    for (const callback of callbacks) {
+      try {
+        const result = callback(data);
+
+        if (result instanceof Promise) {
+          pending.push(result.catch(report));
         }
+      } catch (error) {
+        report(error);
       }
     }
+
+    return Promise.all(pending).then(() => undefined);
+  };
+}
+
+type ResolverInput = {
+  pathParams?: Record<string, unknown>;
+  searchParams?: Record<string, unknown>;
+  payload?: unknown;
+  extra?: unknown;
+  config?: unknown;
+};
+
+/**
+ * Keeps global and per-endpoint middleware and runs them as an onion around resolvers
+ */
+class MiddlewareManager<
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+> {
+  private global = new Map<
+    symbol,
+    Middleware<TContracts, TConfiguration, any>
+  >();
+  private perKey = new Map<
+    keyof TContracts,
+    Map<symbol, Middleware<TContracts, TConfiguration, any>>
+  >();
+
+  /**
+   * Register middleware for all endpoints or for a specific endpoint
+   */
+  use = (
+    middleware: Middleware<TContracts, TConfiguration, any>,
+    key?: keyof TContracts,
+  ): (() => void) => {
+    const id = Symbol(`middleware:${key?.toString() ?? "*"}`);
+
+    if (key === undefined) {
+      this.global.set(id, middleware);
+
+      return () => {
+        this.global.delete(id);
+      };
+    }
+
+    if (!this.perKey.has(key)) {
+      this.perKey.set(key, new Map());
+    }
+
+    this.perKey.get(key)?.set(id, middleware);
+
+    return () => {
+      const endpointMiddleware = this.perKey.get(key);
+
+      if (endpointMiddleware) {
+        endpointMiddleware.delete(id);
+
+        if (endpointMiddleware.size === 0) {
+          this.perKey.delete(key);
+        }
+      }
+    };
+  };
+
+  /**
+   * Run the chain - global middleware first, then endpoint ones, then resolver
+   */
+  run = <TKey extends keyof TContracts>(
+    context: MiddlewareContext<TContracts, TConfiguration, TKey>,
+    resolver: (input: ResolverInput) => Promise<unknown>,
+  ): Promise<unknown> => {
+    const chain = [
+      ...this.global.values(),
+      ...(this.perKey.get(context.key)?.values() ?? []),
+    ];
+
+    const dispatch = (
+      index: number,
+      currentContext: MiddlewareContext<TContracts, TConfiguration, any>,
+    ): Promise<unknown> => {
+      const middleware = chain[index];
+
+      if (!middleware) {
+        const input: ResolverInput = { ...(currentContext.input as object) };
+
+        if (
+          typeof currentContext.config === "object" &&
+          currentContext.config
+        ) {
+          input.config = currentContext.config;
+        }
+
+        return resolver(input);
+      }
+
+      return Promise.resolve(
+        middleware(currentContext, (nextContext = currentContext) =>
+          dispatch(index + 1, nextContext),
+        ),
+      );
+    };
+
+    return dispatch(0, context);
   };
 }
 
@@ -75,12 +232,13 @@ class EventSubscriptionManager<TContracts extends Contracts> {
  * Creates a synchronous validator function that validates data and returns it if valid.
  * @param validator - Function that validates the data and throws ValidationException if invalid
  * @param rawSchema - Optional raw schema object (e.g., Zod schema) for client-side usage
+ * @template TInput - Type accepted before parsing, used by "parse" mode to type inputs
  * @returns A function that validates data synchronously with optional raw schema attached
  */
-const check = <TData, TRawSchema = unknown>(
+const check = <TData, TRawSchema = unknown, TInput = TData>(
   validator: (data: unknown) => TData,
   rawSchema?: TRawSchema,
-): SchemaValidator<TData, TRawSchema> => {
+): SchemaValidator<TData, TRawSchema, TInput> => {
   const validatorFn = (data: unknown): TData => {
     return validator(data);
   };
@@ -89,19 +247,20 @@ const check = <TData, TRawSchema = unknown>(
     validatorFn["__rawSchema"] = rawSchema;
   }
 
-  return validatorFn as SchemaValidator<TData, TRawSchema>;
+  return validatorFn as SchemaValidator<TData, TRawSchema, TInput>;
 };
 
 /**
  * Creates an asynchronous validator function that validates data and returns it if valid.
  * @param validator - Function that validates the data and throws ValidationException if invalid
  * @param rawSchema - Optional raw schema object (e.g., Zod schema) for client-side usage
+ * @template TInput - Type accepted before parsing, used by "parse" mode to type inputs
  * @returns A function that validates data asynchronously with optional raw schema attached
  */
-const checkAsync = <TData, TRawSchema = unknown>(
+const checkAsync = <TData, TRawSchema = unknown, TInput = TData>(
   validator: (data: unknown) => Promise<TData>,
   rawSchema?: TRawSchema,
-): SchemaValidator<TData, TRawSchema> => {
+): SchemaValidator<TData, TRawSchema, TInput> => {
   const validatorFn = async (data: unknown): Promise<TData> => {
     return await validator(data);
   };
@@ -110,51 +269,317 @@ const checkAsync = <TData, TRawSchema = unknown>(
     validatorFn["__rawSchema"] = rawSchema;
   }
 
-  return validatorFn as SchemaValidator<TData, TRawSchema>;
+  return validatorFn as SchemaValidator<TData, TRawSchema, TInput>;
+};
+
+const getSignal = (extra: unknown): AbortSignal | undefined => {
+  if (
+    typeof extra === "object" &&
+    extra !== null &&
+    "signal" in extra &&
+    extra.signal instanceof AbortSignal
+  ) {
+    return extra.signal;
+  }
+
+  return undefined;
 };
 
 const init =
-  <TConfiguration extends Configuration | undefined>(config?: TConfiguration) =>
+  <
+    TConfiguration extends Configuration | undefined,
+    TMode extends ValidationMode = "validate",
+    TErrorParser extends ErrorParser | undefined = undefined,
+  >(
+    config?: TConfiguration,
+    options?: InitOptions<TMode, TErrorParser, TConfiguration>,
+  ) =>
   <TContracts extends Contracts>() =>
   <
     TContractsSignature extends {
       [K in keyof TContracts]: {
-        resolver: (
-          ...args: CallArgs<TConfiguration, TContracts, K>
-        ) => Promise<TContracts[K]["dto"]>;
         schemas?: ContractSchemas<TContracts[K]>;
-      };
+        /** Runs after global middleware, before the ones added with "use" */
+        middleware?: Middleware<TContracts, TConfiguration, K>[];
+        retry?: RetryPolicy<TContracts, K>;
+        /** Calls failed for connectivity are queued and replayed when online */
+        queue?: QueuePolicy<TContracts, K>;
+        dedupe?: boolean;
+        cache?: CachePolicy;
+        /** Tags of cached responses removed after successful call */
+        invalidates?: string[];
+      } & (
+        | {
+            resolver: (
+              ...args: CallArgs<TConfiguration, TContracts, K>
+            ) => Promise<TContracts[K]["dto"]>;
+            http?: never;
+            stream?: never;
+            sse?: never;
+            rpc?: never;
+          }
+        | {
+            /** Declarative contract, the fetch based resolver is generated */
+            http: HttpDefinition<`/${string}`>;
+            resolver?: never;
+            stream?: never;
+            sse?: never;
+            rpc?: never;
+          }
+        | {
+            /** Streaming contract, used with "subscribe" instead of "call" */
+            stream: (
+              input: StreamInput<TContracts, K>,
+            ) => AsyncIterable<
+              TContracts[K]["dto"] | StreamEvent<TContracts[K]["dto"]>
+            >;
+            resolver?: never;
+            http?: never;
+            sse?: never;
+            rpc?: never;
+          }
+        | {
+            /** Declarative streaming contract reading server-sent events */
+            sse: SseDefinition<`/${string}`>;
+            resolver?: never;
+            http?: never;
+            stream?: never;
+            rpc?: never;
+          }
+        | {
+            /** Called through the RPC route given in "http.rpc" option */
+            rpc: true;
+            resolver?: never;
+            http?: never;
+            stream?: never;
+            sse?: never;
+          }
+      );
     },
   >(
     contracts: TContractsSignature,
-  ): CleanApi<TContracts, TConfiguration, TContractsSignature> => {
+    // Reports "http.path" definitions not matching the contract pathParams
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    ..._pathIssues: HttpPathIssues<
+      TContracts,
+      TContractsSignature
+    > extends never
+      ? []
+      : [issue: HttpPathIssues<TContracts, TContractsSignature>]
+  ): CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TErrorParser extends ErrorParser ? true : false
+  > => {
+    type TParsedErrors = TErrorParser extends ErrorParser ? true : false;
+
+    const mode: ValidationMode = options?.mode ?? "validate";
+
     // Create event managers for different event types
-    const onCallManager = new EventSubscriptionManager<TContracts>();
-    const onOkManager = new EventSubscriptionManager<TContracts>();
-    const onFailManager = new EventSubscriptionManager<TContracts>();
+    const managers: Record<
+      LifecycleEvent,
+      EventSubscriptionManager<TContracts>
+    > = {
+      onCall: new EventSubscriptionManager<TContracts>(),
+      onOk: new EventSubscriptionManager<TContracts>(),
+      onFail: new EventSubscriptionManager<TContracts>(),
+      onSettled: new EventSubscriptionManager<TContracts>(),
+    };
+    let callCount = 0;
+    const inFlight = new InFlightRegistry();
+    const responseCache = new ResponseCache(
+      options?.cache?.storage ?? createMemoryStorage(),
+      options?.cache?.scope,
+    );
+    const middlewareManager = new MiddlewareManager<
+      TContracts,
+      TConfiguration
+    >();
+
+    for (const middleware of options?.middleware ?? []) {
+      middlewareManager.use(
+        middleware as unknown as Middleware<TContracts, TConfiguration>,
+      );
+    }
+
+    for (const key in contracts) {
+      for (const middleware of contracts[key].middleware ?? []) {
+        middlewareManager.use(middleware, key);
+      }
+    }
+    const mutationQueue = new MutationQueue(
+      options?.queue?.storage ?? createMemoryQueueStorage(),
+    );
+    // Pending promises of calls queued with "awaitReplay", settled when
+    // replayed or dropped
+    const queueWaiters = new Map<
+      string,
+      { resolve: (dto: unknown) => void; reject: (error: unknown) => void }
+    >();
+    // Inputs of replayed calls, these are not queued again
+    const replayInputs = new WeakSet<object>();
+    let flushing: Promise<void> | undefined;
+    // Http contracts go through one request per tick in batch mode
+    const batchHttp = options?.http?.batch
+      ? createHttpBatcher({ ...options.http, batch: options.http.batch })
+      : undefined;
+
+    const isQueueable = (
+      policy: QueuePolicy<any, any>,
+      key: keyof TContracts,
+      error: unknown,
+    ): boolean => {
+      const parsed = policy.parseError(key, error);
+
+      return policy.queueIf
+        ? policy.queueIf(parsed)
+        : parsed.type === "no_internet" || parsed.type === "no_server_response";
+    };
+
+    const settleQueued = (
+      id: string,
+      result: { ok: true; dto: unknown } | { ok: false; error: unknown },
+    ): void => {
+      const waiter = queueWaiters.get(id);
+
+      queueWaiters.delete(id);
+
+      if (result.ok) {
+        waiter?.resolve(result.dto);
+      } else {
+        waiter?.reject(result.error);
+      }
+    };
+
+    // Errors are parsed only for consumers, "call" still throws the original one
+    const toCallError = (key: keyof TContracts, error: unknown): unknown =>
+      options?.parseError
+        ? options.parseError<TContracts, keyof TContracts>(key, error)
+        : error;
 
     const onCall: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["onCall"] = (key, callback) => {
-      return onCallManager.subscribe(key, callback, "onCall");
+      return managers.onCall.subscribe(key, callback, "onCall");
     };
 
     const onOk: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["onOk"] = (key, callback) => {
-      return onOkManager.subscribe(key, callback, "onOk");
+      return managers.onOk.subscribe(key, callback, "onOk");
     };
 
     const onFail: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["onFail"] = (key, callback) => {
-      return onFailManager.subscribe(key, callback, "onFail");
+      return managers.onFail.subscribe(key, callback, "onFail");
+    };
+
+    const onSettled: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["onSettled"] = (key, callback) => {
+      return managers.onSettled.subscribe(key, callback, "onSettled");
+    };
+
+    const once: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["once"] = (event, key, callback) => {
+      return managers[event].subscribe(key, callback, event, true);
+    };
+
+    // Async listeners are awaited only when requested in options
+    const emit = async (
+      event: LifecycleEvent,
+      key: keyof TContracts,
+      payload: Record<string, unknown>,
+    ): Promise<void> => {
+      const emitted = managers[event].emit(key, payload, event);
+
+      if (options?.awaitListeners) {
+        await emitted;
+      }
+    };
+
+    const getValidator = (
+      key: keyof TContracts,
+      schemaKey: keyof Contracts[keyof Contracts],
+    ): ((data: unknown) => unknown) | undefined => {
+      const schemas = contracts[key]?.schemas;
+
+      if (schemas && schemaKey in schemas) {
+        const validator = (schemas as Record<string, unknown>)[schemaKey];
+        if (typeof validator === "function") {
+          return validator as (data: unknown) => unknown;
+        }
+      }
+
+      return undefined;
+    };
+
+    const pickValidated = <TData>(
+      schemaKey: keyof Contracts[keyof Contracts],
+      data: TData,
+      output: unknown,
+    ): TData => {
+      return mode === "parse" && schemaKey !== "error"
+        ? (output as TData)
+        : data;
+    };
+
+    const reportValidationFailure = (
+      key: keyof TContracts,
+      schemaKey: keyof Contracts[keyof Contracts],
+      error: unknown,
+    ): void => {
+      console.error("Validation of", key, schemaKey, "failed");
+      console.error(JSON.stringify(error, null, 2));
+    };
+
+    const use: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["use"] = (
+      keyOrMiddleware:
+        | keyof TContracts
+        | Middleware<TContracts, TConfiguration>,
+      middleware?: Middleware<TContracts, TConfiguration, any>,
+    ) => {
+      if (typeof keyOrMiddleware === "function") {
+        return middlewareManager.use(keyOrMiddleware);
+      }
+
+      if (!middleware) {
+        throw new Error(
+          `Middleware for '${keyOrMiddleware.toString()}' is missing`,
+        );
+      }
+
+      return middlewareManager.use(middleware, keyOrMiddleware);
     };
 
     const validateSchema = <TData>(
@@ -163,19 +588,50 @@ const init =
       data: TData,
     ): TData => {
       try {
-        const schemas = contracts[key]?.schemas;
+        const validator = getValidator(key, schemaKey);
 
-        if (schemas && schemaKey in schemas) {
-          const validator = (schemas as Record<string, unknown>)[schemaKey];
-          if (typeof validator === "function") {
-            validator(data);
-          }
+        if (!validator) {
+          return data;
         }
 
-        return data;
+        const output = validator(data);
+
+        if (output instanceof Promise) {
+          // Prevents unhandled rejection, the result can't be used synchronously
+          output.catch(() => {});
+
+          throw new ValidationException([
+            {
+              path: [],
+              message: `Validator of '${key.toString()}' ${schemaKey} is asynchronous, use ${schemaKey}Async instead`,
+            },
+          ]);
+        }
+
+        return pickValidated(schemaKey, data, output);
+      } catch (error) {
+        reportValidationFailure(key, schemaKey, error);
+        throw error;
+      }
+    };
+
+    const validateSchemaAsync = async <TData>(
+      key: keyof TContracts,
+      schemaKey: keyof Contracts[keyof Contracts],
+      data: TData,
+    ): Promise<TData> => {
+      try {
+        const validator = getValidator(key, schemaKey);
+
+        if (!validator) {
+          return data;
+        }
+
+        const output = await validator(data);
+
+        return pickValidated(schemaKey, data, output);
       } catch (error) {
-        console.error("Validation of", key, schemaKey, "failed");
-        console.error(JSON.stringify(error, null, 2));
+        reportValidationFailure(key, schemaKey, error);
         throw error;
       }
     };
@@ -183,7 +639,9 @@ const init =
     const pathParams: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["pathParams"] = (key, pathParams) => {
       return validateSchema(key, "pathParams", pathParams);
     };
@@ -191,7 +649,9 @@ const init =
     const searchParams: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["searchParams"] = (key, searchParams) => {
       return validateSchema(key, "searchParams", searchParams);
     };
@@ -199,7 +659,9 @@ const init =
     const payload: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["payload"] = (key, payload) => {
       return validateSchema(key, "payload", payload);
     };
@@ -207,7 +669,9 @@ const init =
     const extra: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["extra"] = (key, extra) => {
       return validateSchema(key, "extra", extra);
     };
@@ -215,7 +679,9 @@ const init =
     const error: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["error"] = (key, error) => {
       return validateSchema(key, "error", error);
     };
@@ -223,15 +689,79 @@ const init =
     const dto: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["dto"] = (key, dto) => {
       return validateSchema(key, "dto", dto);
     };
 
+    const pathParamsAsync: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["pathParamsAsync"] = (key, pathParams) => {
+      return validateSchemaAsync(key, "pathParams", pathParams);
+    };
+
+    const searchParamsAsync: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["searchParamsAsync"] = (key, searchParams) => {
+      return validateSchemaAsync(key, "searchParams", searchParams);
+    };
+
+    const payloadAsync: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["payloadAsync"] = (key, payload) => {
+      return validateSchemaAsync(key, "payload", payload);
+    };
+
+    const extraAsync: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["extraAsync"] = (key, extra) => {
+      return validateSchemaAsync(key, "extra", extra);
+    };
+
+    const errorAsync: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["errorAsync"] = (key, error) => {
+      return validateSchemaAsync(key, "error", error);
+    };
+
+    const dtoAsync: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["dtoAsync"] = (key, dto) => {
+      return validateSchemaAsync(key, "dto", dto);
+    };
+
     const call: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["call"] = async (key, ...args) => {
       // Initialize variables to ensure they're available for onFail callbacks
       const finalInput = {} as {
@@ -242,9 +772,48 @@ const init =
         config?: TConfiguration;
       };
 
+      const retryPolicy = contracts[key]?.retry as
+        | RetryPolicy<any, any>
+        | undefined;
+      let attempt = 0;
+
+      const meta = {
+        key,
+        callId: `${String(key)}:${++callCount}`,
+        startedAt: Date.now(),
+      };
+      const getSettledMeta = () => {
+        const endedAt = Date.now();
+        return { ...meta, endedAt, duration: endedAt - meta.startedAt };
+      };
+      const emitOk = async (dto: unknown) => {
+        const payload = { ...finalInput, ...getSettledMeta(), dto };
+
+        await Promise.all([
+          emit("onOk", key, payload),
+          emit("onSettled", key, { ...payload, ok: true }),
+        ]);
+      };
+
       try {
         // Get resolver - this could throw if contracts[key] doesn't exist
-        const resolver = contracts[key].resolver;
+        const contract = contracts[key];
+
+        if (contract.stream || contract.sse) {
+          throw new Error(
+            `Contract "${String(key)}" is a stream, use "subscribe" instead`,
+          );
+        }
+
+        const resolver = (contract.resolver ??
+          (contract.rpc
+            ? createRPCResolver(String(key), options?.http)
+            : batchHttp
+              ? batchHttp(String(key), contract.http as HttpDefinition)
+              : createHttpResolver(
+                  contract.http as HttpDefinition,
+                  options?.http,
+                ))) as (input: any) => Promise<unknown>;
 
         // Process input - this could throw during type casting or property access
         const input = (args[0] ?? {}) as {
@@ -274,32 +843,166 @@ const init =
         }
 
         // Runtime validation: validate each parameter if schema exists
-        // Validate in order and fail fast
+        // Validate in order and fail fast. In "parse" mode the resolver
+        // receives the validator output instead of the raw input
         for (const paramKey of keys) {
           if (paramKey in input) {
             // Validate the parameter if schema exists
-            validateSchema(key, paramKey, input[paramKey]);
+            finalInput[paramKey] = (await validateSchemaAsync(
+              key,
+              paramKey,
+              input[paramKey],
+            )) as any;
           }
         }
 
         // Execute onCall callbacks
-        onCallManager.emit(key, finalInput, "onCall");
+        await emit("onCall", key, { ...finalInput, ...meta });
+
+        // Execute resolver wrapped with middleware and get result
+        const resolverInput = { ...finalInput };
+        delete resolverInput.config;
+
+        const cachePolicy = contracts[key]?.cache;
+        const cacheId = cachePolicy
+          ? getInputFingerprint(key, resolverInput)
+          : undefined;
 
-        // Execute resolver and get result
-        const result = await resolver(finalInput as any);
+        if (cacheId) {
+          const cached = await responseCache.get(cacheId);
+
+          if (cached) {
+            await emitOk(cached.value);
+
+            return cached.value;
+          }
+        }
+
+        const signal = getSignal(resolverInput.extra);
+
+        const execute = async (executionSignal: AbortSignal | undefined) => {
+          // Shared executions get their own signal in place of caller's one
+          const input =
+            executionSignal !== signal
+              ? {
+                  ...resolverInput,
+                  extra: {
+                    ...(resolverInput.extra as object),
+                    signal: executionSignal,
+                  },
+                }
+              : resolverInput;
+
+          // Repeat failed attempts according to the contract retry policy
+          while (true) {
+            attempt++;
+
+            try {
+              return await middlewareManager.run(
+                {
+                  key,
+                  callId: meta.callId,
+                  input: input as any,
+                  config: config as TConfiguration,
+                  signal: executionSignal,
+                },
+                (input) => resolver(input as any),
+              );
+            } catch (attemptError) {
+              if (
+                !retryPolicy ||
+                attempt >= retryPolicy.attempts ||
+                executionSignal?.aborted
+              ) {
+                throw attemptError;
+              }
+
+              const parsed = retryPolicy.parseError(key, attemptError);
+              const shouldRetry = retryPolicy.retryIf
+                ? retryPolicy.retryIf(parsed, attempt)
+                : isRetryableError(parsed);
+
+              if (!shouldRetry) {
+                throw attemptError;
+              }
+
+              await waitForRetry(
+                getRetryDelay(retryPolicy, attempt),
+                executionSignal,
+              );
+
+              if (executionSignal?.aborted) {
+                throw attemptError;
+              }
+            }
+          }
+        };
+
+        const dedupeId =
+          (contracts[key]?.dedupe ?? options?.dedupe)
+            ? getInputFingerprint(key, resolverInput)
+            : undefined;
+
+        const result = dedupeId
+          ? await inFlight.share(dedupeId, signal, (sharedSignal) =>
+              execute(signal ? sharedSignal : undefined),
+            )
+          : await execute(signal);
 
         // Validate result against dto schema if it exists
-        const validatedResult = validateSchema(key, "dto", result);
+        const validatedResult = await validateSchemaAsync(key, "dto", result);
+
+        if (cachePolicy && cacheId) {
+          await responseCache.set(cacheId, validatedResult, cachePolicy);
+        }
+
+        for (const tag of contracts[key]?.invalidates ?? []) {
+          await responseCache.invalidate(tag);
+        }
 
         // Call onOk subscribers after successful execution
-        onOkManager.emit(key, { ...finalInput, dto: validatedResult }, "onOk");
+        await emitOk(validatedResult);
 
         return validatedResult;
       } catch (callError) {
         // Call onFail subscribers for ANY error during the call process
         // This includes: resolver access, input processing, config handling,
         // validation errors, resolver execution, DTO validation, etc.
-        onFailManager.emit(key, { ...finalInput, error: callError }, "onFail");
+        const payload = {
+          ...finalInput,
+          ...getSettledMeta(),
+          error: toCallError(key, callError),
+          ...(retryPolicy ? { attempt } : {}),
+        };
+
+        await Promise.all([
+          emit("onFail", key, payload),
+          emit("onSettled", key, { ...payload, ok: false }),
+        ]);
+
+        const queuePolicy = contracts[key]?.queue as
+          | QueuePolicy<any, any>
+          | undefined;
+
+        // Rejects with QueuedException or, with "awaitReplay", stays pending
+        // until the call is replayed or dropped
+        if (
+          queuePolicy &&
+          !replayInputs.has(args[0] as object) &&
+          isQueueable(queuePolicy, key, callError)
+        ) {
+          const queuedInput = { ...finalInput };
+          delete queuedInput.config;
+          delete queuedInput.extra;
+
+          return (await enqueue(
+            key,
+            queuedInput,
+            `${meta.callId}@${meta.startedAt}`,
+            queuePolicy,
+            callError,
+          )) as any;
+        }
 
         // Re-throw the original error to maintain normal error flow
         throw callError;
@@ -309,20 +1012,355 @@ const init =
     const safeCall: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["safeCall"] = async (key, ...args) => {
       try {
         const result = await call(key, ...args);
         return [true, result];
       } catch (error) {
-        return [false, error];
+        return [false, toCallError(key, error) as never];
+      }
+    };
+
+    // Loosely typed, batch calls are checked by "all" and "settle" signatures
+    const callAny = call as (key: keyof TContracts, input?: unknown) => any;
+    const safeCallAny = safeCall as (
+      key: keyof TContracts,
+      input?: unknown,
+    ) => Promise<unknown>;
+
+    const all: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["all"] = async (calls, allOptions = {}) =>
+      (await runAll(calls, allOptions, callAny)) as any;
+
+    const settle: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["settle"] = async (calls, settleOptions = {}) =>
+      (await runSettle(calls, settleOptions, safeCallAny)) as any;
+
+    const paginate: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["paginate"] = async function* (key, ...args) {
+      const input = (args[0] ?? {}) as { searchParams?: PageParams };
+      let searchParams = input.searchParams;
+
+      while (true) {
+        const page = (await callAny(key, {
+          ...input,
+          ...(searchParams ? { searchParams } : {}),
+        })) as Page<unknown>;
+
+        yield page as any;
+
+        if (page.nextCursor === null) {
+          return;
+        }
+
+        searchParams = { ...searchParams, cursor: page.nextCursor };
+      }
+    };
+
+    const subscribe: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["subscribe"] = (key, input, onChunk, subscribeOptions = {}) => {
+      const { reconnect = {}, onError, onDone } = subscribeOptions;
+      const { controller, unlink } = linkSignal(subscribeOptions.signal);
+      const contract = contracts[key];
+      const source = (contract.stream ??
+        createSSEResolver(contract.sse as SseDefinition, options?.http)) as (
+        input: object,
+      ) => AsyncIterable<unknown>;
+      let lastEventId = subscribeOptions.lastEventId;
+
+      const emitChunk = (dto: unknown, id: string | undefined) => {
+        try {
+          onChunk(dto as any, { id });
+        } catch (error) {
+          console.error(`Stream listener error for ${String(key)}:`, error);
+        }
+      };
+
+      const listen = async () => {
+        const rawInput = (input ?? {}) as Record<string, unknown>;
+        const streamInput: Record<string, unknown> = {};
+
+        for (const paramKey of [
+          "pathParams",
+          "searchParams",
+          "extra",
+        ] as const) {
+          if (paramKey in rawInput) {
+            streamInput[paramKey] = await validateSchemaAsync(
+              key,
+              paramKey,
+              rawInput[paramKey],
+            );
+          }
+        }
+
+        // Attempts in a row without a chunk, reset by each received one
+        let attempt = 0;
+
+        while (true) {
+          try {
+            for await (const chunk of source({
+              ...streamInput,
+              ...(lastEventId !== undefined ? { lastEventId } : {}),
+              signal: controller.signal,
+            })) {
+              const event = StreamEvent.is(chunk)
+                ? chunk
+                : new StreamEvent(chunk);
+              const dto = await validateSchemaAsync(key, "dto", event.data);
+
+              if (controller.signal.aborted) {
+                return;
+              }
+
+              attempt = 0;
+              lastEventId = event.id ?? lastEventId;
+              emitChunk(dto, event.id);
+            }
+
+            if (!controller.signal.aborted) {
+              onDone?.();
+            }
+
+            return;
+          } catch (error) {
+            if (controller.signal.aborted) {
+              return;
+            }
+
+            attempt++;
+
+            const shouldReconnect =
+              reconnect !== false &&
+              attempt <= (reconnect.attempts ?? Infinity) &&
+              (reconnect.reconnectIf ?? isReconnectableError)(error);
+
+            if (!shouldReconnect) {
+              throw error;
+            }
+
+            await waitForRetry(
+              getRetryDelay(reconnect, attempt),
+              controller.signal,
+            );
+
+            if (controller.signal.aborted) {
+              return;
+            }
+          }
+        }
+      };
+
+      listen()
+        .catch((error: unknown) => {
+          onError?.(toCallError(key, error) as any);
+        })
+        .finally(unlink);
+
+      return () => {
+        controller.abort();
+      };
+    };
+
+    const enqueue = async (
+      key: keyof TContracts,
+      input: QueueEntry["input"],
+      id: string,
+      policy: QueuePolicy<any, any>,
+      error: unknown,
+    ): Promise<unknown> => {
+      const entry: QueueEntry = {
+        id,
+        key: String(key),
+        input,
+        queuedAt: Date.now(),
+      };
+
+      if (!policy.awaitReplay) {
+        await mutationQueue.add(entry);
+        throw new QueuedException(entry, error);
+      }
+
+      const settled = new Promise((resolve, reject) => {
+        queueWaiters.set(id, { resolve, reject });
+      });
+
+      await mutationQueue.add(entry);
+
+      return settled;
+    };
+
+    // Replays from the oldest call, so the server sees them in original order
+    const replayQueue = async (): Promise<void> => {
+      let entry: QueueEntry | undefined;
+
+      while ((entry = mutationQueue.list()[0])) {
+        const policy = contracts[entry.key]?.queue as
+          | QueuePolicy<any, any>
+          | undefined;
+        const input = { ...entry.input };
+
+        replayInputs.add(input);
+
+        try {
+          const dto = await (call as (key: string, input: unknown) => unknown)(
+            entry.key,
+            input,
+          );
+
+          await mutationQueue.remove(entry.id);
+          settleQueued(entry.id, { ok: true, dto });
+        } catch (error) {
+          if (policy && isQueueable(policy, entry.key, error)) {
+            return;
+          }
+
+          const resolvedInput = await policy?.onConflict?.(
+            policy.parseError(entry.key, error),
+            entry,
+          );
+
+          if (resolvedInput) {
+            await mutationQueue.replace(entry.id, resolvedInput);
+            continue;
+          }
+
+          await mutationQueue.remove(entry.id);
+          settleQueued(entry.id, { ok: false, error });
+        }
       }
     };
 
+    const queue: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["queue"] = {
+      entries: () => mutationQueue.list(),
+      flush: () => {
+        flushing ??= replayQueue().finally(() => {
+          flushing = undefined;
+        });
+
+        return flushing;
+      },
+      remove: async (id) => {
+        await mutationQueue.remove(id);
+        settleQueued(id, {
+          ok: false,
+          error: new Error(`Queued call '${id}' was removed`),
+        });
+      },
+      clear: async () => {
+        const ids = mutationQueue.list().map((entry) => entry.id);
+
+        await mutationQueue.clear();
+
+        for (const id of ids) {
+          settleQueued(id, {
+            ok: false,
+            error: new Error(`Queued call '${id}' was removed`),
+          });
+        }
+      },
+      subscribe: (listener) => mutationQueue.subscribe(listener),
+    };
+
+    if (
+      typeof window !== "undefined" &&
+      Object.values(contracts).some((contract) => !!contract.queue)
+    ) {
+      const flush = () => {
+        queue.flush().catch((error: unknown) => {
+          console.error("Replaying queued calls failed:", error);
+        });
+      };
+
+      window.addEventListener("online", flush);
+      // Calls queued before page reload are replayed once restored
+      void mutationQueue.ready.then(() => {
+        if (navigator.onLine && mutationQueue.list().length > 0) {
+          flush();
+        }
+      });
+    }
+
+    const cache: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["cache"] = {
+      invalidate: responseCache.invalidate,
+      clear: responseCache.clear,
+      peek: async (key, ...args) => {
+        if (!contracts[key]?.cache) {
+          return undefined;
+        }
+
+        // Input is validated the same way as in call, so ids match
+        const input = (args[0] ?? {}) as Record<string, unknown>;
+        const validatedInput: Record<string, unknown> = {};
+
+        for (const paramKey of [
+          "pathParams",
+          "searchParams",
+          "payload",
+          "extra",
+        ] as const) {
+          if (paramKey in input) {
+            validatedInput[paramKey] = await validateSchemaAsync(
+              key,
+              paramKey,
+              input[paramKey] as any,
+            );
+          }
+        }
+
+        const cacheId = getInputFingerprint(key, validatedInput);
+
+        if (!cacheId) {
+          return undefined;
+        }
+
+        const cached = await responseCache.get(cacheId);
+
+        return cached?.value;
+      },
+    };
+
     const getSchema: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["getSchema"] = (contractKey) => {
       const contract = contracts[contractKey];
       const schemas = contract?.schemas;
@@ -352,7 +1390,9 @@ const init =
     const getRawSchema: CleanApi<
       TContracts,
       TConfiguration,
-      TContractsSignature
+      TContractsSignature,
+      TMode,
+      TParsedErrors
     >["getRawSchema"] = (contractKey) => {
       const contract = contracts[contractKey];
       const schemas = contract?.schemas;
@@ -383,20 +1423,57 @@ const init =
       return rawSchemas as any;
     };
 
+    const getKeys: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["getKeys"] = () => {
+      return Object.keys(contracts) as (keyof TContracts)[];
+    };
+
+    const getHttp: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >["getHttp"] = (contractKey) => {
+      return contracts[contractKey]?.http;
+    };
+
     return {
       call,
+      use,
       onCall,
       onOk,
       onFail,
+      onSettled,
+      once,
       safeCall,
+      all,
+      settle,
+      paginate,
+      subscribe,
       error,
       dto,
       pathParams,
       searchParams,
       payload,
       extra,
+      pathParamsAsync,
+      searchParamsAsync,
+      payloadAsync,
+      extraAsync,
+      errorAsync,
+      dtoAsync,
+      queue,
+      cache,
       getSchema,
       getRawSchema,
+      getKeys,
+      getHttp,
     };
   };
 
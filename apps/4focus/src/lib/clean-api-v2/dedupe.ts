@@ -0,0 +1,98 @@
+type InFlightEntry = {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+};
+
+/**
+ * Shares one execution between concurrent identical calls. Every subscriber
+ * may abort independently, the shared execution is aborted only when all of
+ * them gave up.
+ */
+class InFlightRegistry {
+  private entries = new Map<string, InFlightEntry>();
+
+  share = (
+    id: string,
+    signal: AbortSignal | undefined,
+    execute: (sharedSignal: AbortSignal) => Promise<unknown>,
+  ): Promise<unknown> => {
+    let entry = this.entries.get(id);
+
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightEntry = {
+        controller,
+        subscribers: 0,
+        promise: Promise.resolve(),
+      };
+
+      created.promise = execute(controller.signal).finally(() => {
+        if (this.entries.get(id) === created) {
+          this.entries.delete(id);
+        }
+      });
+
+      this.entries.set(id, created);
+      entry = created;
+    }
+
+    return this.subscribe(id, entry, signal);
+  };
+
+  /**
+   * Number of executions currently shared
+   */
+  size = (): number => this.entries.size;
+
+  private subscribe = (
+    id: string,
+    entry: InFlightEntry,
+    signal: AbortSignal | undefined,
+  ): Promise<unknown> => {
+    entry.subscribers++;
+
+    if (!signal) {
+      return entry.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const release = () => {
+        entry.subscribers--;
+
+        if (entry.subscribers === 0) {
+          if (this.entries.get(id) === entry) {
+            this.entries.delete(id);
+          }
+          entry.controller.abort(signal.reason);
+        }
+      };
+
+      if (signal.aborted) {
+        release();
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        release();
+        reject(signal.reason);
+      };
+
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      entry.promise.then(
+        (result) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(result);
+        },
+        (error) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      );
+    });
+  };
+}
+
+export { InFlightRegistry };
@@ -0,0 +1,177 @@
+import type { JSONSchema } from "./openapi";
+
+const WORDS = [
+  "focus",
+  "task",
+  "deep",
+  "work",
+  "plan",
+  "review",
+  "write",
+  "design",
+  "session",
+  "notes",
+  "daily",
+  "sprint",
+];
+
+const BASE_DATE = Date.UTC(2025, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Deterministic pseudo random generator (mulberry32), the same seed gives
+ * the same sequence of numbers from [0, 1)
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+const hashSeed = (value: string, seed: number): number => {
+  let hash = seed >>> 0;
+
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619) >>> 0;
+  }
+
+  return hash;
+};
+
+const pick = <T>(random: Random, items: readonly T[]): T =>
+  items[Math.floor(random() * items.length)] as T;
+
+const fakeInteger = (random: Random, schema: JSONSchema): number => {
+  const min =
+    typeof schema.exclusiveMinimum === "number"
+      ? Math.floor(schema.exclusiveMinimum) + 1
+      : typeof schema.minimum === "number"
+        ? Math.ceil(schema.minimum)
+        : 1;
+  const max =
+    typeof schema.exclusiveMaximum === "number"
+      ? Math.ceil(schema.exclusiveMaximum) - 1
+      : typeof schema.maximum === "number"
+        ? Math.floor(schema.maximum)
+        : min + 1000;
+  // Huge ranges (e.g. safe integer limits) give unreadable values
+  const upper = Math.min(max, min + 1000);
+
+  return min + Math.floor(random() * (upper - min + 1));
+};
+
+const fakeString = (random: Random, schema: JSONSchema): string => {
+  switch (schema.format) {
+    case "date-time":
+      return new Date(
+        BASE_DATE + Math.floor(random() * 365 * DAY),
+      ).toISOString();
+    case "date":
+      return new Date(BASE_DATE + Math.floor(random() * 365) * DAY)
+        .toISOString()
+        .slice(0, 10);
+    case "email":
+      return `${pick(random, WORDS)}.${pick(random, WORDS)}@example.com`;
+    case "uuid":
+      return "xxxxxxxx-xxxx-4xxx-8xxx-xxxxxxxxxxxx".replace(/x/g, () =>
+        Math.floor(random() * 16).toString(16),
+      );
+    case "uri":
+      return `https://example.com/${pick(random, WORDS)}`;
+  }
+
+  const minLength = typeof schema.minLength === "number" ? schema.minLength : 0;
+  const maxLength =
+    typeof schema.maxLength === "number" ? schema.maxLength : minLength + 40;
+  // Readable sentence long enough for typical "min 10 characters" rules
+  let text = pick(random, WORDS);
+
+  while (text.length < Math.max(minLength, 12)) {
+    text += ` ${pick(random, WORDS)}`;
+  }
+
+  return text.slice(0, maxLength).trim().padEnd(minLength, "x");
+};
+
+/**
+ * Generates a value matching the JSON Schema. Every property is filled,
+ * union members are picked using the random generator.
+ */
+const fakeFromJSONSchema = (schema: JSONSchema, random: Random): unknown => {
+  if ("const" in schema) {
+    return schema.const;
+  }
+
+  if (Array.isArray(schema.enum)) {
+    return pick(random, schema.enum);
+  }
+
+  const variants = (schema.anyOf ?? schema.oneOf) as JSONSchema[] | undefined;
+
+  if (variants) {
+    // Prefer meaningful values over nulls, so nested data is generated
+    const nonNull = variants.filter((variant) => variant.type !== "null");
+    return fakeFromJSONSchema(
+      pick(random, nonNull.length > 0 ? nonNull : variants),
+      random,
+    );
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    return Object.assign(
+      {},
+      ...(schema.allOf as JSONSchema[]).map((part) =>
+        fakeFromJSONSchema(part, random),
+      ),
+    );
+  }
+
+  switch (schema.type) {
+    case "object": {
+      const properties = (schema.properties ?? {}) as Record<
+        string,
+        JSONSchema
+      >;
+
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, property]) => [
+          key,
+          fakeFromJSONSchema(property, random),
+        ]),
+      );
+    }
+    case "array": {
+      const items = (schema.items ?? {}) as JSONSchema;
+      const minItems =
+        typeof schema.minItems === "number" ? schema.minItems : 1;
+      const maxItems =
+        typeof schema.maxItems === "number" ? schema.maxItems : minItems + 2;
+      const length =
+        minItems + Math.floor(random() * (maxItems - minItems + 1));
+
+      return Array.from({ length }, () => fakeFromJSONSchema(items, random));
+    }
+    case "integer":
+      return fakeInteger(random, schema);
+    case "number":
+      return fakeInteger(random, schema) + Math.round(random() * 100) / 100;
+    case "string":
+      return fakeString(random, schema);
+    case "boolean":
+      return random() >= 0.5;
+    case "null":
+      return null;
+    default:
+      return null;
+  }
+};
+
+export { createRandom, hashSeed, fakeFromJSONSchema };
@@ -0,0 +1,43 @@
+const sortKeys = (value: unknown): unknown => {
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    Array.isArray(value) ||
+    Object.getPrototypeOf(value) !== Object.prototype
+  ) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+  );
+};
+
+/**
+ * Builds an identifier of a call that is the same for structurally equal inputs,
+ * regardless of the properties order. The abort signal in "extra" is ignored.
+ * Returns undefined when the input can't be serialized (e.g. circular refs).
+ */
+const getInputFingerprint = (
+  key: PropertyKey,
+  input: unknown,
+): string | undefined => {
+  const { extra, ...rest } = (input ?? {}) as { extra?: unknown };
+  const comparable: Record<string, unknown> = { ...rest };
+
+  if (typeof extra === "object" && extra !== null && "signal" in extra) {
+    const extraWithoutSignal: Record<string, unknown> = { ...extra };
+    delete extraWithoutSignal.signal;
+    comparable.extra = extraWithoutSignal;
+  } else if (extra !== undefined) {
+    comparable.extra = extra;
+  }
+
+  try {
+    return `${key.toString()}:${JSON.stringify(comparable, (_, value) => sortKeys(value))}`;
+  } catch {
+    return undefined;
+  }
+};
+
+export { getInputFingerprint };
@@ -0,0 +1,373 @@
+import {
+  HttpException,
+  NetworkException,
+  type BatchRequest,
+  type BatchResponse,
+  type HttpDefinition,
+  type HttpOptions,
+  type RPCRequest,
+} from "./models";
+
+type HttpResolverInput = {
+  pathParams?: Record<string, unknown>;
+  searchParams?: Record<string, unknown>;
+  payload?: unknown;
+  extra?: unknown;
+};
+
+const applyPathParams = (
+  path: string,
+  pathParams?: Record<string, unknown>,
+): string => {
+  if (!pathParams) {
+    return path;
+  }
+
+  return path.replace(/:([^/]+)/g, (segment, name: string) =>
+    name in pathParams ? encodeURIComponent(String(pathParams[name])) : segment,
+  );
+};
+
+/**
+ * Skips nullish values, arrays are serialized as repeated keys (?id=1&id=2)
+ */
+const serializeSearchParams = (
+  searchParams?: Record<string, unknown>,
+): string => {
+  if (!searchParams) {
+    return "";
+  }
+
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(searchParams)) {
+    const values = Array.isArray(value) ? value : [value];
+
+    for (const item of values) {
+      if (item !== undefined && item !== null) {
+        params.append(key, String(item));
+      }
+    }
+  }
+
+  const query = params.toString();
+
+  return query ? `?${query}` : "";
+};
+
+type ScheduledCall = {
+  call: BatchRequest["calls"][number];
+  signal: AbortSignal | undefined;
+  resolve: (data: unknown) => void;
+  reject: (error: unknown) => void;
+};
+
+const readBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+
+  if (!text) {
+    return undefined;
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+
+  if (!contentType.includes("json")) {
+    return text;
+  }
+
+  // Malformed body is passed as text and left to dto validation or error parser
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Resolves with the parsed body of 2xx responses and throws HttpException
+ * for the rest
+ */
+const ensureOk = async (response: Response): Promise<unknown> => {
+  const data = await readBody(response);
+
+  if (!response.ok) {
+    throw new HttpException(response, data);
+  }
+
+  return data;
+};
+
+/**
+ * Fetch rejecting with NetworkException when no response was received, other
+ * errors (e.g. aborts) are rethrown untouched. Hand-written resolvers should
+ * use it too, so parseError can tell network failures from bugs.
+ */
+const fetchResponse = async (
+  input: string,
+  init?: RequestInit,
+  fetchFn: typeof fetch = fetch,
+): Promise<Response> => {
+  try {
+    return await fetchFn(input, init);
+  } catch (error) {
+    // fetch rejects with TypeError only when the request couldn't be sent
+    throw error instanceof TypeError ? new NetworkException(error) : error;
+  }
+};
+
+/**
+ * Creates a fetch based resolver from "http" definition of the contract.
+ * Non-2xx responses are thrown as HttpException with parsed body. Headers
+ * passed in "extra.headers" (e.g. by middleware) are added to the request.
+ */
+const createHttpResolver =
+  (definition: HttpDefinition, options: HttpOptions = {}) =>
+  async (input: HttpResolverInput = {}): Promise<unknown> => {
+    const { baseURL = "", fetch: fetchFn = fetch } = options;
+    const url = `${baseURL}${applyPathParams(definition.path, input.pathParams)}${serializeSearchParams(input.searchParams)}`;
+    const hasBody = "payload" in input && definition.method !== "get";
+    const extra = input.extra as
+      | { signal?: AbortSignal; headers?: Record<string, string> }
+      | undefined;
+
+    const response = await fetchResponse(
+      url,
+      {
+        method: definition.method.toUpperCase(),
+        headers: {
+          ...(hasBody ? { "Content-Type": "application/json" } : {}),
+          ...options.headers,
+          ...definition.headers,
+          ...extra?.headers,
+        },
+        body: hasBody ? JSON.stringify(input.payload) : undefined,
+        signal: extra?.signal,
+      },
+      fetchFn,
+    );
+
+    return ensureOk(response);
+  };
+
+type BatchScheduler = (
+  call: ScheduledCall["call"],
+  signal: AbortSignal | undefined,
+) => Promise<unknown>;
+
+/** Schedulers of namespaced batchers, by custom fetch (if any) and url */
+const sharedSchedulers = new Map<
+  typeof fetch | undefined,
+  Map<string, BatchScheduler>
+>();
+
+const createBatchScheduler = (
+  url: string,
+  // The global one is read when sending, so it may be replaced (e.g. by MSW)
+  fetchFn: typeof fetch | undefined,
+  headers: Record<string, string> | undefined,
+  maxSize: number | undefined,
+): BatchScheduler => {
+  let scheduled: ScheduledCall[] = [];
+
+  const send = async (calls: ScheduledCall[]): Promise<void> => {
+    const controller = new AbortController();
+    let active = calls.length;
+
+    // Shared request is aborted only when all its calls are
+    const unlinks = calls.map(({ signal, reject }) => {
+      const onAbort = () => {
+        reject(signal?.reason);
+
+        if (--active === 0) {
+          controller.abort();
+        }
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      return () => signal?.removeEventListener("abort", onAbort);
+    });
+
+    try {
+      const body: BatchRequest = { calls: calls.map(({ call }) => call) };
+      const response = await fetchResponse(
+        url,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        },
+        fetchFn,
+      );
+      const { results } = (await ensureOk(response)) as BatchResponse;
+
+      calls.forEach(({ resolve, reject }, index) => {
+        const result = results[index];
+
+        if (!result) {
+          reject(new Error(`Batch response is missing result ${index}`));
+        } else if (result.status >= 200 && result.status < 300) {
+          resolve(result.body);
+        } else {
+          reject(
+            new HttpException(
+              new Response(JSON.stringify(result.body), {
+                status: result.status,
+                headers: { "Content-Type": "application/json" },
+              }),
+              result.body,
+            ),
+          );
+        }
+      });
+    } catch (error) {
+      for (const { reject } of calls) {
+        reject(error);
+      }
+    } finally {
+      // Long-lived signals (e.g. of a page) must not keep settled calls
+      for (const unlink of unlinks) {
+        unlink();
+      }
+    }
+  };
+
+  const flush = () => {
+    const calls = scheduled;
+    scheduled = [];
+
+    if (calls.length > 0) {
+      void send(calls);
+    }
+  };
+
+  return (call, signal) =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      scheduled.push({ call, signal, resolve, reject });
+
+      if (maxSize !== undefined && scheduled.length >= maxSize) {
+        flush();
+      } else if (scheduled.length === 1) {
+        setTimeout(flush, 0);
+      }
+    });
+};
+
+const getSharedScheduler = (
+  url: string,
+  fetchFn: typeof fetch | undefined,
+  maxSize: number | undefined,
+): BatchScheduler => {
+  const schedulers = sharedSchedulers.get(fetchFn) ?? new Map();
+  const scheduler =
+    schedulers.get(url) ?? createBatchScheduler(url, fetchFn, {}, maxSize);
+
+  schedulers.set(url, scheduler);
+  sharedSchedulers.set(fetchFn, schedulers);
+
+  return scheduler;
+};
+
+/**
+ * Creates resolvers sending calls started in the same tick in one request to
+ * the batch route. Non-2xx results are thrown as HttpException, like by the
+ * regular http resolvers. Contract and per-call headers are sent with each
+ * call, shared ones with the batch request.
+ *
+ * Namespaced batchers share the request with every other API sending to the
+ * same route, so their shared headers are sent with each call as well.
+ */
+const createHttpBatcher = (
+  options: HttpOptions & { batch: NonNullable<HttpOptions["batch"]> },
+) => {
+  const { baseURL = "", fetch: fetchFn, batch } = options;
+  const url = `${baseURL}${batch.path}`;
+  const namespaced = batch.namespace !== undefined;
+  const schedule = namespaced
+    ? getSharedScheduler(url, fetchFn, batch.maxSize)
+    : createBatchScheduler(url, fetchFn, options.headers, batch.maxSize);
+
+  return (key: string, definition: HttpDefinition) =>
+    async (input: HttpResolverInput = {}): Promise<unknown> => {
+      const extra = input.extra as
+        | { signal?: AbortSignal; headers?: Record<string, string> }
+        | undefined;
+      const hasBody = "payload" in input && definition.method !== "get";
+      const headers = {
+        ...(namespaced ? options.headers : {}),
+        ...definition.headers,
+        ...extra?.headers,
+      };
+
+      return schedule(
+        {
+          key: namespaced ? `${batch.namespace}.${key}` : key,
+          ...(input.pathParams ? { pathParams: input.pathParams } : {}),
+          ...(input.searchParams ? { searchParams: input.searchParams } : {}),
+          ...(hasBody ? { payload: input.payload } : {}),
+          ...(Object.keys(headers).length > 0 ? { headers } : {}),
+        },
+        extra?.signal,
+      );
+    };
+};
+
+/**
+ * Creates a resolver sending the key and input of an "rpc" contract to the
+ * RPC route, responses are handled like by the regular http resolvers
+ */
+const createRPCResolver =
+  (key: string, options: HttpOptions = {}) =>
+  async (input: HttpResolverInput = {}): Promise<unknown> => {
+    const { baseURL = "", fetch: fetchFn = fetch, rpc } = options;
+
+    if (!rpc) {
+      throw new Error(`Contract "${key}" needs the "http.rpc" option`);
+    }
+
+    const extra = input.extra as
+      | { signal?: AbortSignal; headers?: Record<string, string> }
+      | undefined;
+    const body: RPCRequest = {
+      key,
+      input: {
+        ...(input.pathParams ? { pathParams: input.pathParams } : {}),
+        ...(input.searchParams ? { searchParams: input.searchParams } : {}),
+        ...("payload" in input ? { payload: input.payload } : {}),
+      },
+    };
+
+    const response = await fetchResponse(
+      `${baseURL}${rpc.path}/${encodeURIComponent(key)}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...options.headers,
+          ...extra?.headers,
+        },
+        body: JSON.stringify(body),
+        signal: extra?.signal,
+      },
+      fetchFn,
+    );
+
+    return ensureOk(response);
+  };
+
+export {
+  fetchResponse,
+  createHttpResolver,
+  createHttpBatcher,
+  createRPCResolver,
+  ensureOk,
+  readBody,
+  applyPathParams,
+  serializeSearchParams,
+};
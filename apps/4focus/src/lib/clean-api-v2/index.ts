@@ -1,7 +1,115 @@
 export { init, check, checkAsync } from "./core";
-export { ValidationException } from "./models";
+export { combine } from "./combine";
+export type { CombinedApi, NamespacedKey } from "./combine";
+export { isRetryableError } from "./retry";
+export { match } from "./match";
+export type { MatchHandlers } from "./match";
+export { applyPathParams, fetchResponse, serializeSearchParams } from "./http";
+export {
+  readSSE,
+  createSSEResolver,
+  toSSEResponse,
+  isReconnectableError,
+} from "./sse";
+export type { SSEMessage, SSEResponseOptions } from "./sse";
+export {
+  createIndexedDBStorage,
+  createMemoryStorage,
+  createWebStorage,
+} from "./cache";
+export {
+  createMemoryQueueStorage,
+  createWebQueueStorage,
+  createIndexedDBQueueStorage,
+} from "./queue";
+export { generateOpenAPI, toYAML } from "./openapi";
+export { fakeFromJSONSchema, createRandom } from "./fake";
+export { snapshotContracts, diffSnapshots } from "./schema-diff";
+export {
+  createTracer,
+  createMemoryExporter,
+  createConsoleExporter,
+  createOTelExporter,
+  toTraceHeader,
+  readTraceHeader,
+} from "./tracing";
 export type {
+  Span,
+  SpanKind,
+  SpanStatus,
+  SpanAttributes,
+  SpanExporter,
+  TraceContext,
+  ActiveSpan,
+  StartSpanOptions,
+  ContractMetrics,
+  LatencyHistogram,
+  Tracer,
+  TracerOptions,
+  OTelTracer,
+  OTelSpan,
+} from "./tracing";
+export type {
+  JSONSchema,
+  SchemaConverter,
+  OpenAPIOperation,
+  OpenAPIOptions,
+  OpenAPIDocument,
+} from "./openapi";
+export type {
+  ContractSlot,
+  ContractsSnapshot,
+  SchemaChange,
+  SchemaChangeKind,
+  SchemaDiff,
+  SnapshotOptions,
+} from "./schema-diff";
+export {
+  ValidationException,
+  HttpException,
+  NetworkException,
+  QueuedException,
+  StreamEvent,
+} from "./models";
+export type {
+  CleanApi,
+  Configuration,
+  Contracts,
+  ContractsInput,
+  InferInput,
+  ValidationMode,
   ErrorVariant,
+  ErrorParser,
+  CallError,
+  ParsedError,
+  BrowserError,
+  Middleware,
+  MiddlewareContext,
+  RetryPolicy,
+  HttpMethod,
+  HttpOptions,
+  HttpDefinition,
+  CacheEntry,
+  CacheStorage,
+  CachePolicy,
+  QueueEntry,
+  QueueStorage,
+  QueuePolicy,
+  BatchRequest,
+  BatchResponse,
+  RPCRequest,
+  BatchCall,
+  SettleOptions,
+  AllOptions,
+  PageParams,
+  Page,
+  Paginated,
+  PaginatedKeys,
+  SseDefinition,
+  StreamInput,
+  StreamKeys,
+  ReconnectPolicy,
+  SubscribeOptions,
   InferContracts,
   InferDto,
   InferAllDtos,
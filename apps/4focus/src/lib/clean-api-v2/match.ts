@@ -0,0 +1,27 @@
+// One handler per "type" of the error union, narrowed to its variant
+type MatchHandlers<TError extends { type: string }> = {
+  [TType in TError["type"]]: (
+    error: Extract<TError, { type: TType }>,
+  ) => unknown;
+};
+
+/**
+ * Exhaustively handles every variant of the error union (e.g. ParsedError).
+ * Missing or unknown handlers are reported by the compiler.
+ */
+const match = <
+  TError extends { type: string },
+  THandlers extends MatchHandlers<TError>,
+>(
+  error: TError,
+  handlers: THandlers & Record<Exclude<keyof THandlers, TError["type"]>, never>,
+): ReturnType<THandlers[TError["type"]]> => {
+  const handler = (handlers as MatchHandlers<TError>)[
+    error.type as TError["type"]
+  ] as (error: TError) => ReturnType<THandlers[TError["type"]]>;
+
+  return handler(error);
+};
+
+export type { MatchHandlers };
+export { match };
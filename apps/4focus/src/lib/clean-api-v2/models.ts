@@ -30,6 +30,229 @@ type Contracts = Record<
 
 type Configuration = Record<string, unknown>;
 
+/**
+ * - "validate" - schemas only check the data, the original value is returned
+ * - "parse" - the value is replaced with whatever the schema returns
+ *   (transforms, defaults, coercions, brands)
+ */
+type ValidationMode = "validate" | "parse";
+
+type InitOptions<
+  TMode extends ValidationMode = ValidationMode,
+  TErrorParser extends ErrorParser | undefined = ErrorParser | undefined,
+  TConfiguration extends Configuration | undefined = Configuration | undefined,
+> = {
+  mode?: TMode;
+  /**
+   * Global middleware registered before the ones added with "use", contracts
+   * are not known yet, so "ctx.key" is a plain string
+   */
+  middleware?: Middleware<Contracts, TConfiguration>[];
+  /**
+   * Turns errors returned by safeCall and passed to onFail into ParsedError
+   * (e.g. parseError from adapters)
+   */
+  parseError?: TErrorParser;
+  /**
+   * Concurrent calls with the same key and structurally equal input share
+   * one resolver execution. Can be overridden per contract.
+   */
+  dedupe?: boolean;
+  /** Shared settings of the resolvers generated from "http" definitions */
+  http?: HttpOptions;
+  /** Where responses of contracts with a cache policy are kept (memory by default) */
+  cache?: {
+    storage?: CacheStorage;
+    /**
+     * Identity the responses belong to (e.g. id of the signed in user),
+     * cached responses of other scopes are not served
+     */
+    scope?: () => string | undefined;
+  };
+  /** Where calls of contracts with a queue policy wait for connectivity (memory by default) */
+  queue?: { storage?: QueueStorage };
+  /**
+   * Calls wait for async lifecycle listeners (e.g. onCall before the resolver
+   * runs), by default they are started and not awaited
+   */
+  awaitListeners?: boolean;
+};
+
+type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+type HttpOptions = {
+  /** Prepended to every contract path, e.g. "https://api.example.com" */
+  baseURL?: string;
+  /** Sent with every request, contract headers take precedence */
+  headers?: Record<string, string>;
+  /** Custom fetch implementation, the global one by default */
+  fetch?: typeof fetch;
+  /**
+   * Calls started in the same tick are sent in one POST request to the batch
+   * route, which fans them out to the contract handlers
+   */
+  batch?: {
+    path: `/${string}`;
+    /** Maximum number of calls in one request, unlimited by default */
+    maxSize?: number;
+    /**
+     * Prefix of keys sent to a route shared with other APIs, e.g. the ones
+     * merged with "combine". Calls of all of them are sent in one request.
+     */
+    namespace?: string;
+  };
+  /**
+   * Route serving "rpc" contracts, calls are sent in POST requests to
+   * "{path}/{key}"
+   */
+  rpc?: {
+    path: `/${string}`;
+  };
+};
+
+/** Body of the request sent to the batch route */
+type BatchRequest = {
+  calls: {
+    key: string;
+    pathParams?: Record<string, unknown>;
+    searchParams?: Record<string, unknown>;
+    payload?: unknown;
+    /** Contract and per-call headers, e.g. the trace one */
+    headers?: Record<string, string>;
+  }[];
+};
+
+/** Body of the request sent to the RPC route */
+type RPCRequest = {
+  key: string;
+  input: {
+    pathParams?: Record<string, unknown>;
+    searchParams?: Record<string, unknown>;
+    payload?: unknown;
+  };
+};
+
+/** Body of the batch route response, results are in order of the calls */
+type BatchResponse = {
+  results: { status: number; body: unknown }[];
+};
+
+type HttpDefinition<TPath extends string = string> = {
+  method: HttpMethod;
+  path: TPath;
+  headers?: Record<string, string>;
+};
+
+/** Declarative streaming contract reading server-sent events (GET) */
+type SseDefinition<TPath extends string = string> = {
+  path: TPath;
+};
+
+// Union of ":param" segment names used in the path
+type ExtractPathParams<TPath extends string> =
+  TPath extends `${string}/:${infer P}/${infer R}`
+    ? P | ExtractPathParams<`/${R}`>
+    : TPath extends `${string}/:${infer P}`
+      ? P
+      : never;
+
+// Resolves to the path itself or to a readable error message
+type ValidatedPath<TContract, TPath extends string> = TContract extends {
+  pathParams: infer TPathParams;
+}
+  ? TPath extends `/${string}`
+    ? [keyof TPathParams] extends [ExtractPathParams<TPath>]
+      ? [ExtractPathParams<TPath>] extends [keyof TPathParams]
+        ? TPath
+        : `Path "${TPath}" has parameters not defined in contract.`
+      : `Path "${TPath}" is missing parameters from contract.`
+    : `Path "${TPath}" must start with a '/'.`
+  : TPath extends `/${string}`
+    ? ExtractPathParams<TPath> extends never
+      ? TPath
+      : `Path "${TPath}" has dynamic parameters, but no 'pathParams' are defined in the contract.`
+    : `Path "${TPath}" must start with a '/'.`;
+
+// Readable errors of "http.path" definitions that don't match pathParams
+type HttpPathIssues<TContracts extends Contracts, TContractsSignature> = {
+  [K in keyof TContractsSignature]: TContractsSignature[K] extends {
+    http: { path: infer TPath extends string };
+  }
+    ? ValidatedPath<TContracts[K & keyof TContracts], TPath> extends TPath
+      ? never
+      : ValidatedPath<TContracts[K & keyof TContracts], TPath>
+    : never;
+}[keyof TContractsSignature];
+
+type CacheEntry = {
+  value: unknown;
+  /** Timestamp in ms after which the entry is stale */
+  expiresAt: number;
+  tags: string[];
+};
+
+/**
+ * Storage driver for cached responses, methods may be sync or async
+ * (e.g. IndexedDB based drivers)
+ */
+type CacheStorage = {
+  get: (id: string) => CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set: (id: string, entry: CacheEntry) => void | Promise<void>;
+  delete: (id: string) => void | Promise<void>;
+  keys: () => string[] | Promise<string[]>;
+};
+
+type CachePolicy = {
+  /** Time in ms after which the cached response is stale */
+  ttl: number;
+  /** Tags used to invalidate the cached responses */
+  tags?: string[];
+};
+
+type QueueEntry = {
+  id: string;
+  key: string;
+  /** Validated input of the call, without "extra" and config */
+  input: Record<string, unknown>;
+  /** Timestamp in ms */
+  queuedAt: number;
+};
+
+/**
+ * Storage driver for queued calls, methods may be sync or async
+ * (e.g. IndexedDB based drivers)
+ */
+type QueueStorage = {
+  load: () => QueueEntry[] | Promise<QueueEntry[]>;
+  save: (entries: QueueEntry[]) => void | Promise<void>;
+};
+
+type QueuePolicy<
+  TContracts extends Contracts,
+  TKey extends keyof TContracts,
+> = {
+  /** Turns the thrown error into an ErrorVariant (e.g. parseError from adapters) */
+  parseError: (key: TKey, error: unknown) => ParsedError<TContracts, TKey>;
+  /** Decides if the failed call is queued, by default no_internet and no_server_response are */
+  queueIf?: (error: ParsedError<TContracts, TKey>) => boolean;
+  /**
+   * The call waits for the replay instead of rejecting with QueuedException,
+   * so it stays pending for as long as it's queued
+   */
+  awaitReplay?: boolean;
+  /**
+   * Called when the replayed call fails for other reason than connectivity.
+   * Returned input is replayed instead, otherwise the call is dropped.
+   */
+  onConflict?: (
+    error: ParsedError<TContracts, TKey>,
+    entry: QueueEntry,
+  ) =>
+    | QueueEntry["input"]
+    | undefined
+    | Promise<QueueEntry["input"] | undefined>;
+};
+
 type InferInput<
   TContracts extends Contracts,
   TContract extends TContracts[keyof TContracts],
@@ -63,6 +286,63 @@ type CallArgs<
     ? []
     : [input: { config: TConfiguration }];
 
+type RetryBackoff = "exponential" | "jitter" | ((attempt: number) => number);
+
+type RetryPolicy<
+  TContracts extends Contracts,
+  TKey extends keyof TContracts,
+> = {
+  /** Maximum number of attempts, including the first one */
+  attempts: number;
+  /** "exponential" by default, "jitter" picks a random delay up to the exponential one */
+  backoff?: RetryBackoff;
+  /** Base delay in ms (default 300), doubled with every attempt */
+  delay?: number;
+  /** Upper limit for a single delay in ms (default 10000) */
+  maxDelay?: number;
+  /** Turns the thrown error into an ErrorVariant (e.g. parseError from adapters) */
+  parseError: (key: TKey, error: unknown) => ParsedError<TContracts, TKey>;
+  /** Decides if the failed attempt should be repeated, by default no_server_response and 5xx are retried */
+  retryIf?: (error: ParsedError<TContracts, TKey>, attempt: number) => boolean;
+};
+
+type MiddlewareContext<
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TKey extends keyof TContracts,
+> = {
+  key: TKey;
+  /** The same as in lifecycle events of the call */
+  callId: string;
+  input: InferInput<TContracts, TContracts[TKey]>;
+  config: TConfiguration;
+  signal: AbortSignal | undefined;
+};
+
+// Distributes over keys, so global middleware can narrow by "ctx.key"
+type AnyMiddlewareContext<
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TKey extends keyof TContracts,
+> = {
+  [K in TKey]: MiddlewareContext<TContracts, TConfiguration, K>;
+}[TKey];
+
+/**
+ * Wraps the resolver. Call "next" to continue the chain (optionally with a
+ * modified context), skip it to short-circuit, or transform what it returns/throws
+ */
+type Middleware<
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TKey extends keyof TContracts = keyof TContracts,
+> = (
+  ctx: AnyMiddlewareContext<TContracts, TConfiguration, TKey>,
+  next: (
+    ctx?: AnyMiddlewareContext<TContracts, TConfiguration, TKey>,
+  ) => Promise<TContracts[TKey]["dto"]>,
+) => Promise<TContracts[TKey]["dto"]>;
+
 type KeysWith<
   TContracts extends Contracts,
   TProp extends "pathParams" | "searchParams" | "payload" | "extra",
@@ -70,22 +350,139 @@ type KeysWith<
   [K in keyof TContracts]: TProp extends keyof TContracts[K] ? K : never;
 }[keyof TContracts];
 
-type SchemaValidator<TData, TRawSchema = unknown> = ((
+type LifecycleEvent = "onCall" | "onOk" | "onFail" | "onSettled";
+
+// "*" subscribes to events of every contract
+type EventKey<TContracts extends Contracts> = keyof TContracts | "*";
+
+type EventMeta<TKey> = {
+  key: TKey;
+  /** Unique per call, the same in all events of the call */
+  callId: string;
+  /** Timestamps in ms */
+  startedAt: number;
+};
+
+type SettledMeta = {
+  endedAt: number;
+  duration: number;
+};
+
+type EventInput<
+  TConfiguration extends Configuration | undefined,
+  TContracts extends Contracts,
+  TKey extends keyof TContracts,
+> =
+  CallArgs<TConfiguration, TContracts, TKey> extends [infer TInput]
+    ? TInput
+    : unknown;
+
+type EventFailure<
+  TContracts extends Contracts,
+  TKey extends keyof TContracts,
+  TParsedErrors extends boolean,
+> = {
+  error: CallError<TContracts, TKey, TParsedErrors>;
+  // Present only for contracts with a retry policy
+  attempt?: number;
+};
+
+type LifecyclePayloads<
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TParsedErrors extends boolean,
+  TKey extends keyof TContracts,
+> = {
+  onCall: EventInput<TConfiguration, TContracts, TKey> & EventMeta<TKey>;
+  onOk: EventInput<TConfiguration, TContracts, TKey> &
+    EventMeta<TKey> &
+    SettledMeta & { dto: TContracts[TKey]["dto"] };
+  onFail: EventInput<TConfiguration, TContracts, TKey> &
+    EventMeta<TKey> &
+    SettledMeta &
+    EventFailure<TContracts, TKey, TParsedErrors>;
+  onSettled: EventInput<TConfiguration, TContracts, TKey> &
+    EventMeta<TKey> &
+    SettledMeta &
+    (
+      | { ok: true; dto: TContracts[TKey]["dto"] }
+      | ({ ok: false } & EventFailure<TContracts, TKey, TParsedErrors>)
+    );
+};
+
+// Payload of the contract event, union of all contracts for "*"
+type EventPayload<
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TParsedErrors extends boolean,
+  TEvent extends LifecycleEvent,
+  TKey extends EventKey<TContracts>,
+> = TKey extends "*"
+  ? {
+      [K in keyof TContracts]: LifecyclePayloads<
+        TContracts,
+        TConfiguration,
+        TParsedErrors,
+        K
+      >[TEvent];
+    }[keyof TContracts]
+  : LifecyclePayloads<
+      TContracts,
+      TConfiguration,
+      TParsedErrors,
+      TKey & keyof TContracts
+    >[TEvent];
+
+type EventListener<
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TParsedErrors extends boolean,
+  TEvent extends LifecycleEvent,
+  TKey extends EventKey<TContracts>,
+> = (
+  payload: EventPayload<
+    TContracts,
+    TConfiguration,
+    TParsedErrors,
+    TEvent,
+    TKey
+  >,
+) => void | Promise<void>;
+
+type EventSubscriber<
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TParsedErrors extends boolean,
+  TEvent extends LifecycleEvent,
+> = <TKey extends EventKey<TContracts>>(
+  key: TKey,
+  callback: EventListener<
+    TContracts,
+    TConfiguration,
+    TParsedErrors,
+    TEvent,
+    TKey
+  >,
+) => () => void;
+
+type SchemaValidator<TData, TRawSchema = unknown, TInput = TData> = ((
   data: unknown,
 ) => TData) & {
   __rawSchema: TRawSchema;
+  // Type-only marker, never assigned at runtime
+  __input?: TInput;
 };
 
 type ConditionalSchema<
   TContract extends Contracts[keyof Contracts],
   TKey extends "payload" | "pathParams" | "searchParams" | "extra",
 > = TKey extends keyof TContract
-  ? { [K in TKey]?: SchemaValidator<TContract[K]> }
+  ? { [K in TKey]?: SchemaValidator<TContract[K], unknown, any> }
   : unknown;
 
 type ContractSchemas<TContract extends Contracts[keyof Contracts]> = {
-  dto?: SchemaValidator<TContract["dto"]>;
-  error?: SchemaValidator<TContract["error"]>;
+  dto?: SchemaValidator<TContract["dto"], unknown, any>;
+  error?: SchemaValidator<TContract["error"], unknown, any>;
 } & ConditionalSchema<TContract, "payload"> &
   ConditionalSchema<TContract, "pathParams"> &
   ConditionalSchema<TContract, "searchParams"> &
@@ -141,6 +538,170 @@ type GetRawSchemaReturn<
           >;
         };
 
+// Slots that are replaced with the validator output in "parse" mode
+type ParsedSlot = "pathParams" | "searchParams" | "payload" | "extra" | "dto";
+
+// Type to extract the input type accepted by a provided schema validator
+type ExtractSchemaInput<
+  TSchemas,
+  TSlot extends PropertyKey,
+  TFallback,
+> = TSchemas extends { [K in TSlot]?: infer TValidator }
+  ? TValidator extends SchemaValidator<any, any, infer TInput>
+    ? TInput
+    : TFallback
+  : TFallback;
+
+// Contracts as seen by the caller - in "parse" mode every slot with a schema
+// accepts the schema input type, while results stay typed as the output
+type ContractsInput<
+  TContracts extends Contracts,
+  TContractsSignature,
+  TMode extends ValidationMode,
+> = TMode extends "parse"
+  ? {
+      [K in keyof TContracts]: {
+        [TSlot in keyof TContracts[K]]: TSlot extends ParsedSlot
+          ? ExtractSchemaInput<
+              ExtractProvidedSchemas<
+                TContractsSignature[K & keyof TContractsSignature]
+              >,
+              TSlot,
+              TContracts[K][TSlot]
+            >
+          : TContracts[K][TSlot];
+      };
+    }
+  : TContracts;
+
+// Contract key followed by the call input, as passed to "call"
+type BatchCall<
+  TContracts extends Contracts,
+  TContractsSignature,
+  TMode extends ValidationMode,
+> = {
+  [K in keyof TContracts]: readonly [
+    key: K,
+    ...args: CallArgs<
+      undefined,
+      ContractsInput<TContracts, TContractsSignature, TMode>,
+      K
+    >,
+  ];
+}[keyof TContracts];
+
+type BatchDto<TContracts extends Contracts, TCall> = TCall extends readonly [
+  infer TKey extends keyof TContracts,
+  ...unknown[],
+]
+  ? TContracts[TKey]["dto"]
+  : never;
+
+type SettledResult<
+  TContracts extends Contracts,
+  TParsedErrors extends boolean,
+  TCall,
+> = TCall extends readonly [infer TKey extends keyof TContracts, ...unknown[]]
+  ?
+      | [true, TContracts[TKey]["dto"]]
+      | [false, CallError<TContracts, TKey, TParsedErrors>]
+  : never;
+
+/** Search params of paginated contracts, no cursor means the first page */
+type PageParams = {
+  cursor?: string;
+  limit?: number;
+};
+
+/** Dto of paginated contracts, nextCursor is null on the last page */
+type Page<TItem> = {
+  items: TItem[];
+  nextCursor: string | null;
+};
+
+/**
+ * Contract of a paginated list, e.g. Paginated<Task, TaskError, { status: string }>
+ */
+type Paginated<
+  TItem,
+  TError,
+  TSearchParams extends Record<string, unknown> = Record<never, never>,
+> = {
+  dto: Page<TItem>;
+  error: TError;
+  searchParams: PageParams & TSearchParams;
+};
+
+// Keys of contracts with the page envelope and cursor search params
+type PaginatedKeys<TContracts extends Contracts> = {
+  [K in keyof TContracts]: TContracts[K]["dto"] extends Page<unknown>
+    ? TContracts[K] extends { searchParams: PageParams }
+      ? K
+      : never
+    : never;
+}[keyof TContracts];
+
+/** Input of a stream resolver, the call input with the stream state */
+type StreamInput<
+  TContracts extends Contracts,
+  TKey extends keyof TContracts,
+> = (CallArgs<undefined, TContracts, TKey> extends [infer TInput]
+  ? TInput
+  : unknown) & {
+  /** Id of the last received chunk, set when the stream is resumed */
+  lastEventId?: string;
+  /** Aborted when the subscription is closed */
+  signal: AbortSignal;
+};
+
+// Keys of contracts declared with "stream" or "sse"
+type StreamKeys<TContractsSignature> = {
+  [K in keyof TContractsSignature]: TContractsSignature[K] extends
+    | { stream: unknown }
+    | { sse: unknown }
+    ? K
+    : never;
+}[keyof TContractsSignature];
+
+type ReconnectPolicy = Pick<
+  RetryPolicy<Contracts, string>,
+  "backoff" | "delay" | "maxDelay"
+> & {
+  /** Reconnects in a row without receiving a chunk, unlimited by default */
+  attempts?: number;
+  /** By default failures without response and 5xx are reconnected */
+  reconnectIf?: (error: unknown) => boolean;
+};
+
+type SubscribeOptions<
+  TContracts extends Contracts,
+  TKey extends keyof TContracts,
+  TParsedErrors extends boolean,
+> = {
+  signal?: AbortSignal;
+  /** Resumes the stream after given chunk */
+  lastEventId?: string;
+  reconnect?: ReconnectPolicy | false;
+  onError?: (error: CallError<TContracts, TKey, TParsedErrors>) => void;
+  /** Called when the stream ends, not when it's closed by the client */
+  onDone?: () => void;
+};
+
+type SettleOptions = {
+  /** Maximum number of calls running at once, all of them by default */
+  concurrency?: number;
+  /** Aborts all calls, it's passed to each of them in "extra.signal" */
+  signal?: AbortSignal;
+};
+
+type AllOptions = SettleOptions & {
+  /**
+   * Rejects on the first failure and aborts the rest (default), otherwise
+   * rejects with the first failure once all calls are settled
+   */
+  failFast?: boolean;
+};
+
 type CleanApi<
   TContracts extends Contracts,
   TConfiguration extends Configuration | undefined,
@@ -148,37 +709,117 @@ type CleanApi<
     keyof TContracts,
     { resolver: unknown; schemas?: unknown }
   >,
+  TMode extends ValidationMode = "validate",
+  TParsedErrors extends boolean = false,
 > = {
-  onCall: <TKey extends keyof TContracts>(
-    key: TKey,
-    callback: (
-      ...args: CallArgs<TConfiguration, TContracts, TKey>
-    ) => void | Promise<void>,
-  ) => () => void;
-  onOk: <TKey extends keyof TContracts>(
-    key: TKey,
-    callback: (
-      input: CallArgs<TConfiguration, TContracts, TKey>[0] & {
-        dto: TContracts[TKey]["dto"];
-      },
-    ) => void | Promise<void>,
-  ) => () => void;
-  onFail: <TKey extends keyof TContracts>(
+  use: {
+    (middleware: Middleware<TContracts, TConfiguration>): () => void;
+    <TKey extends keyof TContracts>(
+      key: TKey,
+      middleware: Middleware<TContracts, TConfiguration, TKey>,
+    ): () => void;
+  };
+  onCall: EventSubscriber<TContracts, TConfiguration, TParsedErrors, "onCall">;
+  onOk: EventSubscriber<TContracts, TConfiguration, TParsedErrors, "onOk">;
+  onFail: EventSubscriber<TContracts, TConfiguration, TParsedErrors, "onFail">;
+  onSettled: EventSubscriber<
+    TContracts,
+    TConfiguration,
+    TParsedErrors,
+    "onSettled"
+  >;
+  /** Subscribes to the event and unsubscribes after the first one */
+  once: <TEvent extends LifecycleEvent, TKey extends EventKey<TContracts>>(
+    event: TEvent,
     key: TKey,
-    callback: (
-      input: CallArgs<TConfiguration, TContracts, TKey>[0] & {
-        error: unknown;
-      },
-    ) => void | Promise<void>,
+    callback: EventListener<
+      TContracts,
+      TConfiguration,
+      TParsedErrors,
+      TEvent,
+      TKey
+    >,
   ) => () => void;
   call: <TKey extends keyof TContracts>(
     key: TKey,
-    ...args: CallArgs<undefined, TContracts, TKey>
+    ...args: CallArgs<
+      undefined,
+      ContractsInput<TContracts, TContractsSignature, TMode>,
+      TKey
+    >
   ) => Promise<TContracts[TKey]["dto"]>;
   safeCall: <TKey extends keyof TContracts>(
     key: TKey,
-    ...args: CallArgs<undefined, TContracts, TKey>
-  ) => Promise<[true, TContracts[TKey]["dto"]] | [false, unknown]>;
+    ...args: CallArgs<
+      undefined,
+      ContractsInput<TContracts, TContractsSignature, TMode>,
+      TKey
+    >
+  ) => Promise<
+    | [true, TContracts[TKey]["dto"]]
+    | [false, CallError<TContracts, TKey, TParsedErrors>]
+  >;
+  /** Runs calls concurrently, resolves with their dtos in the same order */
+  all: <
+    const TCalls extends readonly BatchCall<
+      TContracts,
+      TContractsSignature,
+      TMode
+    >[],
+  >(
+    calls: TCalls,
+    options?: AllOptions,
+  ) => Promise<{
+    -readonly [I in keyof TCalls]: BatchDto<TContracts, TCalls[I]>;
+  }>;
+  /** Like "all", but never rejects - resolves with safeCall results */
+  settle: <
+    const TCalls extends readonly BatchCall<
+      TContracts,
+      TContractsSignature,
+      TMode
+    >[],
+  >(
+    calls: TCalls,
+    options?: SettleOptions,
+  ) => Promise<{
+    -readonly [I in keyof TCalls]: SettledResult<
+      TContracts,
+      TParsedErrors,
+      TCalls[I]
+    >;
+  }>;
+  /**
+   * Iterates over pages of a paginated contract starting from the input
+   * cursor, the next page is requested when the previous one is consumed
+   */
+  paginate: <TKey extends PaginatedKeys<TContracts>>(
+    key: TKey,
+    ...args: CallArgs<
+      undefined,
+      ContractsInput<TContracts, TContractsSignature, TMode>,
+      TKey
+    >
+  ) => AsyncGenerator<TContracts[TKey]["dto"], void, undefined>;
+  /**
+   * Listens to a streaming contract, each chunk is validated by the dto
+   * schema. Returns a function closing the stream.
+   */
+  subscribe: <TKey extends StreamKeys<TContractsSignature> & keyof TContracts>(
+    key: TKey,
+    input: CallArgs<
+      undefined,
+      ContractsInput<TContracts, TContractsSignature, TMode>,
+      TKey
+    > extends [infer TInput]
+      ? TInput
+      : undefined,
+    onChunk: (
+      dto: TContracts[TKey]["dto"],
+      meta: { id: string | undefined },
+    ) => void,
+    options?: SubscribeOptions<TContracts, TKey, TParsedErrors>,
+  ) => () => void;
   error: <
     TKey extends keyof TContracts,
     TError extends TContracts[TKey]["error"],
@@ -188,32 +829,185 @@ type CleanApi<
   ) => TError;
   dto: <TKey extends keyof TContracts>(
     key: TKey,
-    dto: TContracts[TKey]["dto"],
+    dto: ContractsInput<TContracts, TContractsSignature, TMode>[TKey]["dto"],
   ) => TContracts[TKey]["dto"];
   pathParams: <TKey extends KeysWith<TContracts, "pathParams">>(
     key: TKey,
-    pathParams: TContracts[TKey]["pathParams"],
+    pathParams: ContractsInput<
+      TContracts,
+      TContractsSignature,
+      TMode
+    >[TKey]["pathParams"],
   ) => TContracts[TKey]["pathParams"];
   searchParams: <TKey extends KeysWith<TContracts, "searchParams">>(
     key: TKey,
-    searchParams: TContracts[TKey]["searchParams"],
+    searchParams: ContractsInput<
+      TContracts,
+      TContractsSignature,
+      TMode
+    >[TKey]["searchParams"],
   ) => TContracts[TKey]["searchParams"];
   payload: <TKey extends KeysWith<TContracts, "payload">>(
     key: TKey,
-    payload: TContracts[TKey]["payload"],
+    payload: ContractsInput<
+      TContracts,
+      TContractsSignature,
+      TMode
+    >[TKey]["payload"],
   ) => TContracts[TKey]["payload"];
   extra: <TKey extends KeysWith<TContracts, "extra">>(
     key: TKey,
-    extra: TContracts[TKey]["extra"],
+    extra: ContractsInput<
+      TContracts,
+      TContractsSignature,
+      TMode
+    >[TKey]["extra"],
   ) => TContracts[TKey]["extra"];
+  pathParamsAsync: <TKey extends KeysWith<TContracts, "pathParams">>(
+    key: TKey,
+    pathParams: ContractsInput<
+      TContracts,
+      TContractsSignature,
+      TMode
+    >[TKey]["pathParams"],
+  ) => Promise<TContracts[TKey]["pathParams"]>;
+  searchParamsAsync: <TKey extends KeysWith<TContracts, "searchParams">>(
+    key: TKey,
+    searchParams: ContractsInput<
+      TContracts,
+      TContractsSignature,
+      TMode
+    >[TKey]["searchParams"],
+  ) => Promise<TContracts[TKey]["searchParams"]>;
+  payloadAsync: <TKey extends KeysWith<TContracts, "payload">>(
+    key: TKey,
+    payload: ContractsInput<
+      TContracts,
+      TContractsSignature,
+      TMode
+    >[TKey]["payload"],
+  ) => Promise<TContracts[TKey]["payload"]>;
+  extraAsync: <TKey extends KeysWith<TContracts, "extra">>(
+    key: TKey,
+    extra: ContractsInput<
+      TContracts,
+      TContractsSignature,
+      TMode
+    >[TKey]["extra"],
+  ) => Promise<TContracts[TKey]["extra"]>;
+  errorAsync: <
+    TKey extends keyof TContracts,
+    TError extends TContracts[TKey]["error"],
+  >(
+    key: TKey,
+    error: TError & TContracts[TKey]["error"],
+  ) => Promise<TError>;
+  dtoAsync: <TKey extends keyof TContracts>(
+    key: TKey,
+    dto: ContractsInput<TContracts, TContractsSignature, TMode>[TKey]["dto"],
+  ) => Promise<TContracts[TKey]["dto"]>;
+  /**
+   * Calls failed for connectivity are kept here and stay pending until
+   * replayed, they're replayed in order when the browser goes online
+   */
+  queue: {
+    /** Queued calls in replay order */
+    entries: () => QueueEntry[];
+    /** Replays queued calls, stops at the first one still failing for connectivity */
+    flush: () => Promise<void>;
+    /** Drops the call, its pending promise is rejected */
+    remove: (id: string) => Promise<void>;
+    clear: () => Promise<void>;
+    subscribe: (listener: (entries: QueueEntry[]) => void) => () => void;
+  };
+  cache: {
+    /** Removes all cached responses with given tag */
+    invalidate: (tag: string) => Promise<void>;
+    /** Returns the cached dto for given input without calling the resolver */
+    peek: <TKey extends keyof TContracts>(
+      key: TKey,
+      ...args: CallArgs<
+        undefined,
+        ContractsInput<TContracts, TContractsSignature, TMode>,
+        TKey
+      >
+    ) => Promise<TContracts[TKey]["dto"] | undefined>;
+    clear: () => Promise<void>;
+  };
   getSchema: <TKey extends keyof TContracts & keyof TContractsSignature>(
     contractKey: TKey,
   ) => GetSchemaReturn<TContractsSignature, TKey>;
   getRawSchema: <TKey extends keyof TContracts & keyof TContractsSignature>(
     contractKey: TKey,
   ) => GetRawSchemaReturn<TContractsSignature, TKey>;
+  /** Keys of all declared contracts */
+  getKeys: () => (keyof TContracts)[];
+  /** The "http" definition of declarative contracts */
+  getHttp: (contractKey: keyof TContracts) => HttpDefinition | undefined;
 };
 
+/**
+ * Thrown by generated http resolvers when the server responds with non-2xx status
+ */
+class HttpException extends Error {
+  constructor(
+    public response: Response,
+    public data: unknown,
+  ) {
+    super(`Request failed with status ${response.status}`);
+  }
+
+  static is = (error: unknown): error is HttpException => {
+    return error instanceof HttpException;
+  };
+}
+
+/**
+ * Thrown by calls failed for connectivity and queued, the replay result is
+ * delivered to lifecycle listeners
+ */
+class QueuedException extends Error {
+  constructor(
+    public entry: QueueEntry,
+    public error: unknown,
+  ) {
+    super(`Call '${entry.key}' was queued for replay`);
+  }
+
+  static is = (error: unknown): error is QueuedException => {
+    return error instanceof QueuedException;
+  };
+}
+
+/**
+ * Thrown by fetch based resolvers when no response was received (network
+ * failure, server down, DNS or CORS issues)
+ */
+class NetworkException extends Error {
+  constructor(public error: unknown) {
+    super("Request failed without response");
+  }
+
+  static is = (error: unknown): error is NetworkException => {
+    return error instanceof NetworkException;
+  };
+}
+
+/**
+ * Chunk of a streaming contract with an id, resumed streams receive the id
+ * of the last chunk as "lastEventId"
+ */
+class StreamEvent<TData = unknown> {
+  constructor(
+    public data: TData,
+    public id?: string,
+  ) {}
+
+  static is = (value: unknown): value is StreamEvent => {
+    return value instanceof StreamEvent;
+  };
+}
+
 class ValidationException extends Error {
   constructor(public issues: { path: (string | number)[]; message: string }[]) {
     super("Validation exception");
@@ -254,13 +1048,30 @@ type ParsedError<
   TKey extends keyof TContracts,
 > = (TContracts[TKey]["error"] | BrowserError) & { rawError: unknown };
 
+type ErrorParser = <
+  TContracts extends Contracts,
+  TKey extends keyof TContracts,
+>(
+  key: TKey,
+  error: unknown,
+) => ParsedError<TContracts, TKey>;
+
+// ParsedError when a parser was registered at init(), otherwise the raw error
+type CallError<
+  TContracts extends Contracts,
+  TKey extends keyof TContracts,
+  TParsedErrors extends boolean,
+> = TParsedErrors extends true ? ParsedError<TContracts, TKey> : unknown;
+
 // Utility types for inferring types from CleanApi instances
 
 /**
  * Extract the contracts type from a CleanApi instance
  */
 type InferContracts<TApi> =
-  TApi extends CleanApi<infer TContracts, any> ? TContracts : never;
+  TApi extends CleanApi<infer TContracts, any, any, any, any>
+    ? TContracts
+    : never;
 
 type InferDto<
   TApi,
@@ -347,9 +1158,52 @@ export type {
   CallArgs,
   InferInput,
   Configuration,
+  ValidationMode,
+  InitOptions,
+  HttpMethod,
+  HttpOptions,
+  HttpDefinition,
+  BatchRequest,
+  BatchResponse,
+  RPCRequest,
+  BatchCall,
+  PageParams,
+  Page,
+  Paginated,
+  PaginatedKeys,
+  SseDefinition,
+  StreamInput,
+  StreamKeys,
+  ReconnectPolicy,
+  SubscribeOptions,
+  SettleOptions,
+  AllOptions,
+  ExtractPathParams,
+  ValidatedPath,
+  HttpPathIssues,
+  CacheEntry,
+  CacheStorage,
+  CachePolicy,
+  QueueEntry,
+  QueueStorage,
+  QueuePolicy,
+  Middleware,
+  MiddlewareContext,
+  RetryBackoff,
+  RetryPolicy,
+  ContractsInput,
   KeysWith,
   CleanApi,
   ParsedError,
+  ErrorParser,
+  CallError,
+  LifecycleEvent,
+  EventKey,
+  EventMeta,
+  SettledMeta,
+  EventPayload,
+  EventListener,
+  EventSubscriber,
   BrowserError,
   AbortedError,
   ClientExceptionError,
@@ -375,4 +1229,10 @@ export type {
   InferAllSearchParams,
   InferAllExtras,
 };
-export { ValidationException };
+export {
+  ValidationException,
+  HttpException,
+  NetworkException,
+  QueuedException,
+  StreamEvent,
+};
@@ -0,0 +1,251 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type {
+  CleanApi,
+  Configuration,
+  Contracts,
+  HttpDefinition,
+  ValidationMode,
+} from "./models";
+
+type JSONSchema = Record<string, unknown>;
+
+/**
+ * Turns a raw schema attached to validator (e.g. zod) into JSON Schema.
+ * "input" describes what is sent, "output" what is received.
+ */
+type SchemaConverter = (
+  rawSchema: unknown,
+  io: "input" | "output",
+) => JSONSchema | undefined;
+
+type OpenAPIOperation = Partial<HttpDefinition> & {
+  summary?: string;
+  tags?: string[];
+  /** Status of successful response, 201 for "post" and 200 for rest by default */
+  status?: number;
+};
+
+type OpenAPIOptions<TContracts extends Contracts> = {
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  toJSONSchema: SchemaConverter;
+  /** Extends or overrides "http" definitions, required for hand-written resolvers */
+  operations?: { [K in keyof TContracts]?: OpenAPIOperation };
+};
+
+type OpenAPIDocument = {
+  openapi: "3.1.0";
+  info: OpenAPIOptions<Contracts>["info"];
+  servers?: OpenAPIOptions<Contracts>["servers"];
+  paths: Record<string, Record<string, JSONSchema>>;
+};
+
+// "/users/:id" -> "/users/{id}"
+const toOpenAPIPath = (path: string): string =>
+  path.replace(/:([^/]+)/g, "{$1}");
+
+const toParameters = (
+  schema: JSONSchema | undefined,
+  location: "path" | "query",
+): JSONSchema[] => {
+  const properties = (schema?.properties ?? {}) as Record<string, JSONSchema>;
+  const required = (schema?.required ?? []) as string[];
+
+  return Object.entries(properties).map(([name, propertySchema]) => ({
+    name,
+    in: location,
+    required: location === "path" || required.includes(name),
+    schema: propertySchema,
+  }));
+};
+
+// Groups ErrorVariant union members by their "status" literal
+const toErrorResponses = (
+  schema: JSONSchema | undefined,
+): Record<string, JSONSchema> => {
+  if (!schema) {
+    return {};
+  }
+
+  const variants = (schema.anyOf ?? schema.oneOf ?? [schema]) as JSONSchema[];
+  const byStatus = new Map<number, JSONSchema[]>();
+
+  for (const variant of variants) {
+    const properties = (variant.properties ?? {}) as Record<string, JSONSchema>;
+    const status = properties.status?.const;
+
+    if (typeof status === "number") {
+      byStatus.set(status, [...(byStatus.get(status) ?? []), variant]);
+    }
+  }
+
+  const responses: Record<string, JSONSchema> = {};
+
+  for (const [status, group] of byStatus) {
+    const types = group.map(
+      (variant) =>
+        (variant.properties as Record<string, JSONSchema>).type?.const,
+    );
+
+    responses[String(status)] = {
+      description: types.filter(Boolean).join(" | ") || "Error",
+      content: {
+        "application/json": {
+          schema: group.length === 1 ? group[0] : { oneOf: group },
+        },
+      },
+    };
+  }
+
+  return responses;
+};
+
+/**
+ * Builds OpenAPI 3.1 document from contracts that declare "http" (or get it
+ * from "operations"). Contracts without method and path are skipped.
+ */
+const generateOpenAPI = <
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TParsedErrors extends boolean,
+>(
+  api: CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TParsedErrors
+  >,
+  options: OpenAPIOptions<TContracts>,
+): OpenAPIDocument => {
+  const paths: OpenAPIDocument["paths"] = {};
+
+  for (const key of api.getKeys()) {
+    const operation: OpenAPIOperation = {
+      ...api.getHttp(key),
+      ...options.operations?.[key],
+    };
+    const { method, path } = operation;
+
+    if (!method || !path) {
+      continue;
+    }
+
+    const rawSchemas = (api.getRawSchema(key as any) ?? {}) as Record<
+      string,
+      unknown
+    >;
+    const toSchema = (slot: string, io: "input" | "output") =>
+      slot in rawSchemas
+        ? options.toJSONSchema(rawSchemas[slot], io)
+        : undefined;
+
+    const payload = toSchema("payload", "input");
+    const dto = toSchema("dto", "output");
+    const status = operation.status ?? (method === "post" ? 201 : 200);
+
+    const parameters = [
+      ...toParameters(toSchema("pathParams", "input"), "path"),
+      ...toParameters(toSchema("searchParams", "input"), "query"),
+    ];
+
+    const openAPIPath = toOpenAPIPath(path);
+
+    paths[openAPIPath] = {
+      ...paths[openAPIPath],
+      [method]: {
+        operationId: String(key),
+        ...(operation.summary ? { summary: operation.summary } : {}),
+        ...(operation.tags ? { tags: operation.tags } : {}),
+        ...(parameters.length > 0 ? { parameters } : {}),
+        ...(payload
+          ? {
+              requestBody: {
+                required: true,
+                content: { "application/json": { schema: payload } },
+              },
+            }
+          : {}),
+        responses: {
+          [String(status)]: {
+            description: "Success",
+            ...(dto
+              ? { content: { "application/json": { schema: dto } } }
+              : {}),
+          },
+          ...toErrorResponses(toSchema("error", "output")),
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: options.info,
+    ...(options.servers ? { servers: options.servers } : {}),
+    paths,
+  };
+};
+
+const isNested = (value: unknown): value is object =>
+  typeof value === "object" && value !== null && Object.keys(value).length > 0;
+
+const toYAMLScalar = (value: unknown): string => {
+  if (typeof value === "string") {
+    // Quote everything that could be read as other type or YAML syntax
+    return /^[A-Za-z_][\w.-]*$/.test(value) &&
+      !/^(true|false|null|yes|no|on|off)$/i.test(value)
+      ? value
+      : JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return "[]";
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return "{}";
+  }
+
+  return value === undefined ? "null" : String(value);
+};
+
+/**
+ * Serializes JSON compatible value (e.g. the OpenAPI document) to YAML
+ */
+const toYAML = (value: unknown, indent = 0): string => {
+  const pad = "  ".repeat(indent);
+
+  if (!isNested(value)) {
+    return `${pad}${toYAMLScalar(value)}`;
+  }
+
+  if (Array.isArray(value)) {
+    return value
+      .map((item) =>
+        isNested(item)
+          ? `${pad}- ${toYAML(item, indent + 1).trimStart()}`
+          : `${pad}- ${toYAMLScalar(item)}`,
+      )
+      .join("\n");
+  }
+
+  return Object.entries(value)
+    .map(([key, item]) =>
+      isNested(item)
+        ? `${pad}${toYAMLScalar(key)}:\n${toYAML(item, indent + 1)}`
+        : `${pad}${toYAMLScalar(key)}: ${toYAMLScalar(item)}`,
+    )
+    .join("\n");
+};
+
+export type {
+  JSONSchema,
+  SchemaConverter,
+  OpenAPIOperation,
+  OpenAPIOptions,
+  OpenAPIDocument,
+};
+export { generateOpenAPI, toYAML };
@@ -0,0 +1,174 @@
+import type { QueueEntry, QueueStorage } from "./models";
+
+/**
+ * Keeps queued calls in memory, lost on page reload
+ */
+const createMemoryQueueStorage = (): QueueStorage => {
+  let entries: QueueEntry[] = [];
+
+  return {
+    load: () => entries,
+    save: (next) => {
+      entries = next;
+    },
+  };
+};
+
+/**
+ * Keeps queued calls in Web Storage (localStorage by default).
+ * Inputs must be JSON serializable.
+ * @param storage - Storage implementation, e.g. localStorage or sessionStorage
+ * @param key - Item under which the queue is stored
+ */
+const createWebQueueStorage = (
+  storage: Storage = localStorage,
+  key = "clean-api:queue",
+): QueueStorage => {
+  return {
+    load: () => {
+      const raw = storage.getItem(key);
+
+      if (raw === null) {
+        return [];
+      }
+
+      try {
+        return JSON.parse(raw) as QueueEntry[];
+      } catch {
+        storage.removeItem(key);
+        return [];
+      }
+    },
+    save: (entries) => {
+      storage.setItem(key, JSON.stringify(entries));
+    },
+  };
+};
+
+/**
+ * Keeps queued calls in IndexedDB, inputs must be structured cloneable
+ * @param name - Database name
+ * @param factory - IndexedDB implementation, the global one by default
+ */
+const createIndexedDBQueueStorage = (
+  name = "clean-api",
+  factory: IDBFactory = indexedDB,
+): QueueStorage => {
+  const STORE = "queue";
+  const KEY = "entries";
+
+  const request = <T>(req: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+
+  let database: Promise<IDBDatabase> | undefined;
+
+  const open = (): Promise<IDBDatabase> => {
+    database ??= new Promise((resolve, reject) => {
+      const req = factory.open(name, 1);
+
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+
+    return database;
+  };
+
+  return {
+    load: async () => {
+      const db = await open();
+      const entries = await request<QueueEntry[] | undefined>(
+        db.transaction(STORE, "readonly").objectStore(STORE).get(KEY),
+      );
+
+      return entries ?? [];
+    },
+    save: async (entries) => {
+      const db = await open();
+
+      await request(
+        db.transaction(STORE, "readwrite").objectStore(STORE).put(entries, KEY),
+      );
+    },
+  };
+};
+
+/**
+ * Ordered list of calls waiting for connectivity, mirrored in memory so it
+ * can be read synchronously (e.g. by useSyncExternalStore)
+ */
+class MutationQueue {
+  private entries: QueueEntry[] = [];
+  private listeners = new Set<(entries: QueueEntry[]) => void>();
+  /** Resolves when entries persisted before reload are restored */
+  ready: Promise<void>;
+
+  constructor(private storage: QueueStorage) {
+    this.ready = Promise.resolve()
+      .then(() => storage.load())
+      .then((stored) => {
+        if (stored.length > 0) {
+          this.commit(stored);
+        }
+      })
+      .catch((error: unknown) => {
+        console.error("Restoring queued calls failed:", error);
+      });
+  }
+
+  list = (): QueueEntry[] => this.entries;
+
+  add = (entry: QueueEntry): Promise<void> =>
+    this.update((entries) => [...entries, entry]);
+
+  replace = (id: string, input: QueueEntry["input"]): Promise<void> =>
+    this.update((entries) =>
+      entries.map((entry) => (entry.id === id ? { ...entry, input } : entry)),
+    );
+
+  remove = (id: string): Promise<void> =>
+    this.update((entries) => entries.filter((entry) => entry.id !== id));
+
+  clear = (): Promise<void> => this.update(() => []);
+
+  subscribe = (listener: (entries: QueueEntry[]) => void): (() => void) => {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Applied after restoring, so persisted entries are never overwritten
+  private update = async (
+    change: (entries: QueueEntry[]) => QueueEntry[],
+  ): Promise<void> => {
+    await this.ready;
+
+    const entries = change(this.entries);
+
+    this.commit(entries);
+    await this.storage.save(entries);
+  };
+
+  // New array on every change, so snapshots can be compared by reference
+  private commit = (entries: QueueEntry[]): void => {
+    this.entries = entries;
+
+    for (const listener of [...this.listeners]) {
+      listener(entries);
+    }
+  };
+}
+
+export {
+  createMemoryQueueStorage,
+  createWebQueueStorage,
+  createIndexedDBQueueStorage,
+  MutationQueue,
+};
@@ -0,0 +1,70 @@
+import type {
+  BrowserError,
+  Contracts,
+  ErrorVariant,
+  RetryPolicy,
+} from "./models";
+
+const DEFAULT_RETRY_DELAY = 300;
+const DEFAULT_MAX_RETRY_DELAY = 10_000;
+
+/**
+ * Default retry predicate - only failures that may pass when repeated
+ * (no response from server or 5xx) are retried
+ */
+const isRetryableError = (
+  error: ErrorVariant<string, number> | BrowserError,
+): boolean => {
+  return error.type === "no_server_response" || error.status >= 500;
+};
+
+/**
+ * Calculates how long to wait before the next attempt
+ * @param policy - Retry policy declared in the contract
+ * @param attempt - Number of the attempt that just failed (starting from 1)
+ */
+const getRetryDelay = (
+  policy: Pick<
+    RetryPolicy<Contracts, string>,
+    "backoff" | "delay" | "maxDelay"
+  >,
+  attempt: number,
+): number => {
+  const { backoff = "exponential", delay = DEFAULT_RETRY_DELAY } = policy;
+  const maxDelay = policy.maxDelay ?? DEFAULT_MAX_RETRY_DELAY;
+
+  if (typeof backoff === "function") {
+    return Math.min(backoff(attempt), maxDelay);
+  }
+
+  const exponential = Math.min(delay * 2 ** (attempt - 1), maxDelay);
+
+  if (backoff === "jitter") {
+    return Math.random() * exponential;
+  }
+
+  return exponential;
+};
+
+/**
+ * Resolves after given time or as soon as the signal is aborted
+ */
+const waitForRetry = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+
+    const timeout = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+};
+
+export { isRetryableError, getRetryDelay, waitForRetry };
@@ -0,0 +1,502 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type {
+  CleanApi,
+  Configuration,
+  Contracts,
+  ValidationMode,
+} from "./models";
+import type { JSONSchema, SchemaConverter } from "./openapi";
+
+type ContractSlot = "pathParams" | "searchParams" | "payload" | "dto" | "error";
+
+/** JSON Schema of every slot with a schema, per contract key */
+type ContractsSnapshot = Record<
+  string,
+  Partial<Record<ContractSlot, JSONSchema>>
+>;
+
+/**
+ * "added" and "removed" are used for contracts and object properties,
+ * "widened" and "narrowed" tell whether the slot allows more or fewer values
+ */
+type SchemaChangeKind =
+  | "added"
+  | "removed"
+  | "widened"
+  | "narrowed"
+  | "changed";
+
+type SchemaChange = {
+  key: string;
+  /** Missing for added and removed contracts */
+  slot?: ContractSlot;
+  /** Path of the value in the slot, "[]" stands for array items */
+  path: string[];
+  kind: SchemaChangeKind;
+  breaking: boolean;
+  message: string;
+};
+
+type SchemaDiff = {
+  breaking: boolean;
+  changes: SchemaChange[];
+};
+
+type SnapshotOptions = {
+  toJSONSchema: SchemaConverter;
+};
+
+// Internal change, "required" tells how added/removed properties affect clients
+type Difference = Pick<SchemaChange, "path" | "kind" | "message"> & {
+  required?: boolean;
+};
+
+const SLOTS: ContractSlot[] = [
+  "pathParams",
+  "searchParams",
+  "payload",
+  "dto",
+  "error",
+];
+
+// Clients send these, the server may start accepting more but not fewer values
+const REQUEST_SLOTS: ContractSlot[] = ["pathParams", "searchParams", "payload"];
+
+const LOWER_BOUNDS = [
+  "minimum",
+  "exclusiveMinimum",
+  "minLength",
+  "minItems",
+] as const;
+
+const UPPER_BOUNDS = [
+  "maximum",
+  "exclusiveMaximum",
+  "maxLength",
+  "maxItems",
+] as const;
+
+/**
+ * Converts schemas of all contracts to JSON Schema, request slots are
+ * described by their input and response slots by their output
+ */
+const snapshotContracts = <
+  TContracts extends Contracts,
+  TConfiguration extends Configuration | undefined,
+  TContractsSignature,
+  TMode extends ValidationMode,
+  TParsedErrors extends boolean,
+>(
+  api: CleanApi<
+    TContracts,
+    TConfiguration,
+    TContractsSignature,
+    TMode,
+    TParsedErrors
+  >,
+  options: SnapshotOptions,
+): ContractsSnapshot => {
+  const snapshot: ContractsSnapshot = {};
+
+  for (const key of api.getKeys()) {
+    const rawSchemas = (api.getRawSchema(key as any) ?? {}) as Record<
+      string,
+      unknown
+    >;
+    const schemas: ContractsSnapshot[string] = {};
+
+    for (const slot of SLOTS) {
+      const schema =
+        slot in rawSchemas
+          ? options.toJSONSchema(
+              rawSchemas[slot],
+              REQUEST_SLOTS.includes(slot) ? "input" : "output",
+            )
+          : undefined;
+
+      if (schema) {
+        schemas[slot] = schema;
+      }
+    }
+
+    snapshot[String(key)] = schemas;
+  }
+
+  return snapshot;
+};
+
+const isAny = (schema: JSONSchema): boolean =>
+  !["type", "anyOf", "oneOf", "enum", "const", "properties", "items"].some(
+    (keyword) => keyword in schema,
+  );
+
+const toTypes = (schema: JSONSchema): string[] | undefined => {
+  if (schema.type === undefined) {
+    return undefined;
+  }
+
+  return Array.isArray(schema.type) ? schema.type : [String(schema.type)];
+};
+
+const toValues = (schema: JSONSchema): unknown[] | undefined => {
+  if ("const" in schema) {
+    return [schema.const];
+  }
+
+  return Array.isArray(schema.enum) ? schema.enum : undefined;
+};
+
+const toMembers = (schema: JSONSchema): JSONSchema[] =>
+  (schema.anyOf ?? schema.oneOf ?? [schema]) as JSONSchema[];
+
+// Object members are told apart by their literal properties, e.g. error "type"
+const toSignature = (schema: JSONSchema): string => {
+  const properties = (schema.properties ?? {}) as Record<string, JSONSchema>;
+  const literals = Object.entries(properties)
+    .filter(([, property]) => "const" in property)
+    .map(([name, property]) => `${name}=${JSON.stringify(property.const)}`);
+  const type = toTypes(schema)?.join("|") ?? "any";
+
+  return literals.length > 0 ? `${type}(${literals.join(", ")})` : type;
+};
+
+const covers = (types: string[], type: string): boolean =>
+  types.includes(type) || (type === "integer" && types.includes("number"));
+
+const format = (values: unknown[]): string =>
+  values.map((value) => JSON.stringify(value)).join(", ");
+
+// Kind of change when both sides are sets of allowed items
+const compareSets = <TItem>(
+  previous: TItem[],
+  next: TItem[],
+  includes: (items: TItem[], item: TItem) => boolean,
+): SchemaChangeKind | undefined => {
+  const removed = previous.filter((item) => !includes(next, item));
+  const added = next.filter((item) => !includes(previous, item));
+
+  if (removed.length > 0 && added.length > 0) {
+    return "changed";
+  }
+
+  if (removed.length > 0) {
+    return "narrowed";
+  }
+
+  return added.length > 0 ? "widened" : undefined;
+};
+
+const compareBounds = (
+  previous: JSONSchema,
+  next: JSONSchema,
+  path: string[],
+): Difference[] => {
+  const differences: Difference[] = [];
+
+  for (const bound of [...LOWER_BOUNDS, ...UPPER_BOUNDS]) {
+    const before = previous[bound] as number | undefined;
+    const after = next[bound] as number | undefined;
+
+    if (before === after) {
+      continue;
+    }
+
+    const isLower = (LOWER_BOUNDS as readonly string[]).includes(bound);
+    // Missing bound allows everything, like the loosest possible value
+    const loosened =
+      after === undefined ||
+      (before !== undefined && (isLower ? after < before : after > before));
+
+    differences.push({
+      path,
+      kind: loosened ? "widened" : "narrowed",
+      message: `"${bound}" changed from ${before ?? "none"} to ${after ?? "none"}`,
+    });
+  }
+
+  for (const keyword of ["pattern", "format"]) {
+    const before = previous[keyword];
+    const after = next[keyword];
+
+    if (before === after) {
+      continue;
+    }
+
+    differences.push({
+      path,
+      kind:
+        before === undefined
+          ? "narrowed"
+          : after === undefined
+            ? "widened"
+            : "changed",
+      message: `"${keyword}" changed from ${before === undefined ? "none" : JSON.stringify(before)} to ${after === undefined ? "none" : JSON.stringify(after)}`,
+    });
+  }
+
+  return differences;
+};
+
+const compareProperties = (
+  previous: JSONSchema,
+  next: JSONSchema,
+  path: string[],
+): Difference[] => {
+  const before = (previous.properties ?? {}) as Record<string, JSONSchema>;
+  const after = (next.properties ?? {}) as Record<string, JSONSchema>;
+  const requiredBefore = (previous.required ?? []) as string[];
+  const requiredAfter = (next.required ?? []) as string[];
+  const differences: Difference[] = [];
+
+  for (const name of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const propertyPath = [...path, name];
+    const wasRequired = requiredBefore.includes(name);
+    const isRequired = requiredAfter.includes(name);
+
+    if (!after[name]) {
+      differences.push({
+        path: propertyPath,
+        kind: "removed",
+        required: wasRequired,
+        message: `${wasRequired ? "Required" : "Optional"} property "${name}" was removed`,
+      });
+      continue;
+    }
+
+    if (!before[name]) {
+      differences.push({
+        path: propertyPath,
+        kind: "added",
+        required: isRequired,
+        message: `${isRequired ? "Required" : "Optional"} property "${name}" was added`,
+      });
+      continue;
+    }
+
+    if (wasRequired !== isRequired) {
+      differences.push({
+        path: propertyPath,
+        kind: isRequired ? "narrowed" : "widened",
+        message: `Property "${name}" became ${isRequired ? "required" : "optional"}`,
+      });
+    }
+
+    differences.push(
+      ...compareSchemas(before[name], after[name], propertyPath),
+    );
+  }
+
+  return differences;
+};
+
+// Members are paired by signature, unpaired ones were added or removed
+const compareUnions = (
+  previous: JSONSchema[],
+  next: JSONSchema[],
+  path: string[],
+): Difference[] => {
+  const unpaired = [...next];
+  const differences: Difference[] = [];
+
+  for (const member of previous) {
+    const index = unpaired.findIndex(
+      (candidate) => toSignature(candidate) === toSignature(member),
+    );
+
+    if (index === -1) {
+      differences.push({
+        path,
+        kind: "narrowed",
+        message: `Variant ${toSignature(member)} was removed`,
+      });
+      continue;
+    }
+
+    differences.push(...compareSchemas(member, unpaired[index]!, path));
+    unpaired.splice(index, 1);
+  }
+
+  for (const member of unpaired) {
+    differences.push({
+      path,
+      kind: "widened",
+      message: `Variant ${toSignature(member)} was added`,
+    });
+  }
+
+  return differences;
+};
+
+/**
+ * Compares two JSON Schemas of the same slot. Only keywords produced by
+ * schema converters are checked: types, literals, unions, properties,
+ * array items, bounds, patterns and formats.
+ */
+const compareSchemas = (
+  previous: JSONSchema,
+  next: JSONSchema,
+  path: string[] = [],
+): Difference[] => {
+  if (isAny(previous) || isAny(next)) {
+    if (isAny(previous) === isAny(next)) {
+      return [];
+    }
+
+    return [
+      {
+        path,
+        kind: isAny(previous) ? "narrowed" : "widened",
+        message: isAny(previous)
+          ? "Any value was restricted"
+          : "Any value is allowed now",
+      },
+    ];
+  }
+
+  const previousMembers = toMembers(previous);
+  const nextMembers = toMembers(next);
+
+  if (previousMembers.length > 1 || nextMembers.length > 1) {
+    return compareUnions(previousMembers, nextMembers, path);
+  }
+
+  const previousTypes = toTypes(previous) ?? [];
+  const nextTypes = toTypes(next) ?? [];
+  const typesKind = compareSets(previousTypes, nextTypes, covers);
+
+  if (typesKind) {
+    return [
+      {
+        path,
+        kind: typesKind,
+        message: `Type changed from ${format(previousTypes)} to ${format(nextTypes)}`,
+      },
+    ];
+  }
+
+  const differences: Difference[] = [];
+  const previousValues = toValues(previous);
+  const nextValues = toValues(next);
+
+  if (previousValues || nextValues) {
+    const valuesKind =
+      previousValues && nextValues
+        ? compareSets(previousValues, nextValues, (values, value) =>
+            values.includes(value),
+          )
+        : previousValues
+          ? "widened"
+          : "narrowed";
+
+    if (valuesKind) {
+      differences.push({
+        path,
+        kind: valuesKind,
+        message: `Allowed values changed from ${previousValues ? format(previousValues) : "any"} to ${nextValues ? format(nextValues) : "any"}`,
+      });
+    }
+  }
+
+  differences.push(...compareBounds(previous, next, path));
+  differences.push(...compareProperties(previous, next, path));
+
+  if (previous.items || next.items) {
+    differences.push(
+      ...compareSchemas(
+        (previous.items ?? {}) as JSONSchema,
+        (next.items ?? {}) as JSONSchema,
+        [...path, "[]"],
+      ),
+    );
+  }
+
+  return differences;
+};
+
+/**
+ * Request slots may widen and response slots may narrow. Required request
+ * properties can't be added and required response ones can't be removed.
+ */
+const isBreaking = (slot: ContractSlot, difference: Difference): boolean => {
+  const isRequest = REQUEST_SLOTS.includes(slot);
+
+  switch (difference.kind) {
+    case "added":
+      return isRequest && difference.required === true;
+    case "removed":
+      return !isRequest && difference.required === true;
+    case "widened":
+      return !isRequest;
+    case "narrowed":
+      return isRequest;
+    case "changed":
+      return true;
+  }
+};
+
+/**
+ * Compares snapshots made by snapshotContracts (e.g. the deployed one and
+ * the current one) and classifies every change as breaking or not for
+ * clients built against the previous snapshot
+ */
+const diffSnapshots = (
+  previous: ContractsSnapshot,
+  next: ContractsSnapshot,
+): SchemaDiff => {
+  const changes: SchemaChange[] = [];
+
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (!next[key]) {
+      changes.push({
+        key,
+        path: [],
+        kind: "removed",
+        breaking: true,
+        message: `Contract "${key}" was removed`,
+      });
+      continue;
+    }
+
+    if (!previous[key]) {
+      changes.push({
+        key,
+        path: [],
+        kind: "added",
+        breaking: false,
+        message: `Contract "${key}" was added`,
+      });
+      continue;
+    }
+
+    for (const slot of SLOTS) {
+      // Slot without schema allows any value
+      const differences = compareSchemas(
+        previous[key][slot] ?? {},
+        next[key][slot] ?? {},
+      );
+
+      for (const difference of differences) {
+        changes.push({
+          key,
+          slot,
+          path: difference.path,
+          kind: difference.kind,
+          breaking: isBreaking(slot, difference),
+          message: difference.message,
+        });
+      }
+    }
+  }
+
+  return { breaking: changes.some((change) => change.breaking), changes };
+};
+
+export type {
+  ContractSlot,
+  ContractsSnapshot,
+  SchemaChange,
+  SchemaChangeKind,
+  SchemaDiff,
+  SnapshotOptions,
+};
+export { snapshotContracts, diffSnapshots };
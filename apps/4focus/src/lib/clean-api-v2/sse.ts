@@ -0,0 +1,258 @@
+import {
+  applyPathParams,
+  ensureOk,
+  fetchResponse,
+  serializeSearchParams,
+} from "./http";
+import {
+  HttpException,
+  StreamEvent,
+  ValidationException,
+  type ErrorVariant,
+  type HttpOptions,
+  type SseDefinition,
+} from "./models";
+
+type SSEMessage = {
+  /** "message" when the event has no name */
+  event: string;
+  data: string;
+  id?: string;
+};
+
+type SSEResolverInput = {
+  pathParams?: Record<string, unknown>;
+  searchParams?: Record<string, unknown>;
+  extra?: unknown;
+  lastEventId?: string;
+  signal: AbortSignal;
+};
+
+type SSEResponseOptions = {
+  /** Interval of keep-alive comments in ms (default 15000), 0 disables them */
+  heartbeat?: number;
+  /** Turns the error thrown by the source into the "error" event data */
+  toError?: (error: unknown) => ErrorVariant<string, number>;
+};
+
+const DEFAULT_HEARTBEAT = 15_000;
+
+const defaultToError = (): ErrorVariant<string, number> => ({
+  type: "internal_server_error",
+  status: 500,
+  message: "Stream failed",
+});
+
+/**
+ * Parses a server-sent events body into messages, comments and "retry"
+ * fields are skipped
+ */
+const readSSE = async function* (
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let message: { event?: string; data: string[]; id?: string } = { data: [] };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        return;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const rawLine of lines) {
+        const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+
+        if (line === "") {
+          if (message.data.length > 0) {
+            yield {
+              event: message.event ?? "message",
+              data: message.data.join("\n"),
+              ...(message.id !== undefined ? { id: message.id } : {}),
+            };
+          }
+
+          message = { data: [] };
+          continue;
+        }
+
+        if (line.startsWith(":")) {
+          continue;
+        }
+
+        const separator = line.indexOf(":");
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const text = separator === -1 ? "" : line.slice(separator + 1);
+        const fieldValue = text.startsWith(" ") ? text.slice(1) : text;
+
+        if (field === "data") {
+          message.data.push(fieldValue);
+        } else if (field === "event") {
+          message.event = fieldValue;
+        } else if (field === "id") {
+          message.id = fieldValue;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+};
+
+/**
+ * Creates a stream resolver from "sse" definition of the contract. Data of
+ * each event is parsed as JSON, "error" events and non-2xx responses are
+ * thrown as HttpException.
+ */
+const createSSEResolver = (
+  definition: SseDefinition,
+  options: HttpOptions = {},
+) =>
+  async function* (input: SSEResolverInput): AsyncGenerator<StreamEvent> {
+    const { baseURL = "", fetch: fetchFn = fetch } = options;
+    const url = `${baseURL}${applyPathParams(definition.path, input.pathParams)}${serializeSearchParams(input.searchParams)}`;
+    const extra = input.extra as
+      | { headers?: Record<string, string> }
+      | undefined;
+
+    const response = await fetchResponse(
+      url,
+      {
+        method: "GET",
+        headers: {
+          Accept: "text/event-stream",
+          ...options.headers,
+          ...extra?.headers,
+          ...(input.lastEventId !== undefined
+            ? { "Last-Event-ID": input.lastEventId }
+            : {}),
+        },
+        signal: input.signal,
+      },
+      fetchFn,
+    );
+
+    if (!response.ok) {
+      await ensureOk(response);
+    }
+
+    if (!response.body) {
+      return;
+    }
+
+    for await (const message of readSSE(response.body)) {
+      const data: unknown = JSON.parse(message.data);
+
+      if (message.event === "error") {
+        const status = (data as { status?: unknown }).status;
+
+        throw new HttpException(
+          new Response(message.data, {
+            status:
+              typeof status === "number" && status >= 400 && status <= 599
+                ? status
+                : 500,
+            headers: { "Content-Type": "application/json" },
+          }),
+          data,
+        );
+      }
+
+      yield new StreamEvent(data, message.id);
+    }
+  };
+
+/**
+ * Default reconnect predicate - streams failed without response or with 5xx
+ * are resumed, rejected and invalid ones are not
+ */
+const isReconnectableError = (error: unknown): boolean => {
+  if (HttpException.is(error)) {
+    return error.response.status >= 500;
+  }
+
+  return !ValidationException.is(error) && !(error instanceof SyntaxError);
+};
+
+const formatEvent = (chunk: unknown, event?: string): string => {
+  const { data, id } = StreamEvent.is(chunk) ? chunk : new StreamEvent(chunk);
+
+  return [
+    ...(id !== undefined ? [`id: ${id}`] : []),
+    ...(event ? [`event: ${event}`] : []),
+    `data: ${JSON.stringify(data ?? null)}`,
+  ]
+    .join("\n")
+    .concat("\n\n");
+};
+
+/**
+ * Sends chunks of the iterable as server-sent events, ids of StreamEvent
+ * chunks are sent as event ids. Thrown error ends the stream with an "error"
+ * event. Closing the response returns the source iterator.
+ */
+const toSSEResponse = (
+  source: AsyncIterable<unknown>,
+  options: SSEResponseOptions = {},
+): Response => {
+  const { heartbeat = DEFAULT_HEARTBEAT, toError = defaultToError } = options;
+  const encoder = new TextEncoder();
+  const iterator = source[Symbol.asyncIterator]();
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const stop = () => {
+    clearInterval(timer);
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    start: (controller) => {
+      if (heartbeat > 0) {
+        timer = setInterval(() => {
+          controller.enqueue(encoder.encode(": ping\n\n"));
+        }, heartbeat);
+      }
+    },
+    pull: async (controller) => {
+      try {
+        const { done, value } = await iterator.next();
+
+        if (done) {
+          stop();
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(encoder.encode(formatEvent(value)));
+      } catch (error) {
+        stop();
+        controller.enqueue(
+          encoder.encode(formatEvent(toError(error), "error")),
+        );
+        controller.close();
+      }
+    },
+    cancel: async () => {
+      stop();
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+};
+
+export type { SSEMessage, SSEResponseOptions };
+export { readSSE, createSSEResolver, toSSEResponse, isReconnectableError };
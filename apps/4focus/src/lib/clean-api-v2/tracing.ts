@@ -0,0 +1,473 @@
+import {
+  HttpException,
+  ValidationException,
+  type CleanApi,
+  type Configuration,
+  type Contracts,
+  type Middleware,
+  type ValidationMode,
+} from "./models";
+
+type SpanKind = "client" | "server";
+
+type SpanStatus = "ok" | "error";
+
+type SpanAttributes = Record<string, string | number | boolean>;
+
+type TraceContext = {
+  /** 32 hex characters, shared by all spans of the trace */
+  traceId: string;
+  /** 16 hex characters */
+  spanId: string;
+};
+
+type Span = TraceContext & {
+  /** Contract key */
+  name: string;
+  kind: SpanKind;
+  parentSpanId?: string;
+  /** Timestamps in ms */
+  startTime: number;
+  endTime: number;
+  duration: number;
+  status: SpanStatus;
+  attributes: SpanAttributes;
+};
+
+type SpanExporter = {
+  export: (span: Span) => void | Promise<void>;
+};
+
+type LatencyHistogram = {
+  /** Upper bounds in ms, the last count is for calls slower than all of them */
+  buckets: number[];
+  counts: number[];
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+};
+
+type ContractMetrics = {
+  calls: number;
+  ok: number;
+  failed: number;
+  /** Failed calls per error type */
+  errors: Record<string, number>;
+  /** Repeated attempts, the first one is not counted */
+  retries: number;
+  validationFailures: number;
+  latency: LatencyHistogram;
+};
+
+type StartSpanOptions = {
+  kind?: SpanKind;
+  /** Continued trace, e.g. read from the request headers */
+  parent?: TraceContext;
+  startTime?: number;
+  attributes?: SpanAttributes;
+};
+
+type ActiveSpan = {
+  context: TraceContext;
+  setAttribute: (name: string, value: string | number | boolean) => void;
+  /** Exports the span, next calls return the already ended one */
+  end: (status?: SpanStatus, endTime?: number) => Span;
+};
+
+type TracerOptions = {
+  exporters?: SpanExporter[];
+  /** Latency histogram bounds in ms */
+  buckets?: number[];
+};
+
+// Subset of the OpenTelemetry Tracer used by the exporter
+type OTelTracer = {
+  startSpan: (
+    name: string,
+    options?: {
+      kind?: number;
+      startTime?: number;
+      attributes?: SpanAttributes;
+    },
+  ) => OTelSpan;
+};
+
+type OTelSpan = {
+  setStatus: (status: { code: number; message?: string }) => unknown;
+  end: (endTime?: number) => void;
+};
+
+const TRACE_HEADER = "traceparent";
+const TRACE_HEADER_REGEX = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+const DEFAULT_BUCKETS = [50, 100, 250, 500, 1000, 2500, 5000, 10_000];
+
+// Values of SpanKind and SpanStatusCode enums from @opentelemetry/api
+const OTEL_SPAN_KIND: Record<SpanKind, number> = { server: 1, client: 2 };
+const OTEL_STATUS_CODE: Record<SpanStatus, number> = { ok: 1, error: 2 };
+
+const randomHex = (bytes: number): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+
+const createTraceContext = (parent?: TraceContext): TraceContext => ({
+  traceId: parent?.traceId ?? randomHex(16),
+  spanId: randomHex(8),
+});
+
+/**
+ * Formats the W3C "traceparent" header value
+ */
+const toTraceHeader = ({ traceId, spanId }: TraceContext): string =>
+  `00-${traceId}-${spanId}-01`;
+
+/**
+ * Reads the trace propagated by the client, undefined when the header is
+ * missing or malformed
+ */
+const readTraceHeader = (headers: Headers): TraceContext | undefined => {
+  const match = TRACE_HEADER_REGEX.exec(
+    headers.get(TRACE_HEADER)?.trim().toLowerCase() ?? "",
+  );
+
+  return match ? { traceId: match[1]!, spanId: match[2]! } : undefined;
+};
+
+const isErrorVariant = (
+  value: unknown,
+): value is { type: string; status: number } =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as { type?: unknown }).type === "string" &&
+  typeof (value as { status?: unknown }).status === "number";
+
+// Works for raw errors and the ones parsed at init() (with "rawError")
+const getErrorAttributes = (error: unknown): SpanAttributes => {
+  const raw =
+    typeof error === "object" && error !== null && "rawError" in error
+      ? error.rawError
+      : error;
+  const attributes: SpanAttributes = {};
+
+  if (isErrorVariant(error)) {
+    attributes["error.type"] = error.type;
+    attributes["error.status"] = error.status;
+  } else if (ValidationException.is(raw)) {
+    attributes["error.type"] = "validation_error";
+  } else if (HttpException.is(raw)) {
+    attributes["error.type"] = isErrorVariant(raw.data)
+      ? raw.data.type
+      : "http_error";
+    attributes["error.status"] = raw.response.status;
+  } else {
+    attributes["error.type"] = "unknown";
+  }
+
+  if (ValidationException.is(raw)) {
+    attributes["validation.failed"] = true;
+    attributes["validation.issues"] = raw.issues.length;
+  }
+
+  if (raw instanceof Error) {
+    attributes["error.message"] = raw.message;
+  }
+
+  return attributes;
+};
+
+/**
+ * Keeps exported spans in memory, meant for tests
+ */
+const createMemoryExporter = () => {
+  const spans: Span[] = [];
+
+  return {
+    spans,
+    export: (span: Span) => {
+      spans.push(span);
+    },
+    clear: () => {
+      spans.length = 0;
+    },
+  };
+};
+
+const createConsoleExporter = (
+  logger: Pick<Console, "info"> = console,
+): SpanExporter => ({
+  export: (span) => {
+    logger.info(
+      `[${span.kind}] ${span.name} ${span.status} in ${span.duration}ms`,
+      span.attributes,
+    );
+  },
+});
+
+/**
+ * Forwards finished spans to an OpenTelemetry tracer. It assigns its own
+ * ids, so ours are passed as attributes.
+ */
+const createOTelExporter = (tracer: OTelTracer): SpanExporter => ({
+  export: (span) => {
+    const otelSpan = tracer.startSpan(span.name, {
+      kind: OTEL_SPAN_KIND[span.kind],
+      startTime: span.startTime,
+      attributes: {
+        ...span.attributes,
+        "trace.id": span.traceId,
+        "span.id": span.spanId,
+        ...(span.parentSpanId ? { "parent.span.id": span.parentSpanId } : {}),
+      },
+    });
+
+    otelSpan.setStatus({ code: OTEL_STATUS_CODE[span.status] });
+    otelSpan.end(span.endTime);
+  },
+});
+
+/**
+ * Creates spans and per-contract metrics of calls. Instrumented APIs send
+ * the trace in the "traceparent" header, so route handlers can continue it.
+ */
+const createTracer = (options: TracerOptions = {}) => {
+  const { exporters = [], buckets = DEFAULT_BUCKETS } = options;
+  const metricsByContract = new Map<string, ContractMetrics>();
+
+  const report = (error: unknown) => {
+    console.error("Span exporter error:", error);
+  };
+
+  const collect = (span: Span) => {
+    const metrics: ContractMetrics = metricsByContract.get(span.name) ?? {
+      calls: 0,
+      ok: 0,
+      failed: 0,
+      errors: {},
+      retries: 0,
+      validationFailures: 0,
+      latency: {
+        buckets,
+        counts: Array<number>(buckets.length + 1).fill(0),
+        count: 0,
+        sum: 0,
+        min: Infinity,
+        max: 0,
+      },
+    };
+    const { attributes, duration, status } = span;
+    const bucket = buckets.findIndex((bound) => duration <= bound);
+
+    metrics.calls++;
+
+    if (status === "ok") {
+      metrics.ok++;
+    } else {
+      const type = String(attributes["error.type"] ?? "unknown");
+
+      metrics.failed++;
+      metrics.errors[type] = (metrics.errors[type] ?? 0) + 1;
+    }
+
+    metrics.retries += Math.max(
+      Number(attributes["retry.attempts"] ?? 1) - 1,
+      0,
+    );
+    metrics.validationFailures += attributes["validation.failed"] ? 1 : 0;
+    metrics.latency.counts[bucket === -1 ? buckets.length : bucket]!++;
+    metrics.latency.count++;
+    metrics.latency.sum += duration;
+    metrics.latency.min = Math.min(metrics.latency.min, duration);
+    metrics.latency.max = Math.max(metrics.latency.max, duration);
+
+    metricsByContract.set(span.name, metrics);
+  };
+
+  const record = (span: Span) => {
+    if (span.kind === "client") {
+      collect(span);
+    }
+
+    for (const exporter of exporters) {
+      try {
+        const result = exporter.export(span);
+
+        if (result instanceof Promise) {
+          result.catch(report);
+        }
+      } catch (error) {
+        report(error);
+      }
+    }
+  };
+
+  const startSpan = (
+    name: string,
+    spanOptions: StartSpanOptions = {},
+  ): ActiveSpan => {
+    const { kind = "client", parent, startTime = Date.now() } = spanOptions;
+    const context = createTraceContext(parent);
+    const attributes: SpanAttributes = { ...spanOptions.attributes };
+    let ended: Span | undefined;
+
+    return {
+      context,
+      setAttribute: (attribute, value) => {
+        attributes[attribute] = value;
+      },
+      end: (status = "ok", endTime = Date.now()) => {
+        if (!ended) {
+          ended = {
+            ...context,
+            ...(parent ? { parentSpanId: parent.spanId } : {}),
+            name,
+            kind,
+            startTime,
+            endTime,
+            duration: endTime - startTime,
+            status,
+            attributes,
+          };
+
+          record(ended);
+        }
+
+        return ended;
+      },
+    };
+  };
+
+  /**
+   * Records a span per call and propagates its context to the resolver.
+   * Returns a function that stops the instrumentation.
+   */
+  const instrument = <
+    TContracts extends Contracts,
+    TConfiguration extends Configuration | undefined,
+    TContractsSignature,
+    TMode extends ValidationMode,
+    TParsedErrors extends boolean,
+  >(
+    api: CleanApi<
+      TContracts,
+      TConfiguration,
+      TContractsSignature,
+      TMode,
+      TParsedErrors
+    >,
+  ): (() => void) => {
+    // Calls that reached the resolver, retries run middleware again
+    const running = new Map<
+      string,
+      { context: TraceContext; attempts: number }
+    >();
+
+    const propagate: Middleware<TContracts, TConfiguration> = (ctx, next) => {
+      const call = running.get(ctx.callId) ?? {
+        context: createTraceContext(),
+        attempts: 0,
+      };
+      const input = ctx.input as {
+        extra?: { headers?: Record<string, string> };
+      };
+
+      call.attempts++;
+      running.set(ctx.callId, call);
+
+      return next({
+        ...ctx,
+        input: {
+          ...input,
+          extra: {
+            ...input.extra,
+            headers: {
+              ...input.extra?.headers,
+              [TRACE_HEADER]: toTraceHeader(call.context),
+            },
+          },
+        },
+      } as typeof ctx);
+    };
+
+    const unuse = api.use(propagate);
+    const unsubscribe = api.onSettled("*", (event) => {
+      const call = running.get(event.callId);
+      const attributes: SpanAttributes = {
+        "contract.key": String(event.key),
+      };
+
+      running.delete(event.callId);
+
+      if (call && call.attempts > 1) {
+        attributes["retry.attempts"] = call.attempts;
+      }
+
+      if (!event.ok) {
+        Object.assign(attributes, getErrorAttributes(event.error));
+      }
+
+      record({
+        ...(call?.context ?? createTraceContext()),
+        name: String(event.key),
+        kind: "client",
+        startTime: event.startedAt,
+        endTime: event.endedAt,
+        duration: event.duration,
+        status: event.ok ? "ok" : "error",
+        attributes,
+      });
+    });
+
+    return () => {
+      unuse();
+      unsubscribe();
+      running.clear();
+    };
+  };
+
+  /** Snapshot of collected metrics per contract */
+  const metrics = (): Record<string, ContractMetrics> =>
+    Object.fromEntries(
+      [...metricsByContract].map(([name, { errors, latency, ...rest }]) => [
+        name,
+        {
+          ...rest,
+          errors: { ...errors },
+          latency: { ...latency, counts: [...latency.counts] },
+        },
+      ]),
+    );
+
+  const resetMetrics = (): void => {
+    metricsByContract.clear();
+  };
+
+  return { instrument, startSpan, metrics, resetMetrics };
+};
+
+type Tracer = ReturnType<typeof createTracer>;
+
+export type {
+  SpanKind,
+  SpanStatus,
+  SpanAttributes,
+  TraceContext,
+  Span,
+  SpanExporter,
+  LatencyHistogram,
+  ContractMetrics,
+  StartSpanOptions,
+  ActiveSpan,
+  TracerOptions,
+  Tracer,
+  OTelTracer,
+  OTelSpan,
+};
+export {
+  createTracer,
+  createMemoryExporter,
+  createConsoleExporter,
+  createOTelExporter,
+  toTraceHeader,
+  readTraceHeader,
+};
@@ -10,7 +10,8 @@ import {
   vi,
 } from "vitest";
 import type { ErrorVariant } from "..";
-import { cleanAPI, contract } from "..";
+import { contract } from "..";
+import { implementations } from "./implementations";
 
 vi.mock("axios");
 const mockedAxios = vi.mocked(axios, true);
@@ -70,9 +71,9 @@ const testConfig = contract<TestContracts>()({
   noInput: { method: "get", path: "/no-input" },
 });
 
-const api = cleanAPI<TestContracts>()(testConfig);
+describe.each(implementations)("API calling (%s)", (_name, cleanAPI) => {
+  const api = cleanAPI<TestContracts>()(testConfig);
 
-describe("API calling", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.spyOn(navigator, "onLine", "get").mockReturnValue(true);
@@ -243,7 +244,11 @@ describe("API calling", () => {
         response: {
           status: 404,
           statusText: "user_not_found",
-          data: { message: "User does not exist" },
+          data: {
+            type: "user_not_found",
+            status: 404,
+            message: "User does not exist",
+          },
         },
       } as AxiosError);
 
@@ -294,7 +299,11 @@ describe("API calling", () => {
         response: {
           status: 404,
           statusText: "user_not_found",
-          data: { message: "User does not exist" },
+          data: {
+            type: "user_not_found",
+            status: 404,
+            message: "User does not exist",
+          },
         },
       } as AxiosError);
 
@@ -339,7 +348,11 @@ describe("API calling", () => {
         response: {
           status: 500,
           statusText: "update_failed",
-          data: { message: "Update operation failed" },
+          data: {
+            type: "update_failed",
+            status: 500,
+            message: "Update operation failed",
+          },
         },
       } as AxiosError);
 
@@ -399,7 +412,11 @@ describe("API calling", () => {
         response: {
           status: 500,
           statusText: "delete_failed",
-          data: { message: "Delete operation failed" },
+          data: {
+            type: "delete_failed",
+            status: 500,
+            message: "Delete operation failed",
+          },
         },
       } as AxiosError);
 
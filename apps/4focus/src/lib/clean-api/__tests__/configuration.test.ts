@@ -1,6 +1,7 @@
 import { describe, it, vi, expect, beforeEach } from "vitest";
 import type { CleanAPIRootConfig, ErrorVariant } from "..";
-import { cleanAPI, contract } from "..";
+import { contract } from "..";
+import { implementations } from "./implementations";
 import axios from "axios";
 
 vi.mock("axios");
@@ -12,7 +13,7 @@ mockedAxios.isAxiosError.mockImplementation(isAxiosError as any);
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 mockedAxios.isCancel.mockImplementation(isCancel as any);
 
-describe("configuration", () => {
+describe.each(implementations)("configuration (%s)", (_name, cleanAPI) => {
   type Contracts = {
     get: {
       dto: boolean;
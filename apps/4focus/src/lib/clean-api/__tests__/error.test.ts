@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, expectTypeOf } from "vitest";
 import type { ErrorVariant } from "..";
-import { cleanAPI, contract } from "..";
+import { contract } from "..";
+import { implementations } from "./implementations";
 import axios from "axios";
 import type { AxiosError } from "axios";
 
@@ -13,7 +14,7 @@ mockedAxios.isAxiosError.mockImplementation(isAxiosError as any);
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 mockedAxios.isCancel.mockImplementation(isCancel as any);
 
-describe("error handling", () => {
+describe.each(implementations)("error handling (%s)", (_name, cleanAPI) => {
   type Contracts = {
     simpleError: {
       dto: boolean;
@@ -85,7 +86,12 @@ describe("error handling", () => {
       const errorResponse = {
         isAxiosError: true,
         response: {
-          data: { message: "Internal Server Error" },
+          // Bridged instance reads type and status from the body
+          data: {
+            type: "simple_error",
+            status: 500,
+            message: "Internal Server Error",
+          },
           status: 500,
           statusText: "simple_error",
         },
@@ -106,7 +112,12 @@ describe("error handling", () => {
       const errorResponse = {
         isAxiosError: true,
         response: {
-          data: { message: "Bad Request", meta: { reason: "validation" } },
+          data: {
+            type: "meta_error",
+            status: 400,
+            message: "Bad Request",
+            meta: { reason: "validation" },
+          },
           status: 400,
           statusText: "meta_error",
         },
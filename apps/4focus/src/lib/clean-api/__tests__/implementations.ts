@@ -0,0 +1,13 @@
+import { fromLegacy } from "../../clean-api-v2/adapters/legacy";
+import { cleanAPI } from "..";
+
+/**
+ * Factories the suites run against, the v2 instance bridged with fromLegacy
+ * must behave like v1. It's typed as v1, so the same type checks apply.
+ */
+const implementations = [
+  ["cleanAPI", cleanAPI],
+  ["fromLegacy", fromLegacy as unknown as typeof cleanAPI],
+] as const;
+
+export { implementations };
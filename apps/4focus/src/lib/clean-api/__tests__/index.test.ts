@@ -10,7 +10,8 @@ import {
   vi,
 } from "vitest";
 import type { ErrorVariant, InferInput } from "..";
-import { cleanAPI, contract } from "..";
+import { contract } from "..";
+import { implementations } from "./implementations";
 
 vi.mock("axios");
 const mockedAxios = vi.mocked(axios, true);
@@ -71,11 +72,11 @@ const testConfig = contract<TestContracts>()({
   justPayload: { method: "post", path: "/payload" },
 });
 
-const api = cleanAPI<TestContracts>()(testConfig, {
-  headers: { "X-Test-Header": "base" },
-});
+describe.each(implementations)("cleanAPI (%s)", (name, cleanAPI) => {
+  const api = cleanAPI<TestContracts>()(testConfig, {
+    headers: { "X-Test-Header": "base" },
+  });
 
-describe("cleanAPI", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     // @ts-expect-error - Resetting navigator.onLine for tests
@@ -230,7 +231,8 @@ describe("cleanAPI", () => {
     });
   });
 
-  describe("parseError", () => {
+  // v2 registers the parser at init instead, see legacy.test.ts in v2 adapters
+  describe.runIf(name === "cleanAPI")("parseError", () => {
     it("parses a server error with a valid error contract", () => {
       const axiosError = {
         isAxiosError: true,
@@ -353,7 +355,11 @@ describe("cleanAPI", () => {
         response: {
           status: 404,
           statusText: "user_not_found",
-          data: { message: "User does not exist" },
+          data: {
+            type: "user_not_found",
+            status: 404,
+            message: "User does not exist",
+          },
         },
       } as unknown as AxiosError;
       mockedAxios.get.mockRejectedValue(axiosError);
@@ -1,6 +1,7 @@
 import { describe, it, vi } from "vitest";
 import type { ErrorVariant } from "..";
-import { cleanAPI, contract } from "..";
+import { contract } from "..";
+import { implementations } from "./implementations";
 import axios from "axios";
 
 vi.mock("axios");
@@ -12,7 +13,7 @@ mockedAxios.isAxiosError.mockImplementation(isAxiosError as any);
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 mockedAxios.isCancel.mockImplementation(isCancel as any);
 
-describe("initialization", () => {
+describe.each(implementations)("initialization (%s)", (_name, cleanAPI) => {
   it("creates a client with a valid base config", () => {
     type Contracts = {
       get: {
@@ -1,6 +1,7 @@
 import { describe, expect, expectTypeOf, it, vi } from "vitest";
 import type { ErrorVariant } from "..";
-import { cleanAPI, contract } from "..";
+import { contract } from "..";
+import { implementations } from "./implementations";
 import axios from "axios";
 import type { AxiosError } from "axios";
 
@@ -53,9 +54,9 @@ const testConfig = contract<TestContracts>()({
   errorWithRequiredMeta: { method: "get", path: "/error-with-meta" },
 });
 
-const api = cleanAPI<TestContracts>()(testConfig);
+describe.each(implementations)("utils (%s)", (name, cleanAPI) => {
+  const api = cleanAPI<TestContracts>()(testConfig);
 
-describe("utils", () => {
   describe("pathParams", () => {
     it("returns and infers the correct type", () => {
       const pathParams = { id: "1" };
@@ -273,7 +274,8 @@ describe("utils", () => {
       expectTypeOf(result).toEqualTypeOf<ErrorVariant<"error", 500>>();
     });
   });
-  describe("parseError", () => {
+  // v2 registers the parser at init instead, see legacy.test.ts in v2 adapters
+  describe.runIf(name === "cleanAPI")("parseError", () => {
     it("handles server errors correctly", () => {
       mockedAxios.isAxiosError.mockReturnValue(true);
       const serverError = {
@@ -0,0 +1,17 @@
+import { focus4API, MAX_BATCH_CALLS } from "@/ipc/contracts";
+import { defineBatchRoute } from "@/kernel/server/define-batch-route";
+import * as tasks from "./tasks";
+import * as tasksHistory from "./tasks-history";
+import * as focusSessions from "./focus-sessions";
+
+export const POST = defineBatchRoute(
+  focus4API,
+  {
+    "tasks.getTasks": tasks.GET,
+    "tasks.createTask": tasks.POST,
+    "tasks.getTaskHistory": tasksHistory.GET,
+    "sessions.getActiveFocusSession": focusSessions.GET,
+    "sessions.updateFocusSession": focusSessions.PATCH,
+  },
+  { maxCalls: MAX_BATCH_CALLS },
+);
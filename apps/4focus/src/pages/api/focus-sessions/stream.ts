@@ -0,0 +1,114 @@
+import { focus4API } from "@/ipc/contracts";
+import { StreamEvent, type InferDto } from "@/lib/clean-api-v2";
+import { defineStreamRoute } from "@/kernel/server/define-route";
+
+type Dto = InferDto<typeof focus4API, "sessions.watchFocusSession">;
+type Session = NonNullable<Dto["session"]>;
+type Task = NonNullable<Session["task"]>;
+
+// Session state is read again after this time, changes are pushed as chunks
+const POLL_INTERVAL = 2_000;
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timeout = setTimeout(resolve, ms);
+
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+
+export const GET = defineStreamRoute(
+  focus4API,
+  "sessions.watchFocusSession",
+  async function* ({ user, supabase, lastEventId, signal }) {
+    // Resumed clients already have the state with this version
+    let version = lastEventId;
+
+    while (!signal.aborted) {
+      const { data: activeSession, error: sessionError } = await supabase
+        .from("focus_sessions")
+        .select(
+          `
+          id,
+          task_id,
+          started_at,
+          ended_at,
+          status,
+          total_interruptions,
+          tasks (
+            id,
+            title,
+            description,
+            priority,
+            status,
+            estimated_duration_minutes,
+            creation_date,
+            update_date,
+            user_id
+          )
+        `,
+        )
+        .eq("user_id", user.id)
+        .eq("status", "active")
+        .maybeSingle();
+
+      if (sessionError) {
+        throw sessionError;
+      }
+
+      const next = activeSession
+        ? `${activeSession.id}:${activeSession.status}:${activeSession.total_interruptions}:${activeSession.tasks?.update_date ?? ""}`
+        : "none";
+
+      if (next !== version) {
+        version = next;
+
+        yield new StreamEvent(
+          {
+            hasActiveSession: !!activeSession,
+            session: activeSession
+              ? {
+                  id: activeSession.id,
+                  taskId: activeSession.task_id as Session["taskId"],
+                  startedAt: new Date(activeSession.started_at).toISOString(),
+                  endedAt: activeSession.ended_at
+                    ? new Date(activeSession.ended_at).toISOString()
+                    : null,
+                  status: activeSession.status as Session["status"],
+                  totalInterruptions: activeSession.total_interruptions,
+                  task: activeSession.tasks
+                    ? {
+                        id: activeSession.tasks.id,
+                        userId: activeSession.tasks.user_id,
+                        title: activeSession.tasks.title,
+                        description: activeSession.tasks.description,
+                        priority: activeSession.tasks
+                          .priority as Task["priority"],
+                        status: activeSession.tasks.status as Task["status"],
+                        creationDate: new Date(
+                          activeSession.tasks.creation_date,
+                        ).toISOString(),
+                        updateDate: new Date(
+                          activeSession.tasks.update_date,
+                        ).toISOString(),
+                        estimatedDurationMinutes:
+                          activeSession.tasks.estimated_duration_minutes,
+                      }
+                    : null,
+                }
+              : null,
+          },
+          next,
+        );
+      }
+
+      await sleep(POLL_INTERVAL, signal);
+    }
+  },
+);
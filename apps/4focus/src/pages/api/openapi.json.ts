@@ -0,0 +1,7 @@
+import type { APIRoute } from "astro";
+import { getFocus4OpenAPI } from "@/ipc/contracts/openapi";
+import { OkResponse } from "@/kernel/server/response";
+
+export const GET: APIRoute = () => {
+  return OkResponse(getFocus4OpenAPI(), 200);
+};
@@ -0,0 +1,54 @@
+import { focus4Tracer, tasksAPI } from "@/ipc/contracts";
+import type { InferDto } from "@/lib/clean-api-v2";
+import { defineRPCRoute } from "@/kernel/server/define-route";
+import { keysetPage } from "@/kernel/server/keyset-page";
+
+const toISOString = (value: string | null) =>
+  value === null ? null : new Date(value).toISOString();
+
+type Entry = InferDto<typeof tasksAPI, "getTaskHistoryPage">["items"][number];
+
+// Contracts of tasks declared with "rpc: true" are served here
+export const POST = defineRPCRoute(
+  tasksAPI,
+  {
+    getTaskHistoryPage: async ({ input, supabase, ok, fail }) => {
+      const { taskId, cursor, limit } = input.searchParams;
+
+      const { data, error } = await keysetPage(
+        supabase
+          .from("tasks_history")
+          .select(
+            "id, task_id, operation, changed_at, title, description, priority, status, creation_date, update_date",
+          )
+          .eq("task_id", taskId),
+        { column: "changed_at", cursor, limit },
+      );
+
+      if (error) {
+        return fail({
+          type: "internal_server_error",
+          status: 500,
+          message: error.message,
+        });
+      }
+
+      return ok({
+        items: data.items.map((entry) => ({
+          id: entry.id,
+          taskId: entry.task_id,
+          operation: entry.operation,
+          changedAt: new Date(entry.changed_at).toISOString(),
+          title: entry.title,
+          description: entry.description,
+          priority: entry.priority as Entry["priority"],
+          status: entry.status as Entry["status"],
+          creationDate: toISOString(entry.creation_date),
+          updateDate: toISOString(entry.update_date),
+        })),
+        nextCursor: data.nextCursor,
+      });
+    },
+  },
+  { tracer: focus4Tracer },
+);
@@ -2,9 +2,9 @@ import type { APIRoute } from "astro";
 import { createSupabaseServerClient } from "@/kernel/db/supabase-server";
 import type { TablesInsert, TablesUpdate } from "@/kernel/db/database.types";
 import * as z from "zod";
-import { focus4API } from "@/ipc/contracts";
-import { ValidationException, type InferDto } from "@/lib/clean-api-v2";
-import { ErrorResponse, OkResponse } from "@/kernel/server/response";
+import { focus4API, focus4Tracer } from "@/ipc/contracts";
+import type { InferDto } from "@/lib/clean-api-v2";
+import { defineRoute } from "@/kernel/server/define-route";
 
 const parseBody = async (
   request: Request,
@@ -88,28 +88,10 @@ const deleteTaskSchema = z.object({
   id: z.coerce.number().int().positive(),
 });
 
-export const POST: APIRoute = async (context) => {
-  try {
-    const supabase = createSupabaseServerClient(context);
-
-    const {
-      data: { user },
-      error: userError,
-    } = await supabase.auth.getUser();
-
-    if (userError || !user) {
-      return ErrorResponse(
-        focus4API.error("createTask", {
-          type: "unauthorized",
-          status: 401,
-          message: "Unauthorized",
-        }),
-      );
-    }
-
-    const rawPayload = await context.request.json();
-    const payload = await focus4API.payload("createTask", rawPayload);
-
+export const POST = defineRoute(
+  focus4API,
+  "tasks.createTask",
+  async ({ input: { payload }, user, supabase, ok, fail }) => {
     const insert: TablesInsert<"tasks"> = {
       title: payload.title,
       description:
@@ -127,144 +109,71 @@ export const POST: APIRoute = async (context) => {
       .single();
 
     if (error) {
-      return ErrorResponse(
-        focus4API.error("createTask", {
-          type: "internal_server_error",
-          status: 500,
-          message: error.message,
-        }),
-      );
-    }
-
-    type Dto = InferDto<typeof focus4API, "createTask">;
-
-    const dto = focus4API.dto("createTask", {
-      id: data.id as Dto["id"],
-      userId: data.user_id as Dto["userId"],
-      title: data.title,
-      description: data.description,
-      priority: data.priority as Dto["priority"],
-      status: data.status as Dto["status"],
-      creationDate: new Date(
-        data.creation_date,
-      ).toISOString() as Dto["creationDate"],
-      updateDate: new Date(data.update_date).toISOString() as Dto["updateDate"],
-      estimatedDurationMinutes: data.estimated_duration_minutes,
-    });
-
-    return OkResponse(dto, 201);
-  } catch (error) {
-    if (ValidationException.is(error)) {
-      return ErrorResponse(
-        focus4API.error("createTask", {
-          type: "bad_request",
-          status: 400,
-          message: "Invalid payload",
-          meta: {
-            issues: error.issues.map((issue) => ({
-              path: issue.path.map((p) => String(p)),
-              message: issue.message,
-            })),
-          },
-        }),
-      );
-    }
-
-    return ErrorResponse(
-      focus4API.error("createTask", {
+      return fail({
         type: "internal_server_error",
         status: 500,
-        message: "Unexpected error during task creation",
-      }),
-    );
-  }
-};
-
-export const GET: APIRoute = async (context) => {
-  try {
-    const supabase = createSupabaseServerClient(context);
-
-    const {
-      data: { user },
-      error: userError,
-    } = await supabase.auth.getUser();
-
-    if (userError || !user) {
-      return ErrorResponse(
-        focus4API.error("getTasks", {
-          type: "unauthorized",
-          status: 401,
-          message: "Unauthorized",
-        }),
-      );
+        message: error.message,
+      });
     }
 
+    type Dto = InferDto<typeof focus4API, "tasks.createTask">;
+
+    return ok(
+      {
+        id: data.id,
+        userId: data.user_id,
+        title: data.title,
+        description: data.description,
+        priority: data.priority as Dto["priority"],
+        status: data.status as Dto["status"],
+        creationDate: new Date(data.creation_date).toISOString(),
+        updateDate: new Date(data.update_date).toISOString(),
+        estimatedDurationMinutes: data.estimated_duration_minutes,
+      },
+      201,
+    );
+  },
+  { tracer: focus4Tracer },
+);
+
+export const GET = defineRoute(
+  focus4API,
+  "tasks.getTasks",
+  async ({ supabase, ok, fail }) => {
     const { data, error } = await supabase
       .from("tasks")
       .select("*")
       .order("creation_date", { ascending: false });
 
     if (error) {
-      return ErrorResponse(
-        focus4API.error("getTasks", {
-          type: "internal_server_error",
-          status: 500,
-          message: error.message,
-        }),
-      );
+      return fail({
+        type: "internal_server_error",
+        status: 500,
+        message: error.message,
+      });
     }
 
-    type Dto = InferDto<typeof focus4API, "getTasks">;
+    type Dto = InferDto<typeof focus4API, "tasks.getTasks">;
     type Task = Dto["tasks"][number];
 
-    const dto = focus4API.dto("getTasks", {
+    return ok({
       tasks: data.map((task) => {
         return {
-          id: task.id as Task["id"],
+          id: task.id,
           title: task.title,
           description: task.description,
           priority: task.priority as Task["priority"],
           status: task.status as Task["status"],
-          creationDate: new Date(
-            task.creation_date,
-          ).toISOString() as Task["creationDate"],
-          updateDate: new Date(
-            task.update_date,
-          ).toISOString() as Task["updateDate"],
-          estimatedDurationMinutes:
-            task.estimated_duration_minutes as Task["estimatedDurationMinutes"],
-          userId: task.user_id as Task["userId"],
+          creationDate: new Date(task.creation_date).toISOString(),
+          updateDate: new Date(task.update_date).toISOString(),
+          estimatedDurationMinutes: task.estimated_duration_minutes,
+          userId: task.user_id,
         };
       }),
     });
-
-    return OkResponse(dto, 200);
-  } catch (error) {
-    if (ValidationException.is(error)) {
-      return ErrorResponse(
-        focus4API.error("getTasks", {
-          type: "bad_request",
-          status: 400,
-          message: "Invalid input",
-          meta: {
-            issues: error.issues.map((issue) => ({
-              path: issue.path.map((p) => String(p)),
-              message: issue.message,
-            })),
-          },
-        }),
-      );
-    }
-
-    return ErrorResponse(
-      focus4API.error("getTasks", {
-        type: "internal_server_error",
-        status: 500,
-        message: "Something went wrong during the request for tasks",
-      }),
-    );
-  }
-};
+  },
+  { tracer: focus4Tracer },
+);
 
 export const PATCH: APIRoute = async (context) => {
   const supabase = createSupabaseServerClient(context);
@@ -1,33 +1,13 @@
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import { focus4API, parseFocus4APIError } from "@/ipc/contracts";
-import { type Task, type TaskCreationPayload } from "./tasks-management";
+import { focus4API } from "@/ipc/contracts";
+import { useContractForm } from "@/lib/clean-api-v2/adapters/react-hook-form";
+import { type Task } from "./tasks-management";
 import { Card } from "@/lib/ui/components/card";
 import { Button } from "@/lib/ui/components/button";
 import { Input } from "@/lib/ui/components/input";
 import { Textarea } from "@/lib/ui/components/textarea";
 import { Label } from "@/lib/ui/components/label";
 import { X } from "lucide-react";
-import * as z from "zod";
-import { taskDescription } from "@/ipc/contracts/schemas-atoms";
 import { useTasksContext } from "./tasks-provider";
-import { toast } from "sonner";
-
-type FormData = {
-  title: TaskCreationPayload["title"];
-  description: NonNullable<TaskCreationPayload["description"]>;
-  estimatedDurationMinutes: TaskCreationPayload["estimatedDurationMinutes"];
-};
-
-const schema = (() => {
-  const shape = focus4API.getRawSchema("createTask").payload.shape;
-
-  return z.object({
-    title: shape.title,
-    description: taskDescription,
-    estimatedDurationMinutes: shape.estimatedDurationMinutes,
-  });
-})();
 
 interface TaskFormProps {
   priority: Task["priority"];
@@ -40,49 +20,43 @@ const TaskForm = ({ priority, onClose, onSubmit }: TaskFormProps) => {
 
   const {
     register,
-    handleSubmit,
-    formState: { errors },
+    submit,
+    formState: { errors, isSubmitting },
     reset,
-  } = useForm<FormData>({
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    resolver: zodResolver(schema as any),
-    defaultValues: {
+  } = useContractForm(focus4API, "tasks.createTask", {
+    pick: ["title", "description", "estimatedDurationMinutes"],
+    defaults: {
       title: "",
       description: "",
       estimatedDurationMinutes: 30,
     },
+    call: creation.mutateAsync,
   });
 
-  const submit = (payload: FormData) => {
-    creation.mutate(
-      {
-        ...payload,
+  const handleSubmit = submit(
+    (values) => ({
+      payload: {
+        ...values,
         priority,
         status: "todo",
       },
-      {
-        onSuccess: () => {
-          reset();
-        },
-        onError: (error) => {
-          const parsed = parseFocus4APIError("createTask", error);
-
-          if (parsed.type === "aborted") {
-            return;
-          }
-
-          toast("Failed to create task", {
-            description: parsed.message,
-          });
-        },
+    }),
+    {
+      onOk: () => {
+        reset();
+        onSubmit();
+      },
+      // Offline the optimistic task is already on the board
+      onQueued: () => {
+        reset();
+        onSubmit();
       },
-    );
-    onSubmit();
-  };
+    },
+  );
 
   return (
     <Card className="p-4 mb-3 border-2 border-dashed border-gray-300">
-      <form onSubmit={handleSubmit(submit)} className="space-y-4" noValidate>
+      <form onSubmit={handleSubmit} className="space-y-4" noValidate>
         <header className="flex items-center justify-between">
           <h2 className="typo-small font-medium">Add New Task</h2>
           <Button
@@ -181,6 +155,12 @@ const TaskForm = ({ priority, onClose, onSubmit }: TaskFormProps) => {
           </div>
         </fieldset>
 
+        {errors.root?.server && (
+          <p className="text-red-600 typo-small" role="alert">
+            {errors.root.server.message}
+          </p>
+        )}
+
         {/* Actions */}
         <footer className="flex gap-2 pt-2">
           <Button
@@ -192,7 +172,12 @@ const TaskForm = ({ priority, onClose, onSubmit }: TaskFormProps) => {
           >
             Cancel
           </Button>
-          <Button type="submit" size="sm" className="flex-1">
+          <Button
+            type="submit"
+            size="sm"
+            className="flex-1"
+            disabled={isSubmitting}
+          >
             Create
           </Button>
         </footer>
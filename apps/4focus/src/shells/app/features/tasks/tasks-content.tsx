@@ -8,7 +8,6 @@ import {
   ErrorIcon,
   ErrorScreen,
 } from "./error-screen";
-import { parseFocus4APIError } from "@/ipc/contracts";
 import { Button } from "@/lib/ui/components/button";
 
 const TasksContent = () => {
@@ -35,16 +34,15 @@ const TasksContent = () => {
   }
 
   if (error) {
-    const parsed = parseFocus4APIError("getTasks", error);
     const description =
-      parsed.type === "validation_error" || parsed.type === "bad_request"
-        ? parsed.meta.issues.map((issue) => issue.message).join(", ")
-        : parsed.message;
+      error.type === "validation_error" || error.type === "bad_request"
+        ? error.meta.issues.map((issue) => issue.message).join(", ")
+        : error.message;
 
     return (
       <ErrorScreen>
         <ErrorIcon variant="default" />
-        <ErrorHeader title={parsed.type} />
+        <ErrorHeader title={error.type} />
         <ErrorDescription description={description} />
         <ErrorFooter>
           <Button
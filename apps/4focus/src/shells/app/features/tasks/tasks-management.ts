@@ -1,42 +1,34 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { focus4API } from "@/ipc/contracts";
+import { focus4Query } from "@/ipc/contracts/query";
 
-import type { InferDto, InferPayload } from "@/lib/clean-api-v2";
+import type { InferDto, InferPayload, QueueEntry } from "@/lib/clean-api-v2";
 
-type Task = InferDto<typeof focus4API, "getTasks">["tasks"][number];
-type TaskCreationPayload = InferPayload<typeof focus4API, "createTask">;
-
-const TASKS_QUERY_KEY = ["tasks"] as const;
+type Task = InferDto<typeof focus4API, "tasks.getTasks">["tasks"][number];
+type TaskCreationPayload = InferPayload<typeof focus4API, "tasks.createTask">;
 
 const useTasksLoad = () => {
-  return useQuery({
-    queryKey: TASKS_QUERY_KEY,
-    queryFn: async ({ signal }): Promise<Task[]> => {
-      const data = await focus4API.call("getTasks", {
-        extra: { signal },
-      });
-      return data.tasks;
-    },
+  return focus4Query.useApiQuery("tasks.getTasks", undefined, {
+    select: (data) => data.tasks,
   });
 };
 
 const useTaskCreation = () => {
   const queryClient = useQueryClient();
 
-  return useMutation({
+  return focus4Query.useApiMutation("tasks.createTask", {
     retry: 0,
-    mutationFn: async (payload: TaskCreationPayload) => {
-      const data = await focus4API.call("createTask", {
-        payload,
-      });
-      return data;
-    },
-    onMutate: async (task) => {
+    // Offline calls go to the persisted queue instead of being paused in memory
+    networkMode: "always",
+    onMutate: async ({ payload: task }) => {
       // Cancel any outgoing refetches
-      await queryClient.cancelQueries({ queryKey: TASKS_QUERY_KEY });
+      await queryClient.cancelQueries({
+        queryKey: focus4Query.keys.all("tasks.getTasks"),
+      });
 
       // Snapshot the previous value
-      const previousTasks = queryClient.getQueryData<Task[]>(TASKS_QUERY_KEY);
+      const previousTasks = focus4Query.getData(queryClient, "tasks.getTasks");
 
       // Create optimistic task with temporary ID
       const optimisticTask: Task = {
@@ -52,32 +44,47 @@ const useTaskCreation = () => {
       };
 
       // Optimistically update to the new value
-      queryClient.setQueryData<Task[]>(TASKS_QUERY_KEY, (old) => {
-        if (!old) return [optimisticTask];
-        return [...old, optimisticTask];
-      });
+      focus4Query.setData(queryClient, "tasks.getTasks", undefined, (old) => ({
+        tasks: [...(old?.tasks ?? []), optimisticTask],
+      }));
 
       // Return a context object with the snapshotted value and optimistic task
       return { previousTasks, optimisticTask };
     },
-    onError: (err, taskData, context) => {
+    onError: (_error, _input, context) => {
       // If the mutation fails, use the context returned from onMutate to roll back
       if (context?.previousTasks) {
-        queryClient.setQueryData(TASKS_QUERY_KEY, context.previousTasks);
+        focus4Query.setData(
+          queryClient,
+          "tasks.getTasks",
+          undefined,
+          context.previousTasks,
+        );
       }
-      // Error is already parsed in mutationFn, so err is the parsed error
     },
-    onSuccess: (data, variables, context) => {
+    onSuccess: (data, _input, context) => {
       // Replace the optimistic task with the real task from server
-      queryClient.setQueryData<Task[]>(TASKS_QUERY_KEY, (old) => {
-        if (!old) return [data];
-        return old.map((task) =>
+      focus4Query.setData(queryClient, "tasks.getTasks", undefined, (old) => ({
+        tasks: (old?.tasks ?? [data]).map((task) =>
           task.id === context?.optimisticTask.id ? data : task,
-        );
-      });
+        ),
+      }));
     },
   });
 };
 
+const noQueuedEntries: QueueEntry[] = [];
+
+// Number of created tasks waiting for connectivity to be sent
+const usePendingSync = () => {
+  const entries = useSyncExternalStore(
+    focus4API.queue.subscribe,
+    focus4API.queue.entries,
+    () => noQueuedEntries,
+  );
+
+  return entries.filter((entry) => entry.key === "tasks.createTask").length;
+};
+
 export type { Task, TaskCreationPayload };
-export { useTasksLoad, useTaskCreation };
+export { useTasksLoad, useTaskCreation, usePendingSync };
@@ -1,13 +1,19 @@
 import { context } from "@/lib/context";
-import { useTaskCreation, useTasksLoad } from "./tasks-management";
+import {
+  usePendingSync,
+  useTaskCreation,
+  useTasksLoad,
+} from "./tasks-management";
 
 const [TasksProvider, useTasksContext] = context(() => {
   const load = useTasksLoad();
   const creation = useTaskCreation();
+  const pendingSync = usePendingSync();
 
   return {
     load,
     creation,
+    pendingSync,
   };
 });
 
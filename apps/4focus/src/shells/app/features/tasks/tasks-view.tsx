@@ -1,14 +1,22 @@
 import { Button } from "@/lib/ui/components/button";
+import { Badge } from "@/lib/ui/components/badge";
 import { Plus } from "lucide-react";
-import { TasksProvider } from "./tasks-provider";
+import { TasksProvider, useTasksContext } from "./tasks-provider";
 import { TasksContent } from "./tasks-content";
 
 const TasksView = () => {
+  const { pendingSync } = useTasksContext();
+
   return (
     <div className="relative h-full flex flex-col">
       <header className="pb-6 padding-x padding-top">
         <span className="typo-muted capitalize">Manage your daily routine</span>
-        <h1 className="typo-h3">Tasks</h1>
+        <div className="flex items-center gap-2">
+          <h1 className="typo-h3">Tasks</h1>
+          {pendingSync > 0 && (
+            <Badge variant="outline">{pendingSync} pending sync</Badge>
+          )}
+        </div>
       </header>
       <div className="padding-x padding-bottom">
         <TasksContent />
@@ -10,9 +10,8 @@ const createClient = () => {
       queries: {
         staleTime: 5 * 60 * 1000,
         gcTime: 10 * 60 * 1000,
-        retry: (failureCount) => {
-          return failureCount < 3;
-        },
+        // Retries are declared per contract in focus4API
+        retry: false,
         refetchOnWindowFocus: false,
         refetchOnReconnect: true,
       },